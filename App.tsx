@@ -2,48 +2,349 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
 import Header from './components/Header';
 import StartScreen from './components/StartScreen';
 import EditorCanvas from './components/EditorCanvas';
+import DocumentLibrary from './components/DocumentLibrary';
+import SettingsModal from './components/SettingsModal';
+import GenerationPreview from './components/GenerationPreview';
 import Spinner from './components/Spinner';
 import { parseRoadmapText } from './services/geminiService';
 import type { RoadmapData } from './services/geminiService';
+import { serializeRoadmapToMarkdown } from './services/roadmapMarkdown';
+import { carryOverThreads } from './services/roadmapComments';
+import * as roadmapStore from './services/roadmapStore';
+import type { RoadmapDocument } from './services/roadmapStore';
+import { RoadmapValidationError } from './services/roadmapValidator';
+import type { ValidationIssue } from './services/roadmapValidator';
+import { hasSharedState, decodeSharedState, encodeSharedState } from './services/shareLink';
+import type { EditorViewMode } from './services/svgRenderer';
+import { EMPTY_FILTER } from './services/roadmapFilter';
+import type { RoadmapFilter } from './services/roadmapFilter';
+import { applyTheme, loadTheme, saveTheme } from './services/themes';
+import type { ThemeId } from './services/themes';
+import { ROOM_ID_PATTERN, createRoomId } from './services/collab/collabSession';
+import type { CollabRoom } from './hooks/useCollaboration';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+// A shared link in the URL takes precedence over the roadmap that was open before.
+const openedFromLink = hasSharedState(window.location.hash);
+
+// An invite link names the live collaboration room in `?room=`.
+const ROOM_PARAM = 'room';
+
+const readLiveRoomId = () => {
+  const id = new URLSearchParams(window.location.search).get(ROOM_PARAM);
+  return id && ROOM_ID_PATTERN.test(id) ? id : null;
+};
+
+// Reopen the roadmap that was in the editor before the page was refreshed. Without storage the app starts empty.
+const restoredDocument = (() => {
+  if (openedFromLink) return null;
+  try {
+    const id = roadmapStore.getCurrentDocumentId();
+    return id ? roadmapStore.getDocument(id) : null;
+  } catch (e) {
+    console.error('[Roadmap Store] Could not restore the last roadmap:', e);
+    return null;
+  }
+})();
 
 function App() {
-  const [roadmapData, setRoadmapData] = useState<RoadmapData | null>(null);
-  const [sourceText, setSourceText] = useState<string>('');
+  const [roadmapData, setRoadmapData] = useState<RoadmapData | null>(restoredDocument?.localData ?? null);
+  const [sourceText, setSourceText] = useState<string>(restoredDocument?.sourceText ?? '');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorIssues, setErrorIssues] = useState<ValidationIssue[]>([]);
+  const [documents, setDocuments] = useState<RoadmapDocument[]>(() => roadmapStore.listDocuments());
+  const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(restoredDocument?.id ?? null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [partialData, setPartialData] = useState<RoadmapData | null>(null);
+  const [viewMode, setViewMode] = useState<EditorViewMode>('pillar');
+  const [filter, setFilter] = useState<RoadmapFilter>(EMPTY_FILTER);
+  const [isOpeningLink, setIsOpeningLink] = useState(openedFromLink);
+  const [theme, setTheme] = useState<ThemeId>(loadTheme);
+  const [liveRoomId, setLiveRoomId] = useState<string | null>(readLiveRoomId);
+  const autosaveTimer = useRef<number | null>(null);
+  const urlTimer = useRef<number | null>(null);
+  const urlWrites = useRef<Promise<void>>(Promise.resolve());
+  const generation = useRef<AbortController | null>(null);
+  // The roadmap as last edited, for the URL.
+  const editorData = useRef<RoadmapData | null>(roadmapData);
+  // Set while the editor follows the URL (Back/Forward, opening a link), so no new history entry is added.
+  const isFollowingUrl = useRef(false);
+  const hasMounted = useRef(false);
+
+  const refreshDocuments = () => setDocuments(roadmapStore.listDocuments());
+
+  // Before the first paint, so the page never shows in the wrong colors.
+  useLayoutEffect(() => applyTheme(theme), [theme]);
+
+  const handleThemeChange = (nextTheme: ThemeId) => {
+    setTheme(nextTheme);
+    saveTheme(nextTheme);
+  };
+
+  const cancelAutosave = () => {
+    if (autosaveTimer.current) window.clearTimeout(autosaveTimer.current);
+    autosaveTimer.current = null;
+  };
+
+  const saveLocalData = (id: string, currentData: RoadmapData) => {
+    try {
+      roadmapStore.updateDocument(id, { localData: currentData });
+      refreshDocuments();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  // --- URL State ---
+  // The open roadmap, view and filter live in the URL hash, so the address can be shared and
+  // Back/Forward move between the start screen and the editor. The document ID is kept in the
+  // history entry rather than in the URL, since it only means something in this browser.
+
+  // Writes are queued, so that a slow encode cannot land on a history entry added after it.
+  const writeUrl = (data: RoadmapData | null, view: EditorViewMode, viewFilter: RoadmapFilter, documentId: string | null, mode: 'push' | 'replace') => {
+    urlWrites.current = urlWrites.current.then(async () => {
+      let url = window.location.pathname + window.location.search;
+      if (data) {
+        try {
+          url += `#${await encodeSharedState({ data, view, filter: viewFilter })}`;
+        } catch (e) {
+          console.error(e);
+          return;
+        }
+      }
+      if (mode === 'push') window.history.pushState({ documentId }, '', url);
+      else window.history.replaceState({ documentId }, '', url);
+    });
+  };
+
+  const cancelUrlUpdate = () => {
+    if (urlTimer.current) window.clearTimeout(urlTimer.current);
+    urlTimer.current = null;
+  };
+
+  const showUrlState = async (hash: string, documentId: string | null) => {
+    try {
+      const state = await decodeSharedState(hash);
+      cancelAutosave();
+      generation.current?.abort();
+      setError(null);
+      setErrorIssues([]);
+      // Only flag the change if there is one, otherwise the flag would swallow the next navigation.
+      if ((state?.data ?? null) !== editorData.current) isFollowingUrl.current = true;
+      if (state) {
+        const document = documentId ? roadmapStore.getDocument(documentId) : null;
+        setCurrentDocumentId(document?.id ?? null);
+        setSourceText(document?.sourceText ?? serializeRoadmapToMarkdown(state.data));
+        setViewMode(state.view);
+        setFilter(state.filter);
+      }
+      setRoadmapData(state?.data ?? null);
+    } catch (e: any) {
+      setError(e.message);
+      if (e instanceof RoadmapValidationError) setErrorIssues(e.issues.filter(issue => !issue.repaired));
+    } finally {
+      setIsOpeningLink(false);
+    }
+  };
+
+  useEffect(() => {
+    if (openedFromLink) showUrlState(window.location.hash, window.history.state?.documentId ?? null);
+    const handlePopState = (e: PopStateEvent) => showUrlState(window.location.hash, e.state?.documentId ?? null);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    editorData.current = roadmapData;
+    cancelUrlUpdate();
+    if (!hasMounted.current) {
+      hasMounted.current = true;
+      if (roadmapData) writeUrl(roadmapData, viewMode, filter, currentDocumentId, 'replace');
+      return;
+    }
+    if (isFollowingUrl.current) {
+      isFollowingUrl.current = false;
+      return;
+    }
+    // Opening or leaving the editor is a new history entry.
+    writeUrl(roadmapData, viewMode, filter, currentDocumentId, 'push');
+  }, [roadmapData]);
+
+  const scheduleUrlUpdate = (documentId: string | null, viewFilter = filter) => {
+    cancelUrlUpdate();
+    urlTimer.current = window.setTimeout(() => writeUrl(editorData.current, viewMode, viewFilter, documentId, 'replace'), AUTOSAVE_DELAY_MS);
+  };
+
+  const handleViewModeChange = (view: EditorViewMode) => {
+    setViewMode(view);
+    writeUrl(editorData.current, view, filter, currentDocumentId, 'replace');
+  };
+
+  // Debounced like edits, since the search changes with every keystroke.
+  const handleFilterChange = (nextFilter: RoadmapFilter) => {
+    setFilter(nextFilter);
+    scheduleUrlUpdate(currentDocumentId, nextFilter);
+  };
+
+  // --- Live Collaboration ---
+  // A saved roadmap is always shared with the other tabs that have it open. A live session also
+  // shares it through the sync server, with everyone who has the invite link.
+
+  const collabRoom = useMemo<CollabRoom | null>(() => {
+    if (liveRoomId) return { id: liveRoomId, live: true };
+    return currentDocumentId ? { id: `doc-${currentDocumentId}`, live: false } : null;
+  }, [liveRoomId, currentDocumentId]);
+
+  // The room stays in the query, so the hash can keep following the roadmap.
+  const setLiveRoom = (roomId: string | null) => {
+    urlWrites.current = urlWrites.current.then(() => {
+      const url = new URL(window.location.href);
+      if (roomId) url.searchParams.set(ROOM_PARAM, roomId);
+      else url.searchParams.delete(ROOM_PARAM);
+      window.history.replaceState(window.history.state, '', url);
+    });
+    setLiveRoomId(roomId);
+  };
+
+  useEffect(() => {
+    // Leaving the editor leaves the session.
+    if (!roadmapData && !isOpeningLink && liveRoomId) setLiveRoom(null);
+  }, [roadmapData, isOpeningLink]);
+
+  useEffect(() => {
+    // Remember the open roadmap only while the editor is showing it.
+    roadmapStore.setCurrentDocumentId(roadmapData ? currentDocumentId : null);
+  }, [roadmapData, currentDocumentId]);
 
   const handleGenerateRoadmap = async (text: string) => {
     if (!text.trim()) {
       setError('Please paste some roadmap text.');
       return;
     }
+    cancelAutosave();
     setIsLoading(true);
     setError(null);
+    setErrorIssues([]);
     setRoadmapData(null);
+    setPartialData(null);
     setSourceText(text); // Save source text for editing
+    const controller = new AbortController();
+    generation.current = controller;
 
     try {
-      const data = await parseRoadmapText(text);
+      const parsed = await parseRoadmapText(text, { signal: controller.signal, onPartialData: setPartialData });
+      // Regenerating from the open document replaces its content; otherwise a new one is saved.
+      // The replaced version is kept as a snapshot, so the editor can show what changed.
+      const previous = currentDocumentId ? roadmapStore.getDocument(currentDocumentId) : null;
+      // The source has no comments, so they are carried over to the items that still exist.
+      const data = previous ? carryOverThreads(previous.localData, parsed) : parsed;
+      try {
+        if (previous && JSON.stringify(previous.localData) !== JSON.stringify(data)) {
+          roadmapStore.addSnapshot(previous.id, 'Before regenerating', previous.localData);
+        }
+        const saved = (currentDocumentId && roadmapStore.updateDocument(currentDocumentId, { sourceText: text, data, localData: data }))
+          || roadmapStore.createDocument(text, data);
+        setCurrentDocumentId(saved.id);
+        refreshDocuments();
+      } catch (e) {
+        console.error(e);
+      }
+      // Filters name pillars and timeframes of the previous roadmap.
+      setFilter(EMPTY_FILTER);
       setRoadmapData(data);
     } catch (e: any) {
+      // Cancelled by the user: back to the start screen with the text intact.
+      if (controller.signal.aborted) {
+        console.log('Roadmap generation was cancelled.');
+        return;
+      }
       const message = e.message || 'An unknown error occurred.';
       setError(`Failed to generate roadmap. The AI model may have returned an invalid data structure. Please check the input format or try again. Details: ${message}`);
+      if (e instanceof RoadmapValidationError) setErrorIssues(e.issues.filter(issue => !issue.repaired));
       console.error(e);
     } finally {
+      generation.current = null;
+      setPartialData(null);
       setIsLoading(false);
     }
   };
 
-  const handleEditData = () => {
+  const handleCancelGeneration = () => {
+    generation.current?.abort();
+  };
+
+  const handleImportRoadmap = (data: RoadmapData, fileName: string) => {
+    cancelAutosave();
+    // Imported roadmaps get a Markdown source, so "Edit Source" works like for pasted text.
+    const text = serializeRoadmapToMarkdown(data);
+    try {
+      const saved = roadmapStore.createDocument(text, data, data.title || fileName);
+      setCurrentDocumentId(saved.id);
+      refreshDocuments();
+    } catch (e) {
+      console.error(e);
+    }
+    setSourceText(text);
+    setError(null);
+    setErrorIssues([]);
+    setFilter(EMPTY_FILTER);
+    setRoadmapData(data);
+  };
+
+  const handleDataChange = (currentData: RoadmapData) => {
+    editorData.current = currentData;
+    if (!currentDocumentId) {
+      // A roadmap opened from a link is saved to the library once it is edited.
+      try {
+        const saved = roadmapStore.createDocument(serializeRoadmapToMarkdown(currentData), currentData);
+        setCurrentDocumentId(saved.id);
+        refreshDocuments();
+        scheduleUrlUpdate(saved.id);
+      } catch (e) {
+        console.error(e);
+        scheduleUrlUpdate(null);
+      }
+      return;
+    }
+    scheduleUrlUpdate(currentDocumentId);
+    cancelAutosave();
+    autosaveTimer.current = window.setTimeout(() => saveLocalData(currentDocumentId, currentData), AUTOSAVE_DELAY_MS);
+  };
+
+  const handleCreateSnapshot = (name: string, currentData: RoadmapData) => {
+    if (!currentDocumentId) return;
+    try {
+      roadmapStore.addSnapshot(currentDocumentId, name, currentData);
+      refreshDocuments();
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleDeleteSnapshot = (snapshotId: string) => {
+    if (!currentDocumentId) return;
+    roadmapStore.deleteSnapshot(currentDocumentId, snapshotId);
+    refreshDocuments();
+  };
+
+  const handleEditData = (currentData: RoadmapData) => {
+    cancelAutosave();
+    if (currentDocumentId) saveLocalData(currentDocumentId, currentData);
+    // Back returns to the editor with the latest edits.
+    writeUrl(currentData, viewMode, filter, currentDocumentId, 'replace');
+    // Regenerate the source from the edited state so inline edits are not lost.
+    setSourceText(serializeRoadmapToMarkdown(currentData));
     setRoadmapData(null);
     setError(null);
     setIsLoading(false);
   };
-  
+
   const handleTryAgain = () => {
     setError(null);
     setIsLoading(false);
@@ -51,22 +352,65 @@ function App() {
     // sourceText is preserved so the user is back at the start screen with their text
   }
 
+  const handleOpenDocument = (id: string) => {
+    const document = roadmapStore.getDocument(id);
+    if (!document) return;
+    cancelAutosave();
+    setCurrentDocumentId(document.id);
+    setSourceText(document.sourceText);
+    setError(null);
+    setFilter(EMPTY_FILTER);
+    setRoadmapData(document.localData);
+  };
+
+  const handleRenameDocument = (id: string, name: string) => {
+    roadmapStore.renameDocument(id, name);
+    refreshDocuments();
+  };
+
+  const handleDuplicateDocument = (id: string) => {
+    roadmapStore.duplicateDocument(id);
+    refreshDocuments();
+  };
+
+  const handleDeleteDocument = (id: string) => {
+    roadmapStore.deleteDocument(id);
+    if (id === currentDocumentId) setCurrentDocumentId(null);
+    refreshDocuments();
+  };
+
+  const handleNewDocument = () => {
+    setCurrentDocumentId(null);
+    setSourceText('');
+  };
+
 
   const renderContent = () => {
-    if (isLoading) {
+    if (isOpeningLink) {
       return (
-        <div className="flex-1 flex flex-col items-center justify-center text-center p-4">
+        <div className="flex-1 flex items-center justify-center">
           <Spinner />
-          <p className="mt-4 text-lg text-gray-400">AI is architecting your roadmap...</p>
-          <p className="text-sm text-gray-500">This may take a moment.</p>
         </div>
       );
     }
+    if (isLoading) {
+      return <GenerationPreview data={partialData} onCancel={handleCancelGeneration} />;
+    }
     if (error) {
       return (
         <div className="flex-1 flex flex-col items-center justify-center text-red-400 p-8 text-center">
           <p className="text-xl font-semibold mb-2">Oops! Something went wrong.</p>
           <p className="max-w-2xl text-red-300/80 mb-6">{error}</p>
+          {errorIssues.length > 0 && (
+            <ul className="max-w-2xl w-full text-left text-sm bg-gray-800/60 border border-red-900/50 rounded-lg p-4 mb-6 space-y-1 max-h-64 overflow-auto">
+              {errorIssues.map((issue, index) => (
+                <li key={index}>
+                  <code className="text-red-300">{issue.path || '(root)'}</code>
+                  <span className="text-gray-300">: {issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
           <button onClick={handleTryAgain} className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
             Try Again
           </button>
@@ -74,17 +418,47 @@ function App() {
       );
     }
     if (roadmapData) {
-      return <EditorCanvas data={roadmapData} onReset={handleEditData} />;
+      return (
+        <EditorCanvas
+          data={roadmapData}
+          onReset={handleEditData}
+          onChange={handleDataChange}
+          viewMode={viewMode}
+          onViewModeChange={handleViewModeChange}
+          filter={filter}
+          onFilterChange={handleFilterChange}
+          snapshots={documents.find(doc => doc.id === currentDocumentId)?.snapshots ?? []}
+          onCreateSnapshot={currentDocumentId ? handleCreateSnapshot : undefined}
+          onDeleteSnapshot={handleDeleteSnapshot}
+          collabRoom={collabRoom}
+          onStartLiveSession={() => setLiveRoom(createRoomId())}
+          onLeaveLiveSession={() => setLiveRoom(null)}
+        />
+      );
     }
-    return <StartScreen onGenerate={handleGenerateRoadmap} initialText={sourceText} />;
+    return (
+      // Keyed by document so that opening another roadmap or starting a new one resets the text.
+      <StartScreen key={currentDocumentId ?? 'new'} onGenerate={handleGenerateRoadmap} onImport={handleImportRoadmap} initialText={sourceText}>
+        <DocumentLibrary
+          documents={documents}
+          currentDocumentId={currentDocumentId}
+          onOpen={handleOpenDocument}
+          onRename={handleRenameDocument}
+          onDuplicate={handleDuplicateDocument}
+          onDelete={handleDeleteDocument}
+          onNew={handleNewDocument}
+        />
+      </StartScreen>
+    );
   };
 
   return (
     <div className="bg-gray-900 min-h-screen text-gray-200 flex flex-col antialiased">
-      <Header />
+      <Header onOpenSettings={() => setIsSettingsOpen(true)} theme={theme} onThemeChange={handleThemeChange} />
       <main className="flex-1 flex flex-col" style={{ ['--header-height' as any]: '64px', height: 'calc(100vh - var(--header-height))' }}>
         {renderContent()}
       </main>
+      {isSettingsOpen && <SettingsModal onClose={() => setIsSettingsOpen(false)} />}
     </div>
   );
 }
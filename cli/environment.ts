@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { existsSync } from 'node:fs';
+import { Console } from 'node:console';
+import { Writable } from 'node:stream';
+import process from 'node:process';
+
+// --- CLI Environment ---
+// Imported before anything else, because the services read the environment and log their
+// configuration as soon as they are loaded.
+
+// Like the app server: variables that are already set win, so .env.local overrides .env.
+['.env.local', '.env'].filter(file => existsSync(file)).forEach(file => {
+    process.loadEnvFile(file);
+});
+
+// stdout carries only the output, so it can be piped. The progress messages of the services are
+// dropped unless --verbose is given; warnings and errors always go to stderr.
+const discard = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+globalThis.console = new Console({
+    stdout: process.argv.includes('--verbose') ? process.stderr : discard,
+    stderr: process.stderr,
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import './environment';
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { parseRoadmapText } from '../services/geminiService';
+import type { RoadmapData } from '../services/geminiService';
+import { parseRoadmapMarkdown } from '../services/roadmapMarkdown';
+import { formatValidationIssues, RoadmapValidationError, validateRoadmap } from '../services/roadmapValidator';
+import { renderRoadmapSvg } from '../services/svgRenderer';
+import { renderStandaloneHtml } from '../services/htmlExport';
+import type { AiProvider } from '../services/providers/types';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { gatewayProvider } from '../services/providers/gatewayProvider';
+import { ollamaProvider } from '../services/providers/ollamaProvider';
+import { mockProvider } from '../services/providers/mockProvider';
+import { env } from '../services/providers/env';
+import { parseCliOptions, USAGE, UsageError } from './options';
+import type { CliOptions } from './options';
+
+// --- Roadmap CLI ---
+// Converts roadmap files with the parser, validator and renderers of the app, e.g. in a docs
+// build or in CI. Structured Markdown is parsed locally; free-form text goes to the AI provider.
+
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+// Like the app server, the CLI reads the credentials from its own environment, so the
+// providers are called directly instead of through the proxy.
+const PROVIDERS: Record<string, AiProvider> = Object.fromEntries(
+    [geminiProvider, gatewayProvider, ollamaProvider, mockProvider].map(provider => [provider.id, provider]),
+);
+
+const report = (message: string) => {
+    process.stderr.write(`${message}\n`);
+};
+
+// JSON files hold RoadmapData, e.g. written by this tool; everything else is roadmap text.
+const isJsonInput = (options: CliOptions) => path.extname(options.input).toLowerCase() === '.json';
+
+const parseInput = async (text: string, options: CliOptions): Promise<unknown> => {
+    if (isJsonInput(options)) return JSON.parse(text);
+    const provider = PROVIDERS[options.providerId];
+    const settings = { ...provider.defaultSettings, ...(options.model && { model: options.model }) };
+    return parseRoadmapText(text, { ai: { provider, settings } });
+};
+
+const render = (data: RoadmapData, options: CliOptions): string => {
+    switch (options.format) {
+        case 'svg': return renderRoadmapSvg(data, options.view).svg;
+        case 'html': return renderStandaloneHtml(data);
+        default: return `${JSON.stringify(data, null, 2)}\n`;
+    }
+};
+
+const run = async (): Promise<number> => {
+    let options: CliOptions | null;
+    try {
+        options = parseCliOptions(process.argv.slice(2), Object.keys(PROVIDERS), PROVIDERS[env.provider] ? env.provider : geminiProvider.id);
+    } catch (e) {
+        if (!(e instanceof UsageError)) throw e;
+        report(`${e.message} Run with --help for usage.`);
+        return EXIT_USAGE;
+    }
+    if (!options) {
+        process.stdout.write(USAGE);
+        return 0;
+    }
+
+    const name = options.input === '-' ? 'stdin' : options.input;
+    let text: string;
+    try {
+        text = readFileSync(options.input === '-' ? 0 : options.input, 'utf8');
+    } catch (e) {
+        report(`Could not read ${name}: ${(e as Error).message}`);
+        return EXIT_USAGE;
+    }
+
+    // The local parser skips what it does not understand, which is usually a typo.
+    if (options.strict && !isJsonInput(options)) {
+        const { unrecognizedLines, unresolvedDependencies } = parseRoadmapMarkdown(text);
+        const problems = [
+            ...unrecognizedLines.map(line => `- Line outside the structured format: ${line}`),
+            ...unresolvedDependencies.map(({ task, reference }) => `- "${task}" depends on unknown deliverable "${reference}".`),
+        ];
+        if (problems.length > 0) {
+            report(`${name} failed validation:\n${problems.join('\n')}`);
+            return EXIT_INVALID;
+        }
+    }
+
+    let raw: unknown;
+    try {
+        raw = await parseInput(text, options);
+    } catch (e) {
+        report(e instanceof RoadmapValidationError
+            ? `${e.message}\n${formatValidationIssues(e.issues)}`
+            : `Could not parse ${name}: ${(e as Error).message}`);
+        return EXIT_INVALID;
+    }
+
+    // The local parser and JSON files are not validated on the way in, so everything is checked here.
+    const { data, issues } = validateRoadmap(raw);
+    if (!data) {
+        report(`${name} failed validation:\n${formatValidationIssues(issues)}`);
+        return EXIT_INVALID;
+    }
+    if (issues.length > 0) {
+        report(`${options.strict ? `${name} failed validation` : `Repaired ${issues.length} problem(s) in ${name}`}:\n${formatValidationIssues(issues)}`);
+        if (options.strict) return EXIT_INVALID;
+    }
+
+    const output = render(data, options);
+    if (!options.output) {
+        process.stdout.write(output);
+        return 0;
+    }
+    try {
+        writeFileSync(options.output, output);
+    } catch (e) {
+        report(`Could not write ${options.output}: ${(e as Error).message}`);
+        return EXIT_USAGE;
+    }
+    return 0;
+};
+
+// The exit code is set rather than exiting right away, so piped output is written completely.
+run().then(
+    code => { process.exitCode = code; },
+    e => {
+        report(`Unexpected error: ${(e as Error).stack ?? e}`);
+        process.exitCode = EXIT_INVALID;
+    },
+);
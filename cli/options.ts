@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseArgs } from 'node:util';
+import path from 'node:path';
+import type { RoadmapViewMode } from '../services/svgRenderer';
+
+// --- CLI Options ---
+
+export type OutputFormat = 'json' | 'svg' | 'html';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'svg', 'html'];
+const VIEW_MODES: RoadmapViewMode[] = ['pillar', 'timeline'];
+
+export interface CliOptions {
+    // A file path, or '-' for stdin.
+    input: string;
+    // The output goes to stdout when there is no file.
+    output?: string;
+    format: OutputFormat;
+    // Only used for SVG; the HTML page has both views.
+    view: RoadmapViewMode;
+    providerId: string;
+    // Overrides the provider's default model.
+    model?: string;
+    // Also fails on unrecognized lines and on problems that were repaired.
+    strict: boolean;
+}
+
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+export const USAGE = `Usage: node dist-cli/index.js <file> [options]
+
+Converts a roadmap in Markdown, or RoadmapData as JSON, into validated JSON, a static SVG
+or a standalone HTML page. Use - as the file to read from stdin.
+
+Options:
+  -f, --format <format>    json, svg or html (default: from the extension of --out, else json)
+  -o, --out <file>         Write to a file instead of stdout
+      --view <view>        pillar or timeline, for SVG (default: pillar)
+  -p, --provider <id>      AI provider for free-form text: gemini, gateway, ollama or mock
+                           (default: VITE_AI_PROVIDER, else gemini). mock works offline.
+  -m, --model <name>       Model to use instead of the provider's default
+      --strict             Also fail on unrecognized lines and on repaired problems
+      --verbose            Log progress to stderr
+  -h, --help               Show this help
+
+Exit codes: 0 on success, 1 when the roadmap cannot be parsed or fails validation,
+2 on invalid arguments or an unreadable file.
+`;
+
+const oneOf = <T extends string>(value: string, allowed: readonly T[], name: string): T => {
+    if (!(allowed as readonly string[]).includes(value)) throw new UsageError(`Unknown ${name} "${value}". Use ${allowed.join(', ')}.`);
+    return value as T;
+};
+
+const formatFromFileName = (fileName: string): OutputFormat | undefined => {
+    const extension = path.extname(fileName).slice(1).toLowerCase();
+    if (extension === 'htm') return 'html';
+    return OUTPUT_FORMATS.find(format => format === extension);
+};
+
+/** The options, or null when help was asked for. */
+export const parseCliOptions = (args: string[], providerIds: string[], defaultProviderId: string): CliOptions | null => {
+    let parsed: ReturnType<typeof parseCliArgs>;
+    try {
+        parsed = parseCliArgs(args);
+    } catch (e) {
+        // Unknown options, missing values and the like.
+        throw new UsageError((e as Error).message);
+    }
+    const { values, positionals } = parsed;
+    if (values.help) return null;
+    if (positionals.length !== 1) throw new UsageError(positionals.length === 0 ? 'No roadmap file given.' : 'Only one roadmap file can be converted at a time.');
+
+    return {
+        input: positionals[0],
+        output: values.out,
+        format: values.format ? oneOf(values.format.toLowerCase(), OUTPUT_FORMATS, 'format') : (values.out && formatFromFileName(values.out)) || 'json',
+        view: oneOf(values.view?.toLowerCase() ?? 'pillar', VIEW_MODES, 'view'),
+        providerId: values.provider
+            ? oneOf(values.provider.toLowerCase(), providerIds.map(id => id.toLowerCase()), 'provider').toUpperCase()
+            : defaultProviderId,
+        model: values.model,
+        strict: values.strict ?? false,
+    };
+};
+
+const parseCliArgs = (args: string[]) => parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+        format: { type: 'string', short: 'f' },
+        out: { type: 'string', short: 'o' },
+        view: { type: 'string' },
+        provider: { type: 'string', short: 'p' },
+        model: { type: 'string', short: 'm' },
+        strict: { type: 'boolean' },
+        verbose: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+    },
+});
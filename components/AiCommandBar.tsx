@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useEffect } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import { generateRoadmapPatch } from '../services/geminiService';
+import type { PatchOperation, RoadmapPatch } from '../services/roadmapPatch';
+import PatchPreview from './PatchPreview';
+import { SparkleIcon, XIcon } from './icons';
+
+interface AiCommandBarProps {
+  data: RoadmapData;
+  // Applies the accepted operations of a command.
+  onApply: (operations: PatchOperation[], command: string) => void;
+}
+
+// A natural-language command box, e.g. "move all GenAI items to 2026 H1". The model's answer is
+// shown as a list of proposed edits; nothing changes until they are applied.
+const AiCommandBar: React.FC<AiCommandBarProps> = ({ data, onApply }) => {
+  const [command, setCommand] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [proposal, setProposal] = useState<{ command: string; patch: RoadmapPatch } | null>(null);
+  const request = useRef<AbortController | null>(null);
+
+  useEffect(() => () => request.current?.abort(), []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = command.trim();
+    if (!trimmed || isRunning) return;
+    const controller = new AbortController();
+    request.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setProposal(null);
+    try {
+      const patch = await generateRoadmapPatch(data, trimmed, { signal: controller.signal });
+      setProposal({ command: trimmed, patch });
+    } catch (e: any) {
+      if (controller.signal.aborted) {
+        console.log('The edit command was cancelled.');
+        return;
+      }
+      console.error(e);
+      setError(e.message || 'The edit command failed.');
+    } finally {
+      request.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="relative px-3 py-2 border-b border-gray-700 bg-gray-800/30 flex-shrink-0 text-sm print:hidden">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <div className="relative flex-1 max-w-2xl">
+          <SparkleIcon className={`absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 pointer-events-none ${isRunning ? 'text-blue-400 animate-pulse' : 'text-gray-500'}`} />
+          <input
+            type="text"
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            disabled={isRunning}
+            placeholder='Ask AI to edit, e.g. "move all GenAI items to 2026 H1"'
+            className="w-full bg-gray-900 border border-gray-700 rounded-md pl-8 pr-2 py-1 text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+            aria-label="AI edit command"
+          />
+        </div>
+        {isRunning ? (
+          <button type="button" onClick={() => request.current?.abort()} className="flex items-center gap-1 px-2.5 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md">
+            <XIcon className="w-4 h-4" />
+            Cancel
+          </button>
+        ) : (
+          <button type="submit" disabled={!command.trim()} className="px-2.5 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-40 disabled:cursor-not-allowed">
+            Propose edits
+          </button>
+        )}
+        {error && <span className="text-red-400 truncate" title={error}>{error}</span>}
+      </form>
+      {proposal && (
+        <PatchPreview
+          key={proposal.command}
+          data={data}
+          command={proposal.command}
+          patch={proposal.patch}
+          onApply={(operations) => {
+            onApply(operations, proposal.command);
+            setProposal(null);
+            setCommand('');
+          }}
+          onDiscard={() => setProposal(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AiCommandBar;
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { CellRef, CollabProfile, CollabStatus, Collaborator } from '../services/collab/collabSession';
+import CollaboratorAvatars from './CollaboratorAvatars';
+import { CheckIcon, LinkIcon, UsersIcon } from './icons';
+
+interface CollabMenuProps {
+  status: CollabStatus | null;
+  collaborators: Collaborator[];
+  profile: CollabProfile;
+  onProfileChange: (profile: CollabProfile) => void;
+  // E.g. "Product · Q1", for what someone is editing.
+  describeCell: (cell: CellRef) => string;
+  isLive: boolean;
+  onStartLive?: () => void;
+  onLeaveLive?: () => void;
+  onCopyInvite: () => Promise<void>;
+}
+
+const STATUS_TEXT: Record<CollabStatus, string> = {
+  local: 'Other tabs with this roadmap stay in sync. Start a live session to edit it together with others.',
+  connecting: 'Connecting to the sync server...',
+  live: 'Live: everyone with the invite link edits this roadmap together.',
+  offline: 'The sync server cannot be reached. Edits are kept and sent when it is back.',
+};
+
+const STATUS_DOT: Record<CollabStatus, string> = {
+  local: 'bg-gray-500',
+  connecting: 'bg-amber-400 animate-pulse',
+  live: 'bg-green-400',
+  offline: 'bg-red-400',
+};
+
+// The people editing the roadmap right now, and the controls of the live session.
+const CollabMenu: React.FC<CollabMenuProps> = ({ status, collaborators, profile, onProfileChange, describeCell, isLive, onStartLive, onLeaveLive, onCopyInvite }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState(profile.name);
+  const [isInviteCopied, setIsInviteCopied] = useState(false);
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== profile.name) onProfileChange({ ...profile, name: trimmed });
+    else setName(profile.name);
+  };
+
+  const handleCopyInvite = async () => {
+    try {
+      await onCopyInvite();
+      setIsInviteCopied(true);
+      setTimeout(() => setIsInviteCopied(false), 2000);
+    } catch (err: any) {
+      alert(`Could not copy the invite link: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-2 px-2 py-1 text-sm hover:bg-gray-700 rounded-md ${isOpen ? 'bg-gray-700' : ''}`}
+        aria-label="Collaboration"
+        aria-expanded={isOpen}
+        title={collaborators.length > 0 ? `Also editing: ${collaborators.map(c => c.name).join(', ')}` : 'Edit together'}
+      >
+        {status && <span className={`w-2 h-2 rounded-full ${STATUS_DOT[status]}`} />}
+        {collaborators.length > 0 ? <CollaboratorAvatars people={collaborators} /> : <UsersIcon className="w-5 h-5" />}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200">Collaboration</h3>
+            <button onClick={() => setIsOpen(false)} className="text-xs text-gray-400 hover:text-gray-200">Close</button>
+          </div>
+          <div className="flex items-center gap-2 p-3 border-b border-gray-700">
+            <CollaboratorAvatars people={[{ ...profile, name }]} />
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={saveName}
+              onKeyDown={(e) => e.key === 'Enter' && saveName()}
+              maxLength={60}
+              className="flex-1 min-w-0 bg-gray-900/70 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              aria-label="Your name, as others see it"
+            />
+          </div>
+          {status && <p className="px-3 py-2 text-xs text-gray-400 border-b border-gray-700">{STATUS_TEXT[status]}</p>}
+          {collaborators.length === 0 ? (
+            <p className="px-3 py-3 text-sm text-gray-500">Nobody else has this roadmap open.</p>
+          ) : (
+            <ul className="max-h-60 overflow-auto py-1">
+              {collaborators.map(collaborator => (
+                <li key={collaborator.clientId} className="flex items-center gap-2 px-3 py-1.5">
+                  <CollaboratorAvatars people={[collaborator]} size="sm" />
+                  <span className="flex-1 min-w-0 text-sm text-gray-300 truncate">{collaborator.name}</span>
+                  {collaborator.cell && <span className="text-xs text-gray-500 truncate">{describeCell(collaborator.cell)}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center gap-2 p-3 border-t border-gray-700">
+            {isLive ? (
+              <>
+                <button onClick={handleCopyInvite} className="flex-1 flex items-center justify-center gap-2 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md">
+                  {isInviteCopied ? <CheckIcon className="w-4 h-4" /> : <LinkIcon className="w-4 h-4" />}
+                  {isInviteCopied ? 'Copied!' : 'Copy invite link'}
+                </button>
+                {onLeaveLive && <button onClick={onLeaveLive} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md">Leave</button>}
+              </>
+            ) : onStartLive && (
+              <button onClick={onStartLive} className="flex-1 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md">Start live session</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollabMenu;
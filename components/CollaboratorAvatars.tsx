@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { CollabProfile } from '../services/collab/collabSession';
+
+interface CollaboratorAvatarsProps {
+  people: CollabProfile[];
+  // How many avatars to draw before summarizing the rest as "+n".
+  max?: number;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const initials = (name: string) => name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+// Overlapping initials in each person's color.
+const CollaboratorAvatars: React.FC<CollaboratorAvatarsProps> = ({ people, max = 4, size = 'md', className = '' }) => {
+  if (people.length === 0) return null;
+  const shown = people.slice(0, max);
+  const sizeClass = size === 'sm' ? 'w-5 h-5 text-[0.6rem]' : 'w-7 h-7 text-xs';
+
+  return (
+    <span className={`inline-flex items-center -space-x-1.5 ${className}`} title={people.map(person => person.name).join(', ')}>
+      {shown.map((person, index) => (
+        <span
+          key={index}
+          className={`${sizeClass} inline-flex items-center justify-center rounded-full font-semibold text-gray-900 ring-2 ring-gray-800`}
+          style={{ backgroundColor: person.color }}
+        >
+          {initials(person.name)}
+        </span>
+      ))}
+      {people.length > max && (
+        <span className={`${sizeClass} inline-flex items-center justify-center rounded-full bg-gray-600 text-gray-200 ring-2 ring-gray-800`}>
+          +{people.length - max}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default CollaboratorAvatars;
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { countOpenComments } from '../services/roadmapComments';
+import CommentThreads from './CommentThreads';
+import type { CommentThreadsProps } from './CommentThreads';
+import { CommentIcon } from './icons';
+
+interface CommentNoteProps extends CommentThreadsProps {
+  // What the comments are about, e.g. 'pillar "Platform"'.
+  label: string;
+  className?: string;
+}
+
+// The comments on a heading: a bubble with the number of open comments that opens the threads.
+// Without comments the bubble only shows on hover, to start one.
+const CommentNote: React.FC<CommentNoteProps> = ({ label, className = '', ...threadProps }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { threads } = threadProps;
+  const openCount = countOpenComments(threads);
+
+  return (
+    <span className={`relative inline-flex font-normal text-left ${className}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-xs ${
+          openCount > 0
+            ? 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/30'
+            : `text-gray-500 hover:text-gray-300 hover:bg-gray-700 ${threads.length === 0 && !isOpen ? 'opacity-0 group-hover/comments:opacity-100 focus:opacity-100' : ''}`
+        }`}
+        aria-label={threads.length > 0 ? `${openCount} open comment(s) on ${label}` : `Comment on ${label}`}
+        aria-expanded={isOpen}
+        title={threads.length > 0 ? `${openCount} open, ${threads.filter(t => t.resolved).length} resolved thread(s)` : 'Add a comment'}
+      >
+        <CommentIcon className="w-3.5 h-3.5" />
+        {openCount > 0 && openCount}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 max-h-[28rem] overflow-auto bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 truncate">Comments on {label}</h3>
+            <button onClick={() => setIsOpen(false)} className="text-xs text-gray-400 hover:text-gray-200">Close</button>
+          </div>
+          <div className="p-3">
+            <CommentThreads {...threadProps} autoFocus={threads.length === 0} />
+          </div>
+        </div>
+      )}
+    </span>
+  );
+};
+
+export default CommentNote;
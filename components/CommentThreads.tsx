@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { CommentThread } from '../services/geminiService';
+import { CheckIcon, XIcon } from './icons';
+
+export interface CommentThreadsProps {
+  threads: CommentThread[];
+  // The name new comments are written under.
+  author: string;
+  // Names offered when typing "@".
+  people: string[];
+  onAdd: (text: string) => void;
+  onReply: (threadId: string, text: string) => void;
+  onSetResolved: (threadId: string, resolved: boolean) => void;
+  onDelete: (threadId: string, commentId: string) => void;
+  // Focuses the box for a new thread.
+  autoFocus?: boolean;
+}
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Highlights the @mentions of a comment.
+const CommentText: React.FC<{ text: string; mentions: string[] }> = ({ text, mentions }) => {
+  if (mentions.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(@(?:${[...mentions].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')}))`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) => (index % 2 === 1 ? <span key={index} className="text-blue-300 font-medium">{part}</span> : part))}
+    </>
+  );
+};
+
+const MENTION_QUERY_RE = /(?:^|\s)@([^@\n]{0,30})$/;
+
+// A text box that suggests names while an @mention is typed.
+const CommentInput: React.FC<{ placeholder: string; people: string[]; onSubmit: (text: string) => void; autoFocus?: boolean }> = ({ placeholder, people, onSubmit, autoFocus }) => {
+  const [text, setText] = useState('');
+  const query = text.match(MENTION_QUERY_RE)?.[1].toLowerCase();
+  const suggestions = query === undefined ? [] : people.filter(name => name.toLowerCase().startsWith(query) && name.toLowerCase() !== query).slice(0, 5);
+
+  const submit = () => {
+    if (text.trim()) onSubmit(text.trim());
+    setText('');
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        autoFocus={autoFocus}
+        value={text}
+        rows={2}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter sends, Shift+Enter starts a new line.
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        className="w-full bg-gray-900/70 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 resize-none focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 bg-gray-900 border border-gray-700 rounded-md shadow-xl z-10 py-1">
+          {suggestions.map(name => (
+            <li key={name}>
+              <button
+                // Keeps the focus in the text box.
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => setText(text.replace(/@[^@\n]*$/, `@${name} `))}
+                className="w-full text-left px-2 py-1 text-sm text-gray-300 hover:bg-gray-700"
+              >
+                @{name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// The comment threads about one item, with a box to start a new one.
+const CommentThreads: React.FC<CommentThreadsProps> = ({ threads, author, people, onAdd, onReply, onSetResolved, onDelete, autoFocus = false }) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const resolvedCount = threads.filter(thread => thread.resolved).length;
+  const shown = threads.filter(thread => showResolved || !thread.resolved);
+
+  return (
+    <div className="flex flex-col gap-3">
+      {shown.map(thread => (
+        <div key={thread.id} className={`rounded-md border ${thread.resolved ? 'border-gray-700 opacity-70' : 'border-gray-600'} bg-gray-900/40`}>
+          <ul className="divide-y divide-gray-700/60">
+            {thread.comments.map(comment => (
+              <li key={comment.id} className="group/comment px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-200 truncate">{comment.author || 'Unknown'}</span>
+                  <span className="flex-1 text-xs text-gray-500 truncate">{formatDate(comment.createdAt)}</span>
+                  {comment.author === author && (
+                    <button
+                      onClick={() => onDelete(thread.id, comment.id)}
+                      className="p-0.5 rounded text-gray-500 hover:text-red-400 opacity-0 group-hover/comment:opacity-100 focus:opacity-100"
+                      aria-label="Delete comment"
+                    >
+                      <XIcon className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <p className="text-gray-300 whitespace-pre-wrap break-words">
+                  <CommentText text={comment.text} mentions={comment.mentions} />
+                </p>
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-col gap-2 px-3 py-2 border-t border-gray-700/60">
+            {!thread.resolved && <CommentInput placeholder="Reply..." people={people} onSubmit={(text) => onReply(thread.id, text)} />}
+            <button
+              onClick={() => onSetResolved(thread.id, !thread.resolved)}
+              className="self-end flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200"
+            >
+              {!thread.resolved && <CheckIcon className="w-3.5 h-3.5" />}
+              {thread.resolved ? 'Reopen' : 'Resolve'}
+            </button>
+          </div>
+        </div>
+      ))}
+      {resolvedCount > 0 && (
+        <button onClick={() => setShowResolved(show => !show)} className="self-start text-xs text-gray-400 hover:text-gray-200">
+          {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+        </button>
+      )}
+      <CommentInput placeholder={threads.length > 0 ? 'Start a new thread... Use @ to mention someone.' : 'Add a comment... Use @ to mention someone.'} people={people} onSubmit={onAdd} autoFocus={autoFocus} />
+    </div>
+  );
+};
+
+export default CommentThreads;
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { CommentTarget, RoadmapData } from '../services/geminiService';
+import { collectFootnotes } from '../services/roadmapComments';
+
+interface CommentsPanelProps {
+  data: RoadmapData;
+  includeInExports: boolean;
+  onIncludeInExportsChange: (include: boolean) => void;
+  // Opens a deliverable's details, where its threads are shown.
+  onSelectTask: (taskId: string) => void;
+  onSetResolved: (threadId: string, resolved: boolean) => void;
+  onClose: () => void;
+}
+
+// All comment threads of the roadmap in reading order, to work through a review.
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ data, includeInExports, onIncludeInExportsChange, onSelectTask, onSetResolved, onClose }) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const entries = collectFootnotes(data);
+  const shown = entries.filter(entry => showResolved || !entry.thread.resolved);
+
+  const labelButton = (target: CommentTarget, label: string) => (
+    target.type === 'task'
+      ? <button onClick={() => onSelectTask(target.id)} className="block w-full truncate text-left text-xs text-blue-300 hover:underline">{label}</button>
+      : <span className="block truncate text-xs text-gray-400">{label}</span>
+  );
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-200">Comments</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-200">Close</button>
+      </div>
+      {shown.length === 0 ? (
+        <p className="px-3 py-3 text-sm text-gray-500">
+          {entries.length === 0 ? 'No comments yet. Use the comment bubbles on pillars and timeframes, or the details of a deliverable.' : 'All threads are resolved.'}
+        </p>
+      ) : (
+        <ul className="max-h-80 overflow-auto py-1">
+          {shown.map(({ target, label, thread }) => (
+            <li key={thread.id} className={`px-3 py-2 ${thread.resolved ? 'opacity-60' : ''}`}>
+              {labelButton(target, label)}
+              <p className="text-sm text-gray-300 line-clamp-2">
+                <span className="font-semibold text-gray-200">{thread.comments[0].author}:</span> {thread.comments[0].text}
+              </p>
+              <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+                <span>{thread.comments.length > 1 ? `${thread.comments.length - 1} repl${thread.comments.length === 2 ? 'y' : 'ies'}` : 'No replies'}</span>
+                <button onClick={() => onSetResolved(thread.id, !thread.resolved)} className="text-gray-400 hover:text-gray-200">
+                  {thread.resolved ? 'Reopen' : 'Resolve'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-col gap-2 p-3 border-t border-gray-700 text-xs text-gray-400">
+        {entries.some(entry => entry.thread.resolved) && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} className="accent-blue-500" />
+            Show resolved threads
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeInExports} onChange={(e) => onIncludeInExportsChange(e.target.checked)} className="accent-blue-500" />
+          Include comments as footnotes in Markdown and HTML exports
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default CommentsPanel;
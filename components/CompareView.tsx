@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useMemo } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import type { RoadmapSnapshot } from '../services/roadmapStore';
+import { diffRoadmaps, formatChangeLog, getChangeKinds, summarizeChanges, describeTaskDiff } from '../services/roadmapDiff';
+import type { ChangeKind, ItemChange } from '../services/roadmapDiff';
+import type { TaskEntry } from '../services/roadmapTasks';
+import { ClipboardIcon, CheckIcon, XIcon } from './icons';
+
+interface CompareViewProps {
+  // The roadmap as currently edited.
+  current: RoadmapData;
+  snapshots: RoadmapSnapshot[];
+  baselineId: string;
+  onSelectBaseline: (snapshotId: string) => void;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<ChangeKind, { label: string; item: string; badge: string }> = {
+  added: { label: 'Added', item: 'border-green-400 bg-green-900/30', badge: 'bg-green-900/70 text-green-300' },
+  removed: { label: 'Removed', item: 'border-red-400 bg-red-900/20 text-gray-500 line-through', badge: 'bg-red-900/70 text-red-300' },
+  moved: { label: 'Moved', item: 'border-sky-400 bg-sky-900/30', badge: 'bg-sky-900/70 text-sky-300' },
+  edited: { label: 'Edited', item: 'border-amber-400 bg-amber-900/20', badge: 'bg-amber-900/70 text-amber-300' },
+};
+
+const ChangeBadges: React.FC<{ kinds: ChangeKind[] }> = ({ kinds }) => (
+  <>
+    {kinds.map(kind => (
+      <span key={kind} className={`inline-block align-middle ml-1.5 rounded-full px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide leading-none no-underline ${CHANGE_STYLES[kind].badge}`}>
+        {CHANGE_STYLES[kind].label}
+      </span>
+    ))}
+  </>
+);
+
+// Shows the current roadmap with the differences to a snapshot highlighted, next to a copyable change log.
+const CompareView: React.FC<CompareViewProps> = ({ current, snapshots, baselineId, onSelectBaseline, onClose }) => {
+  const [onlyChanges, setOnlyChanges] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const baseline = snapshots.find(snapshot => snapshot.id === baselineId);
+
+  const diff = useMemo(() => (baseline ? diffRoadmaps(baseline.data, current) : null), [baseline, current]);
+  const changeLog = useMemo(() => (diff && baseline ? formatChangeLog(diff, `"${baseline.name}"`) : ''), [diff, baseline]);
+
+  if (!diff || !baseline) {
+    return (
+      <div className="p-8 text-gray-400">
+        The snapshot is no longer available.{' '}
+        <button onClick={onClose} className="text-blue-300 hover:underline">Back to the roadmap</button>
+      </div>
+    );
+  }
+
+  const summary = summarizeChanges(diff.tasks);
+  const tasksIn = (pillar: ItemChange<{ id: string }>, timeframe: ItemChange<{ id: string }>) =>
+    diff.tasks.filter(change => {
+      const entry: TaskEntry | null = change.after ?? change.before;
+      const side = change.after ? 'after' : 'before';
+      return entry && entry.pillarId === pillar[side]?.id && entry.timeframeId === timeframe[side]?.id
+        && (!onlyChanges || getChangeKinds(change).length > 0);
+    });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(changeLog);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err: any) {
+      alert(`Could not copy to the clipboard: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="flex h-full">
+      <div className="flex-1 min-w-0 flex flex-col p-6 overflow-hidden">
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Comparing
+            <select
+              value={baselineId}
+              onChange={(e) => onSelectBaseline(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {[...snapshots].reverse().map(snapshot => <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>)}
+            </select>
+            with the current version
+          </label>
+          <div className="flex items-center gap-1 text-xs">
+            {(Object.keys(summary) as ChangeKind[]).map(kind => (
+              <span key={kind} className={`rounded-full px-2 py-0.5 font-semibold ${CHANGE_STYLES[kind].badge}`}>{summary[kind]} {CHANGE_STYLES[kind].label.toLowerCase()}</span>
+            ))}
+          </div>
+          <label className="flex items-center gap-1.5 text-sm text-gray-400">
+            <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} className="accent-blue-500" />
+            Only changes
+          </label>
+          <button onClick={onClose} className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md">
+            <XIcon className="w-4 h-4" />
+            Exit comparison
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="border-separate border-spacing-2 text-sm">
+            <thead>
+              <tr>
+                <th />
+                {diff.timeframes.map((timeframe, index) => {
+                  const item = timeframe.after ?? timeframe.before!;
+                  const kinds = getChangeKinds(timeframe);
+                  return (
+                    <th key={index} className={`min-w-[14rem] p-2 rounded-lg text-left align-bottom font-semibold ${kinds.includes('removed') ? 'text-gray-500 line-through' : 'text-gray-200'}`}>
+                      <span className="block text-xs text-gray-400 font-normal">{item.date}</span>
+                      {item.name}
+                      <ChangeBadges kinds={kinds} />
+                      {kinds.includes('edited') && <span className="block text-xs text-gray-500 font-normal">was {[timeframe.before!.date, timeframe.before!.name].filter(Boolean).join(': ')}</span>}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {diff.pillars.map((pillar, pillarIndex) => {
+                const kinds = getChangeKinds(pillar);
+                return (
+                  <tr key={pillarIndex}>
+                    <th className={`p-2 w-40 text-left align-top font-semibold ${kinds.includes('removed') ? 'text-gray-500 line-through' : 'text-gray-300'}`}>
+                      {(pillar.after ?? pillar.before!).name}
+                      <ChangeBadges kinds={kinds} />
+                      {kinds.includes('edited') && <span className="block text-xs text-gray-500 font-normal">was {pillar.before!.name}</span>}
+                    </th>
+                    {diff.timeframes.map((timeframe, timeframeIndex) => (
+                      <td key={timeframeIndex} className="p-2 align-top rounded-lg bg-gray-800/50">
+                        <ul className="space-y-1.5">
+                          {tasksIn(pillar, timeframe).map((change, index) => {
+                            const taskKinds = getChangeKinds(change);
+                            const entry = change.after ?? change.before!;
+                            const details = change.before && change.after ? describeTaskDiff(diff, change) : '';
+                            return (
+                              <li
+                                key={index}
+                                title={details || undefined}
+                                className={`px-2 py-1 rounded border-l-4 ${taskKinds.length > 0 ? CHANGE_STYLES[taskKinds[0]].item : 'border-gray-700 text-gray-400'}`}
+                              >
+                                {entry.task.title}
+                                <ChangeBadges kinds={taskKinds} />
+                                {details && <span className="block text-xs text-gray-500">{details}</span>}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <aside className="w-96 flex-shrink-0 flex flex-col border-l border-gray-700 bg-gray-800/50" aria-label="Change log">
+        <div className="flex items-center justify-between p-3 border-b border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-200">Change log</h3>
+          <button onClick={handleCopy} className="flex items-center gap-1.5 px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md">
+            {isCopied ? <CheckIcon className="w-3.5 h-3.5 text-green-400" /> : <ClipboardIcon className="w-3.5 h-3.5" />}
+            {isCopied ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+        <pre className="flex-1 overflow-auto p-3 text-xs text-gray-300 whitespace-pre-wrap font-mono">{changeLog}</pre>
+      </aside>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { RoadmapDocument } from '../services/roadmapStore';
+import { FolderOpenIcon, PencilIcon, DuplicateIcon, TrashIcon } from './icons';
+
+interface DocumentLibraryProps {
+  documents: RoadmapDocument[];
+  currentDocumentId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ documents, currentDocumentId, onOpen, onRename, onDuplicate, onDelete, onNew }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  const startRename = (doc: RoadmapDocument) => {
+    setRenamingId(doc.id);
+    setRenameText(doc.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameText.trim()) {
+      onRename(renamingId, renameText.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (doc: RoadmapDocument) => {
+    if (window.confirm(`Delete "${doc.name}"? This cannot be undone.`)) {
+      onDelete(doc.id);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl bg-gray-800/50 rounded-2xl shadow-lg border border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-100">Saved Roadmaps</h3>
+        <button onClick={onNew} className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+          New Roadmap
+        </button>
+      </div>
+      {documents.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500 italic">No saved roadmaps yet. Visualized roadmaps are saved here automatically.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700 max-h-72 overflow-auto">
+          {documents.map(doc => (
+            <li key={doc.id} className={`flex items-center gap-3 px-4 py-3 ${doc.id === currentDocumentId ? 'bg-blue-900/20' : ''}`}>
+              <div className="flex-1 min-w-0">
+                {renamingId === doc.id ? (
+                  <input
+                    autoFocus
+                    type="text"
+                    value={renameText}
+                    onChange={(e) => setRenameText(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full bg-transparent border-b border-blue-400 focus:outline-none text-gray-100"
+                    aria-label="Roadmap name"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(doc.id)} className="block w-full text-left truncate font-medium text-gray-200 hover:text-blue-300">
+                    {doc.name}
+                  </button>
+                )}
+                <p className="text-xs text-gray-500">Last edited {formatDate(doc.updatedAt)}</p>
+              </div>
+              <div className="flex items-center gap-1 text-gray-400">
+                <button onClick={() => onOpen(doc.id)} className="p-1.5 hover:bg-gray-700 rounded-md" aria-label={`Open ${doc.name}`} title="Open">
+                  <FolderOpenIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => startRename(doc)} className="p-1.5 hover:bg-gray-700 rounded-md" aria-label={`Rename ${doc.name}`} title="Rename">
+                  <PencilIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDuplicate(doc.id)} className="p-1.5 hover:bg-gray-700 rounded-md" aria-label={`Duplicate ${doc.name}`} title="Duplicate">
+                  <DuplicateIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(doc)} className="p-1.5 hover:bg-gray-700 hover:text-red-400 rounded-md" aria-label={`Delete ${doc.name}`} title="Delete">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DocumentLibrary;
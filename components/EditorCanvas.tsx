@@ -2,276 +2,259 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { flushSync } from 'react-dom';
 import type { RoadmapData } from '../services/geminiService';
-import { PillarIcon, TimelineIcon, FullScreenIcon, ExitFullScreenIcon, PencilIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
+import { serializeRoadmapToMarkdown } from '../services/roadmapMarkdown';
+import { findTask } from '../services/roadmapTasks';
+import { findDependencyConflicts } from '../services/roadmapDependencies';
+import { addThread, countOpenComments, createComment, deleteComment, listPeople, loadIncludeComments, replyToThread, saveIncludeComments, setThreadResolved, threadsOf } from '../services/roadmapComments';
+import { useRoadmapHistory } from '../hooks/useRoadmapHistory';
+import { useCollaboration } from '../hooks/useCollaboration';
+import type { CollabRoom } from '../hooks/useCollaboration';
+import { applyFieldChanges } from '../services/collab/roadmapCrdt';
+import type { FieldChange } from '../services/collab/roadmapCrdt';
+import type { CellRef, Collaborator } from '../services/collab/collabSession';
+import type { RoadmapSnapshot } from '../services/roadmapStore';
+import HistoryPanel from './HistoryPanel';
+import SnapshotPanel from './SnapshotPanel';
+import CompareView from './CompareView';
+import ExportMenu from './ExportMenu';
+import PresentationView from './PresentationView';
+import GanttView from './GanttView';
+import TaskDetailDrawer from './TaskDetailDrawer';
+import FilterBar from './FilterBar';
+import AiCommandBar from './AiCommandBar';
+import ReviewBar from './ReviewBar';
+import CollabMenu from './CollabMenu';
+import CommentsPanel from './CommentsPanel';
+import { PillarView, TimelineView, commentProps, createEditActions, describeTaskLocation } from './RoadmapViews';
+import type { CommentContext } from './RoadmapViews';
+import { renderStandaloneHtml } from '../services/htmlExport';
+import { downloadBlob, getRoadmapFileSlug } from '../services/roadmapExport';
+import { createShareUrl } from '../services/shareLink';
+import { applyFilter, getVisibility } from '../services/roadmapFilter';
+import { applyPatch } from '../services/roadmapPatch';
+import type { PatchOperation } from '../services/roadmapPatch';
+import { NO_ANNOTATIONS, indexReviewFindings } from '../services/roadmapReview';
+import type { RoadmapReview } from '../services/roadmapReview';
+import { reviewRoadmap } from '../services/geminiService';
+import type { RoadmapFilter } from '../services/roadmapFilter';
+import type { EditorViewMode } from '../services/svgRenderer';
+import { PillarIcon, TimelineIcon, FullScreenIcon, ExitFullScreenIcon, PencilIcon, ClipboardIcon, CheckIcon, UndoIcon, RedoIcon, HistoryIcon, PresentationIcon, GlobeIcon, WarningIcon, GanttIcon, SnapshotIcon, LinkIcon, LightbulbIcon, CommentIcon } from './icons';
 
-// A map of pillar IDs to colors for consistent coloring across views.
-const PILLAR_COLORS: { [key: string]: { border: string; bg: string; dot: string } } = {
-  p1: { border: 'border-blue-400', bg: 'bg-blue-900/50', dot: 'bg-blue-400' },
-  p2: { border: 'border-green-400', bg: 'bg-green-900/50', dot: 'bg-green-400' },
-  p3: { border: 'border-pink-400', bg: 'bg-pink-900/50', dot: 'bg-pink-400' },
-  p4: { border: 'border-orange-400', bg: 'bg-orange-900/50', dot: 'bg-orange-400' },
-  p5: { border: 'border-indigo-400', bg: 'bg-indigo-900/50', dot: 'bg-indigo-400' },
-  p6: { border: 'border-teal-400', bg: 'bg-teal-900/50', dot: 'bg-teal-400' },
-};
-
-const getPillarColor = (index: number) => {
-  const key = `p${(index % Object.keys(PILLAR_COLORS).length) + 1}`;
-  return PILLAR_COLORS[key];
-};
-
-const EditableDeliverable: React.FC<{ text: string; onSave: (newText: string) => void }> = ({ text, onSave }) => {
-    const [isEditing, setIsEditing] = useState(false);
-    const [editText, setEditText] = useState(text);
-    const inputRef = useRef<HTMLInputElement>(null);
-
-    useEffect(() => {
-        if (isEditing) {
-            inputRef.current?.focus();
-            inputRef.current?.select();
-        }
-    }, [isEditing]);
-    
-    useEffect(() => {
-        setEditText(text);
-    }, [text]);
-
-    const handleSave = () => {
-        if (editText.trim() && editText.trim() !== text) {
-            onSave(editText.trim());
-        }
-        setIsEditing(false);
-    };
-
-    if (isEditing) {
-        return (
-            <input
-                ref={inputRef}
-                type="text"
-                value={editText}
-                onChange={(e) => setEditText(e.target.value)}
-                onBlur={handleSave}
-                onKeyDown={(e) => {
-                    if (e.key === 'Enter') handleSave();
-                    if (e.key === 'Escape') {
-                        setEditText(text);
-                        setIsEditing(false);
-                    }
-                }}
-                className="w-full bg-transparent border-b border-blue-400 focus:outline-none"
-            />
-        );
-    }
-
-    return (
-        <span onClick={() => setIsEditing(true)} className="cursor-pointer hover:bg-gray-700/50 rounded px-1 -mx-1">
-            {text}
-        </span>
-    );
-};
+interface EditorCanvasProps {
+  data: RoadmapData;
+  // Receives the current (edited) state so the source text can be regenerated from it.
+  onReset: (currentData: RoadmapData) => void;
+  // Called whenever the roadmap is edited, e.g. to autosave it.
+  onChange?: (currentData: RoadmapData) => void;
+  viewMode: EditorViewMode;
+  onViewModeChange: (viewMode: EditorViewMode) => void;
+  filter: RoadmapFilter;
+  onFilterChange: (filter: RoadmapFilter) => void;
+  snapshots?: RoadmapSnapshot[];
+  // Undefined when snapshots cannot be saved, e.g. for an unsaved roadmap.
+  onCreateSnapshot?: (name: string, currentData: RoadmapData) => void;
+  onDeleteSnapshot?: (snapshotId: string) => void;
+  // The room the roadmap is edited in together; null when it is not shared, e.g. before it is saved.
+  collabRoom?: CollabRoom | null;
+  onStartLiveSession?: () => void;
+  onLeaveLiveSession?: () => void;
+}
 
-const PillarView: React.FC<{ data: RoadmapData; onEdit: (timeframeId: string, pillarId: string, taskIndex: number, newText: string) => void }> = ({ data, onEdit }) => {
-  return (
-    <div className="flex-1 overflow-auto p-8">
-        <h2 className="text-2xl sm:text-3xl font-bold text-center mb-1">{data.title}</h2>
-        <p className="text-gray-400 text-center mb-8">{data.subtitle}</p>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {data.pillars.map((pillar, index) => (
-                <div key={pillar.id} className="flex flex-col gap-6">
-                    <h3 className={`text-lg font-bold p-3 rounded-lg flex items-center gap-2 ${getPillarColor(index).bg} border-l-4 ${getPillarColor(index).border}`}>
-                        <span className={`w-3 h-3 rounded-full ${getPillarColor(index).dot}`}></span>
-                        {pillar.name}
-                    </h3>
-                    <div className="flex flex-col gap-6">
-                        {data.timeframes.map((timeframe) => {
-                            const pillarDeliverables = timeframe.deliverables.find(d => d.pillarId === pillar.id);
-                            if (!pillarDeliverables || pillarDeliverables.tasks.length === 0) return null;
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ data, onReset, onChange, viewMode, onViewModeChange: setViewMode, filter, onFilterChange, snapshots = [], onCreateSnapshot, onDeleteSnapshot, collabRoom = null, onStartLiveSession, onLeaveLiveSession }) => {
+  const [isFullScreen, setIsFullScreen] = useState(false);
+  const [isPresenting, setIsPresenting] = useState(false);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const history = useRoadmapHistory(data);
+  const localData = history.present;
+  const reportedData = useRef<RoadmapData>(data);
+  const [isCopied, setIsCopied] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  // The snapshot shown in comparison mode, if any.
+  const [compareSnapshotId, setCompareSnapshotId] = useState<string | null>(null);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  // The deliverable whose details were opened at its comments.
+  const [commentsTaskId, setCommentsTaskId] = useState<string | null>(null);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [includeComments, setIncludeComments] = useState(loadIncludeComments);
+  // Null once the selected deliverable is gone, e.g. after it was deleted or an undo.
+  const selectedTask = selectedTaskId ? findTask(localData, selectedTaskId) : null;
+  const conflicts = useMemo(() => findDependencyConflicts(localData), [localData]);
+  const conflictingTaskIds = useMemo(() => new Set(conflicts.map(c => c.task.task.id)), [conflicts]);
+  const visibility = useMemo(() => getVisibility(localData, filter), [localData, filter]);
+  // Exports, publishing and presenting show only what the filter leaves visible.
+  const filteredData = useMemo(() => applyFilter(localData, filter), [localData, filter]);
+  const [review, setReview] = useState<RoadmapReview | null>(null);
+  const reviewRequest = useRef<AbortController | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const annotations = useMemo(() => (review ? indexReviewFindings(review.findings, localData) : NO_ANNOTATIONS), [review, localData]);
+  // Edits of others change every history entry, so undo only reverts one's own edits.
+  const handleRemoteChanges = useCallback((changes: FieldChange[]) => history.rebase(d => applyFieldChanges(d, changes)), [history.rebase]);
+  const collab = useCollaboration(collabRoom, localData, handleRemoteChanges);
+  const [focusedCell, setFocusedCell] = useState<CellRef | null>(null);
+  // The cell being edited: where the focus is, or else where the deliverable in the drawer is.
+  const editingCell = focusedCell ?? (selectedTask && { timeframeId: selectedTask.timeframeId, pillarId: selectedTask.pillarId });
+  const editorsOf = useMemo(() => {
+    const byCell = new Map<string, Collaborator[]>();
+    collab.collaborators.forEach(collaborator => {
+      if (!collaborator.cell) return;
+      const key = `${collaborator.cell.timeframeId}\u0000${collaborator.cell.pillarId}`;
+      byCell.set(key, [...(byCell.get(key) ?? []), collaborator]);
+    });
+    return (timeframeId: string, pillarId: string) => byCell.get(`${timeframeId}\u0000${pillarId}`) ?? [];
+  }, [collab.collaborators]);
 
-                            return (
-                                <div key={`${pillar.id}-${timeframe.id}`} className="bg-gray-800/60 rounded-lg p-4">
-                                    <h4 className="font-semibold text-gray-300 mb-3">
-                                        {timeframe.name}{' '}
-                                        <span className="font-normal text-sm text-gray-400">({timeframe.date})</span>
-                                    </h4>
-                                    <ul className="list-disc list-inside text-gray-400 space-y-2">
-                                        {pillarDeliverables.tasks.map((task, taskIndex) => (
-                                            <li key={taskIndex}>
-                                                <EditableDeliverable
-                                                    text={task}
-                                                    onSave={(newText) => onEdit(timeframe.id, pillar.id, taskIndex, newText)}
-                                                />
-                                            </li>
-                                        ))}
-                                    </ul>
-                                </div>
-                            );
-                        })}
-                    </div>
-                </div>
-            ))}
-        </div>
-    </div>
+  const commentAuthor = collab.profile.name;
+  const people = useMemo(
+    () => listPeople(localData).concat(collab.collaborators.map(c => c.name), commentAuthor).filter((name, index, names) => names.indexOf(name) === index),
+    [localData, collab.collaborators, commentAuthor]
   );
-};
-
-const HorizontalScrollBar: React.FC<{ scrollRef: React.RefObject<HTMLDivElement> }> = ({ scrollRef }) => {
-    const [scrollState, setScrollState] = useState({ canScrollLeft: false, canScrollRight: false });
-    const observer = useRef<ResizeObserver | null>(null);
-
-    const checkScrollability = () => {
-        const el = scrollRef.current;
-        if (el) {
-            const canScrollLeft = el.scrollLeft > 1;
-            const canScrollRight = el.scrollLeft < el.scrollWidth - el.clientWidth - 1;
-            setScrollState({ canScrollLeft, canScrollRight });
-        }
-    };
+  const openComments = useCallback((taskId: string) => {
+    setSelectedTaskId(taskId);
+    setCommentsTaskId(taskId);
+  }, []);
+  const applyEdit = history.commit;
+  const commentContext = useMemo<CommentContext>(() => ({
+    threadsOf: (target) => threadsOf(localData, target),
+    author: commentAuthor,
+    people,
+    addComment: (target, text) => {
+      const comment = createComment(commentAuthor, text, people);
+      applyEdit('Add comment', d => addThread(d, target, comment));
+    },
+    replyToThread: (threadId, text) => {
+      const comment = createComment(commentAuthor, text, people);
+      applyEdit('Reply to comment', d => replyToThread(d, threadId, comment));
+    },
+    setThreadResolved: (threadId, resolved) => applyEdit(resolved ? 'Resolve comment thread' : 'Reopen comment thread', d => setThreadResolved(d, threadId, resolved)),
+    deleteComment: (threadId, commentId) => applyEdit('Delete comment', d => deleteComment(d, threadId, commentId)),
+    onOpenTask: openComments,
+  }), [localData, applyEdit, commentAuthor, people, openComments]);
+  const openCommentCount = countOpenComments(localData.threads ?? []);
 
-    useEffect(() => {
-        const el = scrollRef.current;
-        if (!el) return;
+  useEffect(() => {
+    collab.setCell(editingCell);
+  }, [editingCell?.timeframeId, editingCell?.pillarId]);
 
-        checkScrollability();
-        el.addEventListener('scroll', checkScrollability);
+  useEffect(() => {
+    reportedData.current = data;
+    history.reset(data);
+    // Findings name items of the previous roadmap.
+    reviewRequest.current?.abort();
+    setReview(null);
+  }, [data]);
 
-        observer.current = new ResizeObserver(checkScrollability);
-        observer.current.observe(el);
-        
-        // Also observe children
-        Array.from(el.children).forEach(child => observer.current!.observe(child));
+  useEffect(() => () => reviewRequest.current?.abort(), []);
 
-        return () => {
-            el.removeEventListener('scroll', checkScrollability);
-            observer.current?.disconnect();
-        };
-    }, [scrollRef]);
+  useEffect(() => {
+    // Report every change (including undo/redo) but not the data we were given.
+    if (localData !== reportedData.current) {
+      reportedData.current = localData;
+      onChange?.(localData);
+    }
+  }, [localData]);
 
-    const handleScroll = (direction: 'left' | 'right') => {
-        scrollRef.current?.scrollBy({ left: direction === 'left' ? -300 : 300, behavior: 'smooth' });
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields to their native undo behavior.
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
 
-    return (
-        <div className="flex items-center justify-center w-full px-4 pt-4">
-            <button onClick={() => handleScroll('left')} disabled={!scrollState.canScrollLeft} className="p-2 rounded-full disabled:opacity-30 disabled:cursor-not-allowed hover:bg-gray-700 transition-colors">
-                <ChevronLeftIcon className="w-5 h-5" />
-            </button>
-            <div className="flex-1 h-2 bg-gray-700/50 rounded-full mx-2 relative cursor-pointer">
-                {/* Thumb would require complex logic, so we'll omit for now */}
-            </div>
-            <button onClick={() => handleScroll('right')} disabled={!scrollState.canScrollRight} className="p-2 rounded-full disabled:opacity-30 disabled:cursor-not-allowed hover:bg-gray-700 transition-colors">
-                <ChevronRightIcon className="w-5 h-5" />
-            </button>
-        </div>
-    );
-};
+  const { uniqueId } = collab;
 
-const TimelineView: React.FC<{ data: RoadmapData; onEdit: (timeframeId: string, pillarId: string, taskIndex: number, newText: string) => void }> = ({ data, onEdit }) => {
-  const scrollRef = useRef<HTMLDivElement>(null);
+  const actions = useMemo(() => createEditActions(applyEdit, uniqueId), [applyEdit, uniqueId]);
 
-  const timeframesWithPillars = useMemo(() => {
-    return data.timeframes.map(timeframe => {
-      const deliverablesByPillar = data.pillars.map((pillar, index) => {
-        const pillarDeliverables = timeframe.deliverables.find(d => d.pillarId === pillar.id);
-        if (!pillarDeliverables || pillarDeliverables.tasks.length === 0) return null;
-        return {
-          pillar,
-          tasks: pillarDeliverables.tasks,
-          color: getPillarColor(index)
-        };
-      }).filter((p): p is NonNullable<typeof p> => p !== null);
-      return { ...timeframe, deliverablesByPillar };
-    });
-  }, [data]);
+  const handleIncludeCommentsChange = (include: boolean) => {
+    setIncludeComments(include);
+    saveIncludeComments(include);
+  };
 
-  return (
-    <div className="flex flex-col flex-1 overflow-hidden p-8">
-      <h2 className="text-2xl sm:text-3xl font-bold text-center mb-1">{data.title}</h2>
-      <p className="text-gray-400 text-center mb-12">{data.subtitle}</p>
+  const selectTask = useCallback((taskId: string) => {
+    setSelectedTaskId(taskId);
+    setCommentsTaskId(null);
+  }, []);
 
-      <div className="flex-1 overflow-auto scrollbar-hide" ref={scrollRef}>
-        <div className="relative min-w-full text-center">
-          {/* Timeline axis line */}
-          <div className="absolute top-16 left-0 right-0 h-0.5 bg-gray-600 mx-4"></div>
+  // All accepted edits of an AI command form a single undo step. The patch is applied to the roadmap as it is
+  // when the edit is committed, which may include edits of others; flushSync makes its result available here.
+  const handleApplyPatch = (operations: PatchOperation[], command: string) => {
+    let skipped: PatchOperation[] = [];
+    flushSync(() => applyEdit(`AI: "${command}"`, current => {
+      const result = applyPatch(current, operations, uniqueId);
+      skipped = result.skipped;
+      return result.data;
+    }));
+    if (skipped.length > 0) {
+      alert(`${skipped.length} edit(s) could not be applied because the items they refer to no longer exist.`);
+    }
+  };
 
-          <div className="inline-block text-left">
-            <div className="flex items-start">
-              {timeframesWithPillars.map((timeframe, index) => (
-                <div key={timeframe.id} className="flex-shrink-0 relative px-4 min-w-[320px]">
-                  {/* Top part: Date and Marker */}
-                  <div className="relative h-16 w-full text-center">
-                    <div className="absolute bottom-4 left-0 right-0 text-sm font-semibold text-gray-300 whitespace-nowrap">{timeframe.date}</div>
-                    <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-3 h-3 bg-gray-200 rounded-full ring-4 ring-gray-900" style={{ transform: 'translate(-50%, 50%)' }}></div>
-                  </div>
-                  
-                  {/* Content below timeline */}
-                  <div className="mt-8">
-                    <h3 className="text-lg font-bold text-center mb-4 whitespace-nowrap">{timeframe.name}</h3>
-                    <div className="flex flex-col gap-4">
-                      {timeframe.deliverablesByPillar.map(p => (
-                        <div key={p.pillar.id} className={`p-3 rounded-lg ${p.color.bg} border-l-4 ${p.color.border}`}>
-                          <h4 className="font-semibold text-gray-300 mb-2 flex items-center gap-2">
-                            <span className={`w-2.5 h-2.5 rounded-full ${p.color.dot}`}></span>
-                            {p.pillar.name}
-                          </h4>
-                          <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2 text-sm">
-                            {p.tasks.map((task, taskIndex) => (
-                              <li key={taskIndex}>
-                                <EditableDeliverable
-                                  text={task}
-                                  onSave={(newText) => onEdit(timeframe.id, p.pillar.id, taskIndex, newText)}
-                                />
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      </div>
-      <HorizontalScrollBar scrollRef={scrollRef} />
-    </div>
-  );
-};
+  const handleAnalyze = async () => {
+    if (reviewRequest.current) {
+      reviewRequest.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    reviewRequest.current = controller;
+    setIsAnalyzing(true);
+    try {
+      setReview(await reviewRoadmap(localData, { signal: controller.signal }));
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        alert(`Could not analyze the roadmap: ${err.message}`);
+      }
+    } finally {
+      reviewRequest.current = null;
+      setIsAnalyzing(false);
+    }
+  };
 
-interface EditorCanvasProps {
-  data: RoadmapData;
-  onReset: () => void;
-}
+  const dismissFinding = useCallback((findingId: string) => {
+    setReview(prev => prev && { ...prev, findings: prev.findings.filter(f => f.id !== findingId) });
+  }, []);
 
-const EditorCanvas: React.FC<EditorCanvasProps> = ({ data, onReset }) => {
-  const [viewMode, setViewMode] = useState<'pillar' | 'timeline'>('pillar');
-  const [isFullScreen, setIsFullScreen] = useState(false);
-  const canvasRef = useRef<HTMLDivElement>(null);
-  const [localData, setLocalData] = useState<RoadmapData>(data);
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeRoadmapToMarkdown(localData, { includeComments }));
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err: any) {
+      alert(`Could not copy to the clipboard: ${err.message}`);
+    }
+  };
 
-  useEffect(() => {
-    setLocalData(data);
-  }, [data]);
+  // The link opens the roadmap and joins the live session.
+  const handleCopyInvite = async () => {
+    await navigator.clipboard.writeText(await createShareUrl({ data: localData, view: viewMode, filter }));
+  };
 
-  const handleEdit = (timeframeId: string, pillarId: string, taskIndex: number, newText: string) => {
-    setLocalData(prevData => {
-      const newData: RoadmapData = JSON.parse(JSON.stringify(prevData));
-      const timeframe = newData.timeframes.find(t => t.id === timeframeId);
-      if (timeframe) {
-        let deliverable = timeframe.deliverables.find(d => d.pillarId === pillarId);
-        if(!deliverable){
-          deliverable = {pillarId, tasks: []};
-          timeframe.deliverables.push(deliverable);
-        }
-        if (deliverable.tasks[taskIndex] !== undefined) {
-          deliverable.tasks[taskIndex] = newText;
-        }
-      }
-      return newData;
-    });
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await createShareUrl({ data: localData, view: viewMode, filter }));
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (err: any) {
+      alert(`Could not copy the link: ${err.message}`);
+    }
   };
-  
+
   const toggleFullScreen = () => {
     if (!canvasRef.current) return;
     if (!document.fullscreenElement) {
@@ -283,28 +266,153 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({ data, onReset }) => {
     }
   };
 
+  const startPresentation = () => {
+    setIsPresenting(true);
+    if (!document.fullscreenElement) {
+      canvasRef.current?.requestFullscreen().catch(err => {
+        console.warn(`Presenting without full-screen mode: ${err.message}`);
+      });
+    }
+  };
+
+  const exitPresentation = useCallback(() => {
+    setIsPresenting(false);
+    if (document.fullscreenElement) document.exitFullscreen();
+  }, []);
+
+  const handlePublish = () => {
+    const html = renderStandaloneHtml(filteredData, { includeComments });
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${getRoadmapFileSlug(filteredData)}.html`);
+  };
+
   useEffect(() => {
     const handleFullScreenChange = () => {
       setIsFullScreen(!!document.fullscreenElement);
+      // Leaving full-screen (e.g. with Esc) also ends the presentation.
+      if (!document.fullscreenElement) setIsPresenting(false);
     };
     document.addEventListener('fullscreenchange', handleFullScreenChange);
     return () => document.removeEventListener('fullscreenchange', handleFullScreenChange);
   }, []);
 
   const ViewComponent = viewMode === 'pillar' ? PillarView : TimelineView;
+  const viewProps = { data: localData, selectedTaskId: selectedTask ? selectedTaskId : null, onSelectTask: selectTask, conflictingTaskIds, visibility, annotations, onDismissFinding: dismissFinding, editorsOf, onFocusCell: setFocusedCell, comments: commentContext };
+
+  if (isPresenting) {
+    return (
+      <div ref={canvasRef} className="flex-1 flex flex-col bg-gray-900 overflow-hidden w-full h-full">
+        <PresentationView data={filteredData} onExit={exitPresentation} />
+      </div>
+    );
+  }
 
   return (
     <div ref={canvasRef} className="flex-1 flex flex-col bg-gray-900 overflow-hidden w-full h-full">
       {/* Toolbar */}
-      <div className="flex items-center justify-between p-3 border-b border-gray-700 bg-gray-800/50 flex-shrink-0">
+      <div className="flex items-center justify-between p-3 border-b border-gray-700 bg-gray-800/50 flex-shrink-0 print:hidden">
         <div className="flex items-center gap-2">
-          <button onClick={onReset} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+          <button onClick={() => onReset(localData)} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
             <PencilIcon className="w-4 h-4" />
             Edit Source
           </button>
-           <span className="text-xs text-gray-500 italic hidden sm:inline">Click on any deliverable to edit it directly.</span>
+          <button onClick={handleCopyMarkdown} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+            {isCopied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardIcon className="w-4 h-4" />}
+            {isCopied ? 'Copied!' : 'Copy as Markdown'}
+          </button>
+           <span className="text-xs text-gray-500 italic hidden sm:inline">Click any text to edit it, or a deliverable to see its details. Drag deliverables to reorder or move them.</span>
         </div>
         <div className="flex items-center gap-2">
+          <CollabMenu
+            status={collab.status}
+            collaborators={collab.collaborators}
+            profile={collab.profile}
+            onProfileChange={collab.setProfile}
+            describeCell={(cell) => describeTaskLocation(localData, { ...cell, index: 0 })}
+            isLive={!!collabRoom?.live}
+            onStartLive={onStartLiveSession}
+            onLeaveLive={onLeaveLiveSession}
+            onCopyInvite={handleCopyInvite}
+          />
+          <button
+            onClick={handleAnalyze}
+            className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-md transition-colors ${isAnalyzing ? 'bg-amber-900/50 text-amber-200 hover:bg-amber-900/70' : 'bg-gray-700 hover:bg-gray-600'}`}
+            title={isAnalyzing ? 'Cancel the review' : 'Let the AI review the roadmap for overloaded periods, gaps, vague and duplicate deliverables'}
+          >
+            <LightbulbIcon className={`w-4 h-4 ${isAnalyzing ? 'animate-pulse' : ''}`} />
+            {isAnalyzing ? 'Analyzing... (cancel)' : 'Analyze'}
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsCommentsOpen(open => !open)}
+              className={`flex items-center gap-1.5 p-2 hover:bg-gray-700 rounded-md ${isCommentsOpen ? 'bg-gray-700' : ''}`}
+              aria-label="Comments"
+              aria-expanded={isCommentsOpen}
+              title={openCommentCount > 0 ? `${openCommentCount} open comment(s)` : 'Comments'}
+            >
+              <CommentIcon className="w-5 h-5" />
+              {openCommentCount > 0 && <span className="text-xs text-blue-300">{openCommentCount}</span>}
+            </button>
+            {isCommentsOpen && (
+              <CommentsPanel
+                data={localData}
+                includeInExports={includeComments}
+                onIncludeInExportsChange={handleIncludeCommentsChange}
+                onSelectTask={openComments}
+                onSetResolved={commentContext.setThreadResolved}
+                onClose={() => setIsCommentsOpen(false)}
+              />
+            )}
+          </div>
+          {conflicts.length > 0 && (
+            <button
+              onClick={() => setSelectedTaskId(conflicts[0].task.task.id)}
+              className="flex items-center gap-1.5 px-2 py-1.5 text-sm text-amber-400 hover:bg-gray-700 rounded-md"
+              title={conflicts.map(c => `"${c.task.task.title}" depends on "${c.dependency.task.title}", which is scheduled later`).join('\n')}
+            >
+              <WarningIcon className="w-4 h-4" />
+              {conflicts.length} dependency {conflicts.length === 1 ? 'conflict' : 'conflicts'}
+            </button>
+          )}
+          <div className="relative flex items-center">
+            <button onClick={history.undo} disabled={!history.canUndo} className="p-2 hover:bg-gray-700 rounded-md disabled:opacity-30 disabled:cursor-not-allowed" aria-label="Undo" title="Undo (Ctrl+Z)">
+              <UndoIcon className="w-5 h-5" />
+            </button>
+            <button onClick={history.redo} disabled={!history.canRedo} className="p-2 hover:bg-gray-700 rounded-md disabled:opacity-30 disabled:cursor-not-allowed" aria-label="Redo" title="Redo (Ctrl+Shift+Z)">
+              <RedoIcon className="w-5 h-5" />
+            </button>
+            <button onClick={() => setIsHistoryOpen(open => !open)} className={`p-2 hover:bg-gray-700 rounded-md ${isHistoryOpen ? 'bg-gray-700' : ''}`} aria-label="Edit History" aria-expanded={isHistoryOpen}>
+              <HistoryIcon className="w-5 h-5" />
+            </button>
+            {isHistoryOpen && (
+              <HistoryPanel entries={history.entries} currentIndex={history.index} onJumpTo={history.jumpTo} onClose={() => setIsHistoryOpen(false)} />
+            )}
+          </div>
+          <div className="relative">
+            <button
+              onClick={() => setIsSnapshotsOpen(open => !open)}
+              className={`p-2 hover:bg-gray-700 rounded-md ${isSnapshotsOpen || compareSnapshotId ? 'bg-gray-700' : ''}`}
+              aria-label="Snapshots"
+              aria-expanded={isSnapshotsOpen}
+              title="Save snapshots and compare versions"
+            >
+              <SnapshotIcon className="w-5 h-5" />
+            </button>
+            {isSnapshotsOpen && (
+              <SnapshotPanel
+                snapshots={snapshots}
+                onCreate={onCreateSnapshot && ((name) => onCreateSnapshot(name, localData))}
+                onCompare={(snapshotId) => {
+                  setCompareSnapshotId(snapshotId);
+                  setIsSnapshotsOpen(false);
+                }}
+                onDelete={(snapshotId) => {
+                  onDeleteSnapshot?.(snapshotId);
+                  if (snapshotId === compareSnapshotId) setCompareSnapshotId(null);
+                }}
+                onClose={() => setIsSnapshotsOpen(false)}
+              />
+            )}
+          </div>
           <div className="flex items-center bg-gray-700 rounded-md p-0.5">
             <button
               onClick={() => setViewMode('pillar')}
@@ -322,16 +430,71 @@ const EditorCanvas: React.FC<EditorCanvasProps> = ({ data, onReset }) => {
             >
               <TimelineIcon className="w-5 h-5" />
             </button>
+            <button
+              onClick={() => setViewMode('gantt')}
+              className={`px-3 py-1.5 text-sm rounded ${viewMode === 'gantt' ? 'bg-gray-600 shadow' : 'opacity-70 hover:bg-gray-600/50'}`}
+              aria-label="Gantt View"
+              aria-pressed={viewMode === 'gantt'}
+            >
+              <GanttIcon className="w-5 h-5" />
+            </button>
           </div>
+          {/* The Gantt view is exported as a timeline. */}
+          <ExportMenu data={filteredData} viewMode={viewMode === 'gantt' ? 'timeline' : viewMode} />
+          <button onClick={handleCopyLink} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors" title="Copy a link that opens this roadmap. The roadmap is stored in the link itself.">
+            {isLinkCopied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <LinkIcon className="w-4 h-4" />}
+            {isLinkCopied ? 'Link copied!' : 'Share'}
+          </button>
+          <button onClick={handlePublish} className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors" title="Download a standalone, read-only HTML file">
+            <GlobeIcon className="w-4 h-4" />
+            Publish
+          </button>
+          <button onClick={startPresentation} className="p-2 hover:bg-gray-700 rounded-md" aria-label="Present" title="Present timeframes one at a time">
+            <PresentationIcon className="w-5 h-5" />
+          </button>
           <button onClick={toggleFullScreen} className="p-2 hover:bg-gray-700 rounded-md" aria-label="Toggle Fullscreen">
             {isFullScreen ? <ExitFullScreenIcon className="w-5 h-5" /> : <FullScreenIcon className="w-5 h-5" />}
           </button>
         </div>
       </div>
 
+      {!compareSnapshotId && <AiCommandBar data={localData} onApply={handleApplyPatch} />}
+      {review && !compareSnapshotId && (
+        <ReviewBar review={review} generalFindings={annotations.general} onDismiss={dismissFinding} onClose={() => setReview(null)} />
+      )}
+      {!compareSnapshotId && <FilterBar data={localData} filter={filter} onChange={onFilterChange} />}
+
       {/* Canvas */}
-      <div className="flex-1 overflow-auto">
-        <ViewComponent data={localData} onEdit={handleEdit} />
+      <div className="flex-1 overflow-hidden relative flex flex-col">
+        <div className="flex-1 overflow-auto">
+          {compareSnapshotId ? (
+            <CompareView
+              current={localData}
+              snapshots={snapshots}
+              baselineId={compareSnapshotId}
+              onSelectBaseline={setCompareSnapshotId}
+              onClose={() => setCompareSnapshotId(null)}
+            />
+          ) : viewMode === 'gantt' ? <GanttView {...viewProps} /> : <ViewComponent {...viewProps} actions={actions} />}
+        </div>
+        {selectedTask && !compareSnapshotId && (
+          <TaskDetailDrawer
+            task={selectedTask.task}
+            data={localData}
+            context={describeTaskLocation(localData, selectedTask)}
+            onChange={(changes) => actions.updateTask(selectedTask, changes)}
+            onAddDependency={(dependencyId) => actions.addDependency(selectedTask.task.id, dependencyId)}
+            onRemoveDependency={(dependencyId) => actions.removeDependency(selectedTask.task.id, dependencyId)}
+            onSelectTask={setSelectedTaskId}
+            comments={commentProps(commentContext, { type: 'task', id: selectedTask.task.id })}
+            focusComments={commentsTaskId === selectedTask.task.id}
+            onDelete={() => {
+              actions.deleteTask(selectedTask);
+              setSelectedTaskId(null);
+            }}
+            onClose={() => setSelectedTaskId(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import type { RoadmapViewMode } from '../services/svgRenderer';
+import { exportRoadmap, downloadBlob, getExportFileName } from '../services/roadmapExport';
+import type { ExportFormat } from '../services/roadmapExport';
+import { DownloadIcon } from './icons';
+
+interface ExportMenuProps {
+  data: RoadmapData;
+  viewMode: RoadmapViewMode;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'svg', label: 'SVG', description: 'Vector image for slides and wikis' },
+  { format: 'png', label: 'PNG', description: 'High-resolution image' },
+  { format: 'pdf', label: 'PDF', description: 'Paginated document' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data, viewMode }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const blob = await exportRoadmap(data, viewMode, format);
+      downloadBlob(blob, getExportFileName(data, viewMode, format));
+      setIsOpen(false);
+    } catch (err: any) {
+      console.error(err);
+      alert(`Export failed: ${err.message}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors ${isOpen ? 'bg-gray-600' : ''}`}
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+      >
+        <DownloadIcon className="w-4 h-4" />
+        Export
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 top-full mt-2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40 py-1">
+          <p className="px-3 py-1.5 text-xs text-gray-500">Exports the {viewMode === 'pillar' ? 'pillar' : 'timeline'} view</p>
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => handleExport(option.format)}
+              disabled={exportingFormat !== null}
+              className="w-full text-left px-3 py-2 hover:bg-gray-700/70 disabled:opacity-50"
+            >
+              <span className="block text-sm text-gray-200">{exportingFormat === option.format ? 'Exporting...' : option.label}</span>
+              <span className="block text-xs text-gray-500">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import { EMPTY_FILTER, UNASSIGNED_OWNER, getFilterOptions, getVisibility, isFilterActive } from '../services/roadmapFilter';
+import type { RoadmapFilter } from '../services/roadmapFilter';
+import { TASK_STATUSES, getTaskStatusStyle, listTasks } from '../services/roadmapTasks';
+import { getPillarColor } from '../services/pillarColors';
+import { SearchIcon, XIcon } from './icons';
+
+interface FilterBarProps {
+  data: RoadmapData;
+  filter: RoadmapFilter;
+  onChange: (filter: RoadmapFilter) => void;
+}
+
+interface FilterMenuOption {
+  value: string;
+  label: string;
+  // Color of a dot in front of the label.
+  dot?: string;
+}
+
+// A dropdown of checkboxes. `selected` holds the checked values.
+const FilterMenu: React.FC<{ label: string; options: FilterMenuOption[]; selected: string[]; onChange: (selected: string[]) => void; activeCount: number }> = ({ label, options, selected, onChange, activeCount }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const toggle = (value: string) => onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={options.length === 0}
+        className={`flex items-center gap-1.5 px-2.5 py-1 text-sm rounded-md transition-colors disabled:opacity-40 ${activeCount > 0 ? 'bg-blue-900/50 text-blue-200' : 'bg-gray-700 hover:bg-gray-600'}`}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        {label}
+        {activeCount > 0 && <span className="rounded-full bg-blue-500/40 px-1.5 text-xs">{activeCount}</span>}
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-60 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40 py-1">
+          <div className="max-h-72 overflow-auto">
+            {options.map(option => (
+              <label key={option.value} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-700/70 cursor-pointer">
+                <input type="checkbox" checked={selected.includes(option.value)} onChange={() => toggle(option.value)} className="accent-blue-500" />
+                {option.dot && <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: option.dot }}></span>}
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end px-3 pt-1 border-t border-gray-700">
+            <button onClick={() => setIsOpen(false)} className="text-xs text-gray-400 hover:text-gray-200 py-1">Done</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FilterBar: React.FC<FilterBarProps> = ({ data, filter, onChange }) => {
+  const { owners, tags } = getFilterOptions(data);
+  const update = (changes: Partial<RoadmapFilter>) => onChange({ ...filter, ...changes });
+
+  const visibility = getVisibility(data, filter);
+  const entries = listTasks(data);
+  const shownCount = entries.filter(entry => visibility.showPillar(entry.pillarId) && visibility.showTimeframe(entry.timeframeId) && visibility.showTask(entry.task)).length;
+  const matchCount = visibility.query ? entries.filter(entry => visibility.isMatch(entry.task)).length : 0;
+  const timeframeLabel = (timeframe: RoadmapData['timeframes'][number]) => [timeframe.date, timeframe.name].filter(Boolean).join(': ');
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-gray-700 bg-gray-800/30 flex-shrink-0 text-sm print:hidden">
+      <div className="relative">
+        <SearchIcon className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 pointer-events-none" />
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search deliverables"
+          className="w-56 bg-gray-900/70 border border-gray-600 rounded-md pl-8 pr-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          aria-label="Search deliverables"
+        />
+      </div>
+      <FilterMenu
+        label="Pillars"
+        // Checked means shown, so new pillars are visible by default.
+        options={data.pillars.map(pillar => ({ value: pillar.id, label: pillar.name, dot: getPillarColor(pillar.color).accent }))}
+        selected={data.pillars.map(p => p.id).filter(id => !filter.hiddenPillarIds.includes(id))}
+        onChange={(shown) => update({ hiddenPillarIds: data.pillars.map(p => p.id).filter(id => !shown.includes(id)) })}
+        activeCount={filter.hiddenPillarIds.filter(id => data.pillars.some(p => p.id === id)).length}
+      />
+      <label className="flex items-center gap-1.5 text-gray-400">
+        From
+        <select
+          value={filter.fromTimeframeId ?? ''}
+          onChange={(e) => update({ fromTimeframeId: e.target.value || null })}
+          className="max-w-[10rem] bg-gray-700 rounded-md px-2 py-1 text-gray-200 focus:outline-none"
+        >
+          <option value="">First timeframe</option>
+          {data.timeframes.map(timeframe => <option key={timeframe.id} value={timeframe.id}>{timeframeLabel(timeframe)}</option>)}
+        </select>
+        to
+        <select
+          value={filter.toTimeframeId ?? ''}
+          onChange={(e) => update({ toTimeframeId: e.target.value || null })}
+          className="max-w-[10rem] bg-gray-700 rounded-md px-2 py-1 text-gray-200 focus:outline-none"
+        >
+          <option value="">Last timeframe</option>
+          {data.timeframes.map(timeframe => <option key={timeframe.id} value={timeframe.id}>{timeframeLabel(timeframe)}</option>)}
+        </select>
+      </label>
+      <FilterMenu
+        label="Status"
+        options={TASK_STATUSES.map(status => ({ value: status, label: getTaskStatusStyle(status).label }))}
+        selected={filter.statuses}
+        onChange={(statuses) => update({ statuses: statuses as RoadmapFilter['statuses'] })}
+        activeCount={filter.statuses.length}
+      />
+      <FilterMenu
+        label="Owner"
+        options={owners.map(owner => ({ value: owner, label: owner === UNASSIGNED_OWNER ? 'Unassigned' : owner }))}
+        selected={filter.owners}
+        onChange={(selected) => update({ owners: selected })}
+        activeCount={filter.owners.length}
+      />
+      <FilterMenu
+        label="Tag"
+        options={tags.map(tag => ({ value: tag, label: tag }))}
+        selected={filter.tags}
+        onChange={(selected) => update({ tags: selected })}
+        activeCount={filter.tags.length}
+      />
+      {(isFilterActive(filter) || filter.query) && (
+        <button onClick={() => onChange(EMPTY_FILTER)} className="flex items-center gap-1 px-2 py-1 text-gray-400 hover:text-gray-200">
+          <XIcon className="w-3.5 h-3.5" />
+          Clear
+        </button>
+      )}
+      <span className="ml-auto text-xs text-gray-500">
+        {visibility.query && `${matchCount} ${matchCount === 1 ? 'match' : 'matches'} · `}
+        {isFilterActive(filter) ? `Showing ${shownCount} of ${entries.length} deliverables` : `${entries.length} deliverables`}
+      </span>
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { RoadmapData, Task } from '../services/geminiService';
+import { scheduleTimeframes, formatDateRange } from '../services/timeframeDates';
+import type { DateRange } from '../services/timeframeDates';
+import { getTaskStatusStyle } from '../services/roadmapTasks';
+import { getPillarColor } from '../services/pillarColors';
+import type { RoadmapVisibility } from '../services/roadmapFilter';
+import HighlightedText from './HighlightedText';
+import { WarningIcon } from './icons';
+
+type GanttZoom = 'month' | 'quarter' | 'year';
+
+interface GanttViewProps {
+  data: RoadmapData;
+  selectedTaskId: string | null;
+  onSelectTask: (taskId: string) => void;
+  conflictingTaskIds: Set<string>;
+  visibility: RoadmapVisibility;
+}
+
+// Pixels per day and months per axis tick for each zoom level.
+const ZOOM_LEVELS: Record<GanttZoom, { label: string; dayWidth: number; months: number }> = {
+  month: { label: 'Month', dayWidth: 5, months: 1 },
+  quarter: { label: 'Quarter', dayWidth: 1.8, months: 3 },
+  year: { label: 'Year', dayWidth: 0.5, months: 12 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LABEL_WIDTH = 180;
+const ROW_HEIGHT = 30;
+const LANE_PADDING = 8;
+
+// Day count rather than milliseconds, so daylight saving changes do not shift the bars.
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+const tickStart = (date: Date, months: number) => new Date(date.getFullYear(), date.getMonth() - (date.getMonth() % months), 1);
+
+const tickLabel = (date: Date, zoom: GanttZoom) => {
+  if (zoom === 'year') return String(date.getFullYear());
+  if (zoom === 'quarter') return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+  return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+interface GanttBar {
+  task: Task;
+  timeframeLabel: string;
+  range: DateRange;
+  row: number;
+}
+
+// Places each deliverable of a pillar in the first row where it does not overlap an earlier one.
+const packBars = (bars: Omit<GanttBar, 'row'>[]): { bars: GanttBar[]; rowCount: number } => {
+  const rowEnds: Date[] = [];
+  const packed = [...bars]
+    .sort((a, b) => a.range.start.getTime() - b.range.start.getTime())
+    .map(bar => {
+      let row = rowEnds.findIndex(end => end <= bar.range.start);
+      if (row === -1) row = rowEnds.length;
+      rowEnds[row] = bar.range.end;
+      return { ...bar, row };
+    });
+  return { bars: packed, rowCount: rowEnds.length };
+};
+
+// Deliverables on a proportional time axis, one swimlane per pillar.
+// Timeframes whose date cannot be read are listed below the chart instead.
+const GanttView: React.FC<GanttViewProps> = ({ data, selectedTaskId, onSelectTask, conflictingTaskIds, visibility }) => {
+  const [zoom, setZoom] = useState<GanttZoom>('quarter');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { dayWidth, months } = ZOOM_LEVELS[zoom];
+  const today = new Date();
+
+  const { scheduled, unscheduled } = useMemo(() => {
+    const schedule = scheduleTimeframes(data);
+    return {
+      scheduled: schedule.scheduled.filter(({ timeframe }) => visibility.showTimeframe(timeframe.id)),
+      unscheduled: schedule.unscheduled.filter(timeframe => visibility.showTimeframe(timeframe.id)),
+    };
+  }, [data, visibility]);
+
+  const domain = useMemo((): DateRange | null => {
+    if (scheduled.length === 0) return null;
+    const start = new Date(Math.min(...scheduled.map(s => s.range.start.getTime())));
+    const end = new Date(Math.max(...scheduled.map(s => s.range.end.getTime())) - 1);
+    const last = tickStart(end, months);
+    return { start: tickStart(start, months), end: new Date(last.getFullYear(), last.getMonth() + months, 1) };
+  }, [scheduled, months]);
+
+  const lanes = useMemo(() => data.pillars.filter(pillar => visibility.showPillar(pillar.id)).map(pillar => {
+    const bars = scheduled.flatMap(({ timeframe, range }) =>
+      (timeframe.deliverables.find(d => d.pillarId === pillar.id)?.tasks ?? []).filter(visibility.showTask).map(task => ({
+        task,
+        timeframeLabel: [timeframe.name, timeframe.date].filter(Boolean).join(' · '),
+        range,
+      })));
+    return { pillar, color: getPillarColor(pillar.color), ...packBars(bars) };
+  }), [data.pillars, scheduled, visibility]);
+
+  const x = (date: Date) => (domain ? daysBetween(domain.start, date) * dayWidth : 0);
+  const chartWidth = domain ? x(domain.end) : 0;
+  const showToday = !!domain && today >= domain.start && today < domain.end;
+
+  const ticks = useMemo(() => {
+    if (!domain) return [];
+    const result: Date[] = [];
+    for (let date = domain.start; date < domain.end; date = new Date(date.getFullYear(), date.getMonth() + months, 1)) result.push(date);
+    return result;
+  }, [domain, months]);
+
+  // Bring today into view when the chart opens or the zoom changes.
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (scroller && showToday) scroller.scrollLeft = Math.max(0, x(today) - (scroller.clientWidth - LABEL_WIDTH) / 2);
+  }, [zoom, showToday]);
+
+  return (
+    <div className="flex flex-col h-full p-8">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div className="min-w-0">
+          <h2 className="text-2xl sm:text-3xl font-bold">{data.title}</h2>
+          {data.subtitle && <p className="text-gray-400">{data.subtitle}</p>}
+        </div>
+        <div className="flex items-center bg-gray-700 rounded-md p-0.5 flex-shrink-0" role="group" aria-label="Zoom">
+          {(Object.keys(ZOOM_LEVELS) as GanttZoom[]).map(level => (
+            <button
+              key={level}
+              onClick={() => setZoom(level)}
+              className={`px-3 py-1 text-sm rounded ${zoom === level ? 'bg-gray-600 shadow' : 'opacity-70 hover:bg-gray-600/50'}`}
+              aria-pressed={zoom === level}
+            >
+              {ZOOM_LEVELS[level].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!domain ? (
+        <p className="text-gray-400">
+          None of the timeframe dates could be read. Use dates such as "2025 - Q1 & Q2", "H2 2026", "Jan - Mar 2025" or "2025-01-15 - 2025-03-31".
+        </p>
+      ) : (
+        <div ref={scrollRef} className="flex-1 min-h-0 overflow-auto border border-gray-700 rounded-lg">
+          <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+            {/* Axis */}
+            <div className="sticky top-0 z-20 flex h-10 bg-gray-800 border-b border-gray-700">
+              <div className="sticky left-0 z-10 flex-shrink-0 bg-gray-800 border-r border-gray-700" style={{ width: LABEL_WIDTH }} />
+              <div className="relative flex-shrink-0" style={{ width: chartWidth }}>
+                {ticks.map(tick => (
+                  <span key={tick.getTime()} className="absolute top-0 bottom-0 flex items-center pl-2 text-xs font-semibold text-gray-400 whitespace-nowrap border-l border-gray-700" style={{ left: x(tick) }}>
+                    {tickLabel(tick, zoom)}
+                  </span>
+                ))}
+                {showToday && (
+                  <span className="absolute bottom-0 -translate-x-1/2 rounded-t bg-red-500 px-1.5 text-[10px] font-semibold text-white" style={{ left: x(today) }}>
+                    Today
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {/* Swimlanes */}
+            <div className="relative">
+              <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: chartWidth }} aria-hidden="true">
+                {ticks.map(tick => <div key={tick.getTime()} className="absolute top-0 bottom-0 border-l border-gray-800" style={{ left: x(tick) }} />)}
+                {showToday && <div className="absolute top-0 bottom-0 border-l-2 border-red-500/80 z-10" style={{ left: x(today) }} />}
+              </div>
+              {lanes.map(lane => (
+                <div key={lane.pillar.id} className="flex border-b border-gray-700/70">
+                  <div className="sticky left-0 z-10 flex-shrink-0 flex items-start gap-2 px-3 py-2 bg-gray-900 border-r border-gray-700" style={{ width: LABEL_WIDTH }}>
+                    <span className="mt-1.5 w-2.5 h-2.5 flex-shrink-0 rounded-full" style={{ backgroundColor: lane.color.accent }}></span>
+                    <span className="text-sm font-semibold text-gray-300 break-words min-w-0">{lane.pillar.name}</span>
+                  </div>
+                  <div className="relative flex-shrink-0" style={{ width: chartWidth, height: Math.max(1, lane.rowCount) * ROW_HEIGHT + LANE_PADDING * 2 }}>
+                    {lane.bars.map(({ task, timeframeLabel, range, row }) => {
+                      const left = x(range.start);
+                      return (
+                        <button
+                          key={task.id}
+                          onClick={() => onSelectTask(task.id)}
+                          title={`${task.title}\n${timeframeLabel} (${formatDateRange(range)})`}
+                          className={`absolute flex items-center gap-1.5 overflow-hidden rounded border-l-4 px-2 text-left text-xs text-gray-200 hover:brightness-125 ${task.id === selectedTaskId ? 'ring-2 ring-blue-400' : ''} ${visibility.query && !visibility.isMatch(task) ? 'opacity-40' : ''}`}
+                          style={{ backgroundColor: lane.color.tint, borderColor: lane.color.accent, left: left + 1, width: Math.max(x(range.end) - left - 2, 8), top: LANE_PADDING + row * ROW_HEIGHT, height: ROW_HEIGHT - 6 }}
+                        >
+                          <span className="absolute inset-y-0 left-0 bg-gray-100/10 pointer-events-none" style={{ width: `${task.progress}%` }} aria-hidden="true" />
+                          {task.status !== 'planned' && <span className="relative w-2 h-2 flex-shrink-0 rounded-full" style={{ backgroundColor: getTaskStatusStyle(task.status).hex }} />}
+                          <span className={`relative truncate ${task.status === 'done' ? 'line-through decoration-gray-500' : ''}`}><HighlightedText text={task.title} query={visibility.query} /></span>
+                          {conflictingTaskIds.has(task.id) && <WarningIcon className="relative w-3.5 h-3.5 flex-shrink-0 text-amber-400" />}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {unscheduled.length > 0 && (
+        <p className="mt-3 text-xs text-gray-500">
+          Not shown, because their dates could not be read: {unscheduled.map(t => t.name || t.date || 'Untitled timeframe').join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GanttView;
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import Spinner from './Spinner';
+import type { RoadmapData } from '../services/geminiService';
+import { getPillarColor } from '../services/pillarColors';
+
+interface GenerationPreviewProps {
+  // The part of the roadmap received so far, or null before the first usable chunk.
+  data: RoadmapData | null;
+  onCancel: () => void;
+}
+
+// Shown while the AI response streams in: pillars and timeframes appear as soon as they arrive.
+const GenerationPreview: React.FC<GenerationPreviewProps> = ({ data, onCancel }) => {
+  const hasContent = !!data && (!!data.title || data.pillars.length > 0 || data.timeframes.length > 0);
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="min-h-full flex flex-col items-center justify-center p-4 sm:p-8 gap-6">
+        <div className="flex items-center gap-4">
+          <Spinner />
+          <div>
+            <p className="text-lg text-gray-400">AI is architecting your roadmap...</p>
+            <p className="text-sm text-gray-500">
+              {hasContent
+                ? `${data!.pillars.length} pillar(s) and ${data!.timeframes.length} timeframe(s) received so far.`
+                : 'This may take a moment.'}
+            </p>
+          </div>
+        </div>
+
+        {hasContent && (
+          <div className="w-full max-w-5xl bg-gray-800/40 border border-gray-700 rounded-2xl p-6">
+            {data!.title && <h2 className="text-2xl font-bold text-center text-gray-100">{data!.title}</h2>}
+            {data!.subtitle && <p className="text-center text-gray-400 mt-1">{data!.subtitle}</p>}
+
+            {data!.pillars.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-2 mt-6">
+                {data!.pillars.map(pillar => {
+                  const color = getPillarColor(pillar.color);
+                  return (
+                    <span key={pillar.id} className="flex items-center gap-2 text-sm px-3 py-1 rounded-full border-l-4" style={{ backgroundColor: color.tint, borderColor: color.accent }}>
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color.accent }}></span>
+                      {pillar.name}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+
+            {data!.timeframes.length > 0 && (
+              <div className="flex gap-4 overflow-x-auto mt-6 pb-2">
+                {data!.timeframes.map(timeframe => (
+                  <div key={timeframe.id} className="flex-shrink-0 w-60 bg-gray-800/60 rounded-lg p-3">
+                    <p className="text-xs font-semibold text-gray-400">{timeframe.date}</p>
+                    <h3 className="font-semibold text-gray-200 mb-2">{timeframe.name}</h3>
+                    <ul className="space-y-1 text-sm text-gray-400">
+                      {timeframe.deliverables.flatMap(deliverable => {
+                        const pillar = data!.pillars.find(p => p.id === deliverable.pillarId);
+                        return deliverable.tasks.map(task => (
+                          <li key={task.id} className="flex gap-2">
+                            <span className={`w-2 h-2 mt-1.5 rounded-full flex-shrink-0 ${pillar ? '' : 'bg-gray-500'}`} style={pillar ? { backgroundColor: getPillarColor(pillar.color).accent } : undefined}></span>
+                            <span>{task.title}</span>
+                          </li>
+                        ));
+                      })}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <button onClick={onCancel} className="px-6 py-2 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationPreview;
@@ -3,16 +3,39 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { SparkleIcon } from './icons';
+import { THEMES } from '../services/themes';
+import type { ThemeId } from '../services/themes';
+import { SparkleIcon, SettingsIcon } from './icons';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenSettings?: () => void;
+  theme: ThemeId;
+  onThemeChange: (theme: ThemeId) => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ onOpenSettings, theme, onThemeChange }) => {
   return (
-    <header className="w-full py-4 px-8 border-b border-gray-700 bg-gray-800/30 backdrop-blur-sm sticky top-0 z-50" style={{ height: '64px' }}>
-      <div className="flex items-center justify-center gap-3">
+    <header className="w-full py-4 px-8 border-b border-gray-700 bg-gray-800/30 backdrop-blur-sm sticky top-0 z-50 print:hidden" style={{ height: '64px' }}>
+      <div className="relative flex items-center justify-center gap-3">
           <SparkleIcon className="w-6 h-6 text-blue-400" />
           <h1 className="text-xl font-bold tracking-tight text-gray-100">
             AI Roadmap Architect
           </h1>
+          <div className="absolute right-0 flex items-center gap-1">
+            <select
+              value={theme}
+              onChange={(e) => onThemeChange(e.target.value as ThemeId)}
+              className="bg-transparent text-sm text-gray-400 hover:text-gray-200 rounded-md px-1 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+              aria-label="Theme"
+            >
+              {THEMES.map(option => <option key={option.id} value={option.id} className="bg-gray-800">{option.label}</option>)}
+            </select>
+            {onOpenSettings && (
+              <button onClick={onOpenSettings} className="p-2 rounded-md text-gray-400 hover:text-gray-200 hover:bg-gray-700" aria-label="AI provider settings">
+                <SettingsIcon className="w-5 h-5" />
+              </button>
+            )}
+          </div>
       </div>
     </header>
   );
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  // Case-insensitive; nothing is highlighted when empty.
+  query: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Text with each occurrence of the search query marked.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  if (!query) return <>{text}</>;
+  // Splitting on a capturing group keeps the matches at the odd indexes.
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) => (index % 2 === 1
+        ? <mark key={index} className="bg-yellow-400/30 text-inherit rounded-sm">{part}</mark>
+        : part))}
+    </>
+  );
+};
+
+export default HighlightedText;
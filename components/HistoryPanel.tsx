@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { HistoryEntry } from '../hooks/useRoadmapHistory';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  onJumpTo: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(undefined, { timeStyle: 'medium' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJumpTo, onClose }) => {
+  return (
+    <div className="absolute right-0 top-full mt-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-200">Edit History</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-200">Close</button>
+      </div>
+      <ol className="max-h-80 overflow-auto py-1">
+        {/* Newest entries first; entries after the current one can still be redone. */}
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <li key={`${index}-${entry.timestamp}`}>
+            <button
+              onClick={() => onJumpTo(index)}
+              className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-sm hover:bg-gray-700/70 ${
+                index === currentIndex ? 'bg-blue-900/40 text-blue-200' : index > currentIndex ? 'text-gray-500 italic' : 'text-gray-300'
+              }`}
+              aria-current={index === currentIndex}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-xs text-gray-500 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import { guessColumnMapping, tableToRoadmap, titleFromFileName } from '../services/roadmapImport';
+import type { ColumnMapping, ImportField, ImportTable } from '../services/roadmapImport';
+import { XIcon } from './icons';
+
+interface ImportMappingModalProps {
+  fileName: string;
+  table: ImportTable;
+  onImport: (data: RoadmapData) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { field: ImportField; label: string; hint: string }[] = [
+  { field: 'task', label: 'Task', hint: 'One deliverable per row.' },
+  { field: 'pillar', label: 'Pillar', hint: 'Rows without a pillar go to "Unassigned".' },
+  { field: 'timeframe', label: 'Timeframe', hint: 'Timeframe name, e.g. a release or phase.' },
+  { field: 'date', label: 'Date', hint: 'Date or period shown above the timeframe.' },
+  { field: 'status', label: 'Status', hint: 'Optional, e.g. "Done", "In Progress" or "Blocked".' },
+  { field: 'owner', label: 'Owner', hint: 'Optional.' },
+];
+
+const PREVIEW_ROWS = 5;
+
+const ImportMappingModal: React.FC<ImportMappingModalProps> = ({ fileName, table, onImport, onClose }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(table.headers));
+  const [title, setTitle] = useState(() => titleFromFileName(fileName));
+  const [error, setError] = useState<string | null>(null);
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+    setError(null);
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(tableToRoadmap(table, mapping, title.trim()));
+    } catch (e: any) {
+      setError(e.message || 'The file could not be imported.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-title"
+        className="w-full max-w-3xl bg-gray-800 border border-gray-700 rounded-2xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 id="import-title" className="text-lg font-semibold text-gray-100">Import {fileName}</h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-700" aria-label="Close import">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4 flex flex-col gap-4">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-gray-400">Roadmap title</span>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="bg-gray-900/70 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {FIELDS.map(({ field, label, hint }) => (
+              <label key={field} className="flex flex-col gap-1 text-sm">
+                <span className="text-gray-400">{label} column</span>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => updateMapping(field, e.target.value)}
+                  className="bg-gray-900/70 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="">(none)</option>
+                  {table.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-500">{hint}</span>
+              </label>
+            ))}
+          </div>
+          <div className="overflow-auto max-h-48 border border-gray-700 rounded-lg">
+            <table className="w-full text-xs text-left">
+              <thead className="bg-gray-900/70 text-gray-400 sticky top-0">
+                <tr>{table.headers.map((header, index) => <th key={index} className="px-2 py-1 font-semibold whitespace-nowrap">{header}</th>)}</tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-gray-700">
+                    {table.headers.map((_, index) => <td key={index} className="px-2 py-1 truncate max-w-[12rem]">{row[index]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">{table.rows.length} row(s). The first row is used as the header.</p>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">Cancel</button>
+          <button onClick={handleImport} className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors">Import</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportMappingModal;
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import { describeOperation } from '../services/roadmapPatch';
+import type { PatchOperation, RoadmapPatch } from '../services/roadmapPatch';
+import { SparkleIcon } from './icons';
+
+interface PatchPreviewProps {
+  data: RoadmapData;
+  command: string;
+  patch: RoadmapPatch;
+  onApply: (operations: PatchOperation[]) => void;
+  onDiscard: () => void;
+}
+
+// The edits proposed for an AI command. Every operation starts accepted and can be unchecked.
+const PatchPreview: React.FC<PatchPreviewProps> = ({ data, command, patch, onApply, onDiscard }) => {
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const accepted = patch.operations.filter((_, index) => !rejected.has(index));
+
+  const toggle = (index: number) => setRejected(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    return next;
+  });
+
+  return (
+    <div className="absolute left-3 right-3 top-full mt-2 max-w-3xl bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40" role="dialog" aria-label="Proposed edits">
+      <div className="px-4 py-3 border-b border-gray-700">
+        <p className="flex items-center gap-2 text-sm font-semibold text-gray-200">
+          <SparkleIcon className="w-4 h-4 text-blue-400" />
+          <span className="truncate">"{command}"</span>
+        </p>
+        {patch.summary && <p className="text-sm text-gray-400 mt-1">{patch.summary}</p>}
+      </div>
+      {patch.operations.length > 0 ? (
+        <ul className="max-h-80 overflow-auto py-1">
+          {patch.operations.map((op, index) => (
+            <li key={index}>
+              <label className="flex items-start gap-2 px-4 py-1.5 text-sm text-gray-300 hover:bg-gray-700/70 cursor-pointer">
+                <input type="checkbox" checked={!rejected.has(index)} onChange={() => toggle(index)} className="accent-blue-500 mt-0.5" />
+                <span className={rejected.has(index) ? 'line-through text-gray-500' : ''}>{describeOperation(op, data, patch.operations)}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="px-4 py-3 text-sm text-gray-500 italic">No edits were proposed.</p>
+      )}
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-t border-gray-700">
+        <span className="text-xs text-gray-500">{accepted.length} of {patch.operations.length} selected · applied as one undo step</span>
+        <div className="flex gap-2">
+          <button onClick={onDiscard} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md">Discard</button>
+          <button
+            onClick={() => onApply(accepted)}
+            disabled={accepted.length === 0}
+            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Apply selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PatchPreview;
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { getPaletteColor } from '../services/pillarColors';
+import { CheckIcon } from './icons';
+
+interface PillarColorPickerProps {
+  pillarName: string;
+  color: string;
+  // Left out to only show the color, e.g. in the read-only viewer.
+  onChange?: (color: string) => void;
+  // Classes for the color dot that opens the picker.
+  className?: string;
+}
+
+const SWATCH_COUNT = 12;
+
+// The pillar's color dot; clicking it opens palette swatches and a custom color input.
+const PillarColorPicker: React.FC<PillarColorPickerProps> = ({ pillarName, color, onChange, className = 'w-3 h-3' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const customInputRef = useRef<HTMLInputElement>(null);
+  const swatches = Array.from({ length: SWATCH_COUNT }, (_, index) => getPaletteColor(index));
+
+  // The native "change" event fires once the color dialog is confirmed, unlike React's onChange,
+  // which fires while dragging and would add an undo step for each intermediate color.
+  useEffect(() => {
+    const input = customInputRef.current;
+    if (!input) return;
+    const handleChange = () => onChange?.(input.value);
+    input.addEventListener('change', handleChange);
+    return () => input.removeEventListener('change', handleChange);
+  }, [isOpen, onChange]);
+
+  if (!onChange) return <span className={`rounded-full flex-shrink-0 ${className}`} style={{ backgroundColor: color }} />;
+
+  return (
+    <span className="relative inline-flex flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`rounded-full ring-offset-2 ring-offset-gray-900 hover:ring-2 hover:ring-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-400 ${className}`}
+        style={{ backgroundColor: color }}
+        aria-label={`Change the color of ${pillarName}`}
+        aria-expanded={isOpen}
+        title="Change color"
+      />
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-44 p-2 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40 font-normal">
+          <div className="grid grid-cols-6 gap-1.5">
+            {swatches.map(swatch => (
+              <button
+                key={swatch}
+                onClick={() => {
+                  onChange(swatch);
+                  setIsOpen(false);
+                }}
+                className="w-5 h-5 rounded-full flex items-center justify-center hover:scale-110 transition-transform"
+                style={{ backgroundColor: swatch }}
+                aria-label={`Use color ${swatch}`}
+              >
+                {swatch === color && <CheckIcon className="w-3 h-3 text-black" />}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2 mt-2 pt-2 border-t border-gray-700 text-xs text-gray-400">
+            Custom
+            <input
+              ref={customInputRef}
+              type="color"
+              defaultValue={color}
+              className="w-8 h-6 bg-transparent cursor-pointer"
+            />
+          </label>
+        </div>
+      )}
+    </span>
+  );
+};
+
+export default PillarColorPicker;
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import TaskStatusBadge from './TaskStatusBadge';
+import { getPillarColor } from '../services/pillarColors';
+import { ChevronLeftIcon, ChevronRightIcon, XIcon } from './icons';
+
+interface PresentationViewProps {
+  data: RoadmapData;
+  onExit: () => void;
+}
+
+// Walks through the roadmap one timeframe per slide, after a title slide.
+const PresentationView: React.FC<PresentationViewProps> = ({ data, onExit }) => {
+  const [slideIndex, setSlideIndex] = useState(0);
+  const slideCount = data.timeframes.length + 1;
+
+  const goTo = (index: number) => setSlideIndex(Math.max(0, Math.min(slideCount - 1, index)));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+          e.preventDefault();
+          setSlideIndex(index => Math.min(slideCount - 1, index + 1));
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+          e.preventDefault();
+          setSlideIndex(index => Math.max(0, index - 1));
+          break;
+        case 'Home':
+          setSlideIndex(0);
+          break;
+        case 'End':
+          setSlideIndex(slideCount - 1);
+          break;
+        case 'Escape':
+          onExit();
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [slideCount, onExit]);
+
+  const timeframe = slideIndex > 0 ? data.timeframes[slideIndex - 1] : null;
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-900 overflow-hidden">
+      <div className="flex-1 flex flex-col items-center justify-center p-12 overflow-auto">
+        {!timeframe ? (
+          <div className="text-center">
+            <h2 className="text-5xl font-bold mb-4">{data.title}</h2>
+            <p className="text-2xl text-gray-400 mb-12">{data.subtitle}</p>
+            <div className="flex flex-wrap justify-center gap-4">
+              {data.pillars.map(pillar => {
+                const color = getPillarColor(pillar.color);
+                return (
+                  <span key={pillar.id} className="flex items-center gap-2 px-4 py-2 rounded-lg text-lg border-l-4" style={{ backgroundColor: color.tint, borderColor: color.accent }}>
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color.accent }}></span>
+                    {pillar.name}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="w-full max-w-6xl">
+            <p className="text-xl font-semibold text-gray-400 text-center">{timeframe.date}</p>
+            <h2 className="text-4xl font-bold text-center mt-2 mb-10">{timeframe.name}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {data.pillars.map(pillar => {
+                const tasks = timeframe.deliverables.find(d => d.pillarId === pillar.id)?.tasks ?? [];
+                if (tasks.length === 0) return null;
+                const color = getPillarColor(pillar.color);
+                return (
+                  <div key={pillar.id} className="p-5 rounded-lg border-l-4" style={{ backgroundColor: color.tint, borderColor: color.accent }}>
+                    <h3 className="text-xl font-semibold text-gray-200 mb-3 flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color.accent }}></span>
+                      {pillar.name}
+                    </h3>
+                    <ul className="list-disc list-inside text-lg text-gray-300 space-y-2">
+                      {tasks.map(task => (
+                        <li key={task.id}>
+                          {task.title}
+                          {task.status !== 'planned' && <TaskStatusBadge status={task.status} className="ml-2 text-xs" />}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Slide navigation */}
+      <div className="flex items-center justify-between px-6 py-3 text-gray-400 flex-shrink-0">
+        <button onClick={onExit} className="flex items-center gap-1 text-sm hover:text-gray-200" aria-label="Exit presentation">
+          <XIcon className="w-4 h-4" />
+          Exit (Esc)
+        </button>
+        <div className="flex items-center gap-3">
+          <button onClick={() => goTo(slideIndex - 1)} disabled={slideIndex === 0} className="p-2 rounded-full hover:bg-gray-700 disabled:opacity-30" aria-label="Previous slide">
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <div className="flex gap-1.5">
+            {Array.from({ length: slideCount }, (_, index) => (
+              <button
+                key={index}
+                onClick={() => goTo(index)}
+                className={`w-2.5 h-2.5 rounded-full ${index === slideIndex ? 'bg-gray-200' : 'bg-gray-600 hover:bg-gray-500'}`}
+                aria-label={`Go to slide ${index + 1}`}
+                aria-current={index === slideIndex}
+              />
+            ))}
+          </div>
+          <button onClick={() => goTo(slideIndex + 1)} disabled={slideIndex === slideCount - 1} className="p-2 rounded-full hover:bg-gray-700 disabled:opacity-30" aria-label="Next slide">
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <span className="text-sm tabular-nums">{slideIndex + 1} / {slideCount}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PresentationView;
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { REVIEW_FINDING_LABELS } from '../services/roadmapReview';
+import type { ReviewFinding, RoadmapReview } from '../services/roadmapReview';
+import { LightbulbIcon, XIcon } from './icons';
+
+interface ReviewBarProps {
+  review: RoadmapReview;
+  // Findings about the roadmap as a whole; the others are shown on the cells they concern.
+  generalFindings: ReviewFinding[];
+  onDismiss: (findingId: string) => void;
+  onClose: () => void;
+}
+
+// The result of "Analyze": the model's summary and the findings that belong to no cell.
+const ReviewBar: React.FC<ReviewBarProps> = ({ review, generalFindings, onDismiss, onClose }) => {
+  const attachedCount = review.findings.length - generalFindings.length;
+
+  return (
+    <div className="px-3 py-2 border-b border-gray-700 bg-amber-900/20 flex-shrink-0 text-sm print:hidden">
+      <div className="flex items-start gap-2">
+        <LightbulbIcon className="w-4 h-4 mt-0.5 text-amber-300 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-gray-300">
+            {review.summary || 'Review finished.'}{' '}
+            <span className="text-gray-500">
+              {review.findings.length === 0
+                ? 'No findings.'
+                : `${review.findings.length} finding(s)${attachedCount > 0 ? `, ${attachedCount} shown on the roadmap` : ''}.`}
+            </span>
+          </p>
+          {generalFindings.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {generalFindings.map(finding => (
+                <li key={finding.id} className="group flex items-start gap-2 text-gray-400">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-amber-300 mt-0.5">{REVIEW_FINDING_LABELS[finding.kind]}</span>
+                  <span className="flex-1">{finding.message}</span>
+                  <button onClick={() => onDismiss(finding.id)} className="p-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-500 hover:text-gray-200" aria-label="Dismiss finding">
+                    <XIcon className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-200 rounded" aria-label="Close review" title="Remove all review notes">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewBar;
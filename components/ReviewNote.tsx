@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { REVIEW_FINDING_LABELS } from '../services/roadmapReview';
+import type { ReviewFinding } from '../services/roadmapReview';
+import { LightbulbIcon, XIcon } from './icons';
+
+interface ReviewNoteProps {
+  findings: ReviewFinding[];
+  // Left out when findings cannot be dismissed.
+  onDismiss?: (findingId: string) => void;
+  className?: string;
+}
+
+// A review annotation on a cell or heading: a bulb with the number of findings that opens them.
+const ReviewNote: React.FC<ReviewNoteProps> = ({ findings, onDismiss, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (findings.length === 0) return null;
+
+  return (
+    <span className={`relative inline-flex font-normal text-left ${className}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-xs bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+        aria-label={`${findings.length} review finding(s)`}
+        aria-expanded={isOpen}
+        title={findings.map(f => `${REVIEW_FINDING_LABELS[f.kind]}: ${f.message}`).join('\n')}
+      >
+        <LightbulbIcon className="w-3.5 h-3.5" />
+        {findings.length}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40 py-1">
+          {findings.map(finding => (
+            <div key={finding.id} className="flex items-start gap-2 px-3 py-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <span className="text-xs font-semibold uppercase tracking-wide text-amber-300">{REVIEW_FINDING_LABELS[finding.kind]}</span>
+                <p className="text-gray-300">{finding.message}</p>
+              </div>
+              {onDismiss && (
+                <button onClick={() => onDismiss(finding.id)} className="p-0.5 text-gray-500 hover:text-gray-200" aria-label="Dismiss finding" title="Dismiss">
+                  <XIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </span>
+  );
+};
+
+export default ReviewNote;
@@ -0,0 +1,795 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
+import type { CommentTarget, CommentThread, RoadmapData, Task } from '../services/geminiService';
+import { splitTimeframeHeading } from '../services/roadmapMarkdown';
+import * as ops from '../services/roadmapOperations';
+import type { TaskLocation, TaskChanges } from '../services/roadmapOperations';
+import { getTaskStatusStyle, listTasks } from '../services/roadmapTasks';
+import { findDependencyConflicts } from '../services/roadmapDependencies';
+import { countOpenComments } from '../services/roadmapComments';
+import type { CellRef, Collaborator } from '../services/collab/collabSession';
+import { getPillarColor } from '../services/pillarColors';
+import { NO_ANNOTATIONS } from '../services/roadmapReview';
+import type { ReviewAnnotations } from '../services/roadmapReview';
+import type { RoadmapVisibility } from '../services/roadmapFilter';
+import TaskStatusBadge from './TaskStatusBadge';
+import ReviewNote from './ReviewNote';
+import HighlightedText from './HighlightedText';
+import PillarColorPicker from './PillarColorPicker';
+import CollaboratorAvatars from './CollaboratorAvatars';
+import CommentNote from './CommentNote';
+import type { CommentThreadsProps } from './CommentThreads';
+import { ChevronLeftIcon, ChevronRightIcon, PlusIcon, XIcon, WarningIcon, CommentIcon } from './icons';
+
+// --- Pillar & Timeline Views ---
+// The roadmap as the editor shows it, and as the embeddable viewer (viewer/) shows it. Without
+// edit actions the views are read-only; comments and collaboration only appear when given.
+
+// The editing operations exposed to the views. Each one produces a new RoadmapData.
+export interface RoadmapEditActions {
+  updateInfo: (changes: { title?: string; subtitle?: string }) => void;
+  addTask: (timeframeId: string, pillarId: string, text: string) => void;
+  updateTask: (location: TaskLocation, changes: TaskChanges) => void;
+  deleteTask: (location: TaskLocation) => void;
+  moveTask: (from: TaskLocation, to: TaskLocation) => void;
+  addDependency: (taskId: string, dependencyId: string) => void;
+  removeDependency: (taskId: string, dependencyId: string) => void;
+  addPillar: (name: string) => void;
+  renamePillar: (pillarId: string, name: string) => void;
+  setPillarColor: (pillarId: string, color: string) => void;
+  deletePillar: (pillarId: string) => void;
+  movePillar: (pillarId: string, toIndex: number) => void;
+  addTimeframe: (date: string, name: string) => void;
+  updateTimeframe: (timeframeId: string, changes: { date?: string; name?: string }) => void;
+  deleteTimeframe: (timeframeId: string) => void;
+  moveTimeframe: (timeframeId: string, toIndex: number) => void;
+}
+
+// The comment threads and how to edit them.
+export interface CommentContext {
+  threadsOf: (target: CommentTarget) => CommentThread[];
+  // The name new comments are written under.
+  author: string;
+  // Names that can be @mentioned.
+  people: string[];
+  addComment: (target: CommentTarget, text: string) => void;
+  replyToThread: (threadId: string, text: string) => void;
+  setThreadResolved: (threadId: string, resolved: boolean) => void;
+  deleteComment: (threadId: string, commentId: string) => void;
+  // Opens a deliverable's details at its comments.
+  onOpenTask: (taskId: string) => void;
+}
+
+export interface RoadmapViewProps {
+  data: RoadmapData;
+  // Left out to show the roadmap read-only.
+  actions?: RoadmapEditActions;
+  // The deliverable shown in the detail drawer.
+  selectedTaskId?: string | null;
+  // Left out when deliverables have no details to open.
+  onSelectTask?: (taskId: string) => void;
+  // Deliverables that depend on something scheduled in a later timeframe.
+  conflictingTaskIds: Set<string>;
+  // What the filter bar hides and highlights.
+  visibility: RoadmapVisibility;
+  // Findings of the last "Analyze" run.
+  annotations?: ReviewAnnotations;
+  onDismissFinding?: (findingId: string) => void;
+  // The others in the collaboration room who are editing a cell.
+  editorsOf?: (timeframeId: string, pillarId: string) => Collaborator[];
+  onFocusCell?: (cell: CellRef | null) => void;
+  comments?: CommentContext;
+}
+
+// Where a deliverable is, e.g. "Platform · 2026 - Q1: Foundations".
+export const describeTaskLocation = (data: RoadmapData, location: TaskLocation) => {
+  const pillar = data.pillars.find(p => p.id === location.pillarId);
+  const timeframe = data.timeframes.find(t => t.id === location.timeframeId);
+  return [pillar?.name, timeframe && (timeframe.name ? `${timeframe.date}: ${timeframe.name}` : timeframe.date)].filter(Boolean).join(' · ');
+};
+
+const describeTaskChange = (changes: TaskChanges) => {
+  if (changes.title !== undefined) return `Edit "${changes.title}"`;
+  if (changes.status !== undefined) return `Mark deliverable as ${getTaskStatusStyle(changes.status).label.toLowerCase()}`;
+  const field = Object.keys(changes)[0] ?? 'details';
+  return `Edit deliverable ${field === 'dependsOn' ? 'dependencies' : field}`;
+};
+
+/**
+ * The edit actions, each applied through `applyEdit` with a label for the edit history.
+ * `uniqueId` adjusts the IDs of new items, e.g. so they do not clash with those of collaborators.
+ */
+export const createEditActions = (
+  applyEdit: (label: string, update: (current: RoadmapData) => RoadmapData) => void,
+  uniqueId: (id: string) => string = id => id,
+): RoadmapEditActions => ({
+  updateInfo: (changes) => applyEdit(changes.title !== undefined ? 'Edit title' : 'Edit subtitle', d => ops.updateRoadmapInfo(d, changes)),
+  addTask: (timeframeId, pillarId, text) => applyEdit(`Add "${text}"`, d => ops.addTask(d, timeframeId, pillarId, text, uniqueId(ops.nextTaskId(d)))),
+  updateTask: (location, changes) => applyEdit(describeTaskChange(changes), d => ops.updateTask(d, location, changes)),
+  deleteTask: (location) => applyEdit('Delete deliverable', d => ops.deleteTask(d, location)),
+  moveTask: (from, to) => applyEdit('Move deliverable', d => ops.moveTask(d, from, to)),
+  addDependency: (taskId, dependencyId) => applyEdit('Add dependency', d => ops.addDependency(d, taskId, dependencyId)),
+  removeDependency: (taskId, dependencyId) => applyEdit('Remove dependency', d => ops.removeDependency(d, taskId, dependencyId)),
+  addPillar: (name) => applyEdit(`Add pillar "${name}"`, d => ops.addPillar(d, name, uniqueId(ops.nextPillarId(d)))),
+  renamePillar: (pillarId, name) => applyEdit(`Rename pillar to "${name}"`, d => ops.renamePillar(d, pillarId, name)),
+  setPillarColor: (pillarId, color) => applyEdit('Change pillar color', d => ops.setPillarColor(d, pillarId, color)),
+  deletePillar: (pillarId) => applyEdit('Delete pillar', d => ops.deletePillar(d, pillarId)),
+  movePillar: (pillarId, toIndex) => applyEdit('Reorder pillars', d => ops.movePillar(d, pillarId, toIndex)),
+  addTimeframe: (date, name) => applyEdit(`Add timeframe "${name || date}"`, d => ops.addTimeframe(d, date, name, uniqueId(ops.nextTimeframeId(d)))),
+  updateTimeframe: (timeframeId, changes) => applyEdit('Edit timeframe', d => ops.updateTimeframe(d, timeframeId, changes)),
+  deleteTimeframe: (timeframeId) => applyEdit('Delete timeframe', d => ops.deleteTimeframe(d, timeframeId)),
+  moveTimeframe: (timeframeId, toIndex) => applyEdit('Reorder timeframes', d => ops.moveTimeframe(d, timeframeId, toIndex)),
+});
+
+const TASK_DRAG_TYPE = 'application/x-roadmap-task';
+
+// Without onSave, e.g. in the read-only viewer, the text is shown as is.
+const EditableText: React.FC<{ text: string; onSave?: (newText: string) => void; placeholder?: string; className?: string }> = ({ text, onSave, placeholder, className = '' }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [editText, setEditText] = useState(text);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isEditing) {
+            inputRef.current?.focus();
+            inputRef.current?.select();
+        }
+    }, [isEditing]);
+    
+    useEffect(() => {
+        setEditText(text);
+    }, [text]);
+
+    const handleSave = () => {
+        if (editText.trim() && editText.trim() !== text) {
+            onSave?.(editText.trim());
+        }
+        setIsEditing(false);
+    };
+
+    if (!onSave) return <span className={className}>{text}</span>;
+
+    if (isEditing) {
+        return (
+            <input
+                ref={inputRef}
+                type="text"
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onBlur={handleSave}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSave();
+                    if (e.key === 'Escape') {
+                        setEditText(text);
+                        setIsEditing(false);
+                    }
+                }}
+                className={`w-full bg-transparent border-b border-blue-400 focus:outline-none ${className}`}
+            />
+        );
+    }
+
+    return (
+        <span onClick={() => setIsEditing(true)} className={`cursor-pointer hover:bg-gray-700/50 rounded px-1 -mx-1 ${className}`}>
+            {text || <span className="italic text-gray-500">{placeholder}</span>}
+        </span>
+    );
+};
+
+const AddItemInput: React.FC<{ label: string; placeholder: string; onAdd: (text: string) => void; className?: string }> = ({ label, placeholder, onAdd, className = '' }) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [text, setText] = useState('');
+
+    const handleAdd = () => {
+        if (text.trim()) onAdd(text.trim());
+        setText('');
+    };
+
+    if (!isAdding) {
+        return (
+            <button onClick={() => setIsAdding(true)} className={`flex items-center gap-1 text-xs text-gray-500 hover:text-blue-300 transition-colors ${className}`}>
+                <PlusIcon className="w-3.5 h-3.5" />
+                {label}
+            </button>
+        );
+    }
+
+    return (
+        <input
+            autoFocus
+            type="text"
+            value={text}
+            placeholder={placeholder}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => {
+                handleAdd();
+                setIsAdding(false);
+            }}
+            onKeyDown={(e) => {
+                // Enter keeps the input open so several items can be added in a row.
+                if (e.key === 'Enter') handleAdd();
+                if (e.key === 'Escape') {
+                    setText('');
+                    setIsAdding(false);
+                }
+            }}
+            className={`w-full bg-transparent border-b border-blue-400 focus:outline-none text-sm ${className}`}
+        />
+    );
+};
+
+// Small hover controls for moving and deleting a pillar or timeframe.
+const ItemControls: React.FC<{ label: string; onMoveBack?: () => void; onMoveForward?: () => void; onDelete: () => void }> = ({ label, onMoveBack, onMoveForward, onDelete }) => (
+    <span className="flex items-center gap-0.5 opacity-0 group-hover/controls:opacity-100 focus-within:opacity-100 transition-opacity text-gray-400">
+        <button onClick={onMoveBack} disabled={!onMoveBack} className="p-0.5 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Move ${label} back`}>
+            <ChevronLeftIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onMoveForward} disabled={!onMoveForward} className="p-0.5 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Move ${label} forward`}>
+            <ChevronRightIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onDelete} className="p-0.5 rounded hover:bg-gray-700 hover:text-red-400" aria-label={`Delete ${label}`}>
+            <XIcon className="w-4 h-4" />
+        </button>
+    </span>
+);
+
+// The comment count of a deliverable; its threads are shown in the details. Shows on hover when there are none.
+const TaskCommentCount: React.FC<{ threads: CommentThread[]; onClick: () => void }> = ({ threads, onClick }) => {
+    const openCount = countOpenComments(threads);
+    return (
+        <button
+            onClick={onClick}
+            className={`inline-flex items-center gap-0.5 align-text-bottom ml-1.5 text-xs rounded transition-opacity ${
+                openCount > 0 ? 'text-blue-300' : `text-gray-500 hover:text-gray-300 ${threads.length === 0 ? 'opacity-0 group-hover:opacity-100 focus:opacity-100' : ''}`
+            }`}
+            aria-label={threads.length > 0 ? `${openCount} open comment(s)` : 'Comment on deliverable'}
+            title={threads.length > 0 ? `${openCount} open, ${threads.filter(t => t.resolved).length} resolved thread(s)` : 'Add a comment'}
+        >
+            <CommentIcon className="w-3.5 h-3.5" />
+            {openCount > 0 && openCount}
+        </button>
+    );
+};
+
+interface DeliverableListProps extends Pick<RoadmapViewProps, 'actions' | 'selectedTaskId' | 'onSelectTask' | 'conflictingTaskIds' | 'visibility' | 'comments'> {
+    timeframeId: string;
+    pillarId: string;
+    tasks: Task[];
+    className?: string;
+}
+
+const DeliverableList: React.FC<DeliverableListProps> = ({ timeframeId, pillarId, tasks, actions, selectedTaskId, onSelectTask, conflictingTaskIds, visibility, comments, className = '' }) => {
+    const [isDragOver, setIsDragOver] = useState(false);
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!actions || !e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setIsDragOver(true);
+    };
+
+    const handleDrop = (e: React.DragEvent, index: number) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragOver(false);
+        const from: TaskLocation = JSON.parse(e.dataTransfer.getData(TASK_DRAG_TYPE));
+        actions?.moveTask(from, { timeframeId, pillarId, index });
+    };
+
+    return (
+        <ul
+            onDragOver={handleDragOver}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={(e) => handleDrop(e, tasks.length)}
+            className={`list-disc list-inside text-gray-400 min-h-[1.5rem] rounded transition-colors ${isDragOver ? 'bg-blue-500/10 ring-1 ring-blue-400/50' : ''} ${className}`}
+        >
+            {tasks.map((task, taskIndex) => {
+                // Hidden deliverables are skipped rather than removed, so the others keep their real index.
+                if (!visibility.showTask(task)) return null;
+                const location = { timeframeId, pillarId, index: taskIndex };
+                const isDimmed = !!visibility.query && !visibility.isMatch(task);
+                return (
+                    <li
+                        key={task.id}
+                        data-task-id={task.id}
+                        draggable={!!actions}
+                        onDragStart={(e) => {
+                            e.dataTransfer.setData(TASK_DRAG_TYPE, JSON.stringify(location));
+                            e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        onDragOver={handleDragOver}
+                        onDrop={(e) => handleDrop(e, taskIndex)}
+                        className={`group relative pr-5 ${actions ? 'cursor-grab active:cursor-grabbing' : ''} rounded transition-opacity ${task.id === selectedTaskId ? 'bg-blue-500/10 ring-1 ring-blue-400/50' : ''} ${isDimmed ? 'opacity-40' : ''}`}
+                    >
+                        <span
+                            {...(onSelectTask && {
+                                role: 'button',
+                                tabIndex: 0,
+                                onClick: () => onSelectTask(task.id),
+                                onKeyDown: (e: React.KeyboardEvent) => e.key === 'Enter' && onSelectTask(task.id),
+                            })}
+                            className={`${onSelectTask ? 'cursor-pointer hover:bg-gray-700/50' : ''} rounded px-1 -mx-1 ${task.status === 'done' ? 'line-through decoration-gray-500' : ''}`}
+                        >
+                            <HighlightedText text={task.title} query={visibility.query} />
+                        </span>
+                        {conflictingTaskIds.has(task.id) && (
+                            <span className="inline-flex align-text-bottom ml-1.5 text-amber-400" title="Depends on a deliverable scheduled in a later timeframe">
+                                <WarningIcon className="w-3.5 h-3.5" />
+                            </span>
+                        )}
+                        {task.status !== 'planned' && <TaskStatusBadge status={task.status} className="ml-1.5" />}
+                        {task.progress > 0 && task.status !== 'done' && <span className="ml-1.5 text-xs text-gray-500">{task.progress}%</span>}
+                        {task.owner && <span className="ml-1.5 text-xs text-gray-500">· <HighlightedText text={task.owner} query={visibility.query} /></span>}
+                        {comments && <TaskCommentCount threads={comments.threadsOf({ type: 'task', id: task.id })} onClick={() => comments.onOpenTask(task.id)} />}
+                        {actions && (
+                            <button
+                                onClick={() => actions.deleteTask(location)}
+                                className="absolute right-0 top-0.5 p-0.5 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-500 hover:text-red-400 transition-opacity"
+                                aria-label="Delete deliverable"
+                            >
+                                <XIcon className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+const RoadmapHeading: React.FC<Pick<RoadmapViewProps, 'data' | 'actions'> & { className?: string }> = ({ data, actions, className = 'mb-8' }) => (
+    <>
+        <h2 className="text-2xl sm:text-3xl font-bold text-center mb-1">
+            <EditableText text={data.title} placeholder="Add a title" onSave={actions && ((title) => actions.updateInfo({ title }))} className="text-center" />
+        </h2>
+        <p className={`text-gray-400 text-center ${className}`}>
+            <EditableText text={data.subtitle} placeholder="Add a subtitle" onSave={actions && ((subtitle) => actions.updateInfo({ subtitle }))} className="text-center" />
+        </p>
+    </>
+);
+
+// Focus anywhere in a cell counts as editing it, for the others in the collaboration room.
+const trackCellFocus = (onFocusCell: RoadmapViewProps['onFocusCell'], timeframeId: string, pillarId: string) => onFocusCell ? {
+    onFocus: () => onFocusCell({ timeframeId, pillarId }),
+    onBlur: (e: React.FocusEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) onFocusCell(null);
+    },
+} : {};
+
+const noEditors: NonNullable<RoadmapViewProps['editorsOf']> = () => [];
+
+// Outlines a cell in the color of someone else editing it.
+const editorOutline = (editors: Collaborator[]): React.CSSProperties =>
+    editors.length > 0 ? { boxShadow: `0 0 0 2px ${editors[0].color}` } : {};
+
+// The props of the comment threads about one item.
+export const commentProps = (comments: CommentContext, target: CommentTarget): CommentThreadsProps => ({
+    threads: comments.threadsOf(target),
+    author: comments.author,
+    people: comments.people,
+    onAdd: (text) => comments.addComment(target, text),
+    onReply: comments.replyToThread,
+    onSetResolved: comments.setThreadResolved,
+    onDelete: comments.deleteComment,
+});
+
+const confirmDelete = (kind: string, name: string, taskCount: number) =>
+    taskCount === 0 || window.confirm(`Delete the ${kind} "${name}" and its ${taskCount} deliverable(s)?`);
+
+const countTasks = (data: RoadmapData, predicate: (pillarId: string, timeframeId: string) => boolean) =>
+    data.timeframes.reduce((total, timeframe) => total + timeframe.deliverables
+        .filter(d => predicate(d.pillarId, timeframe.id))
+        .reduce((sum, d) => sum + d.tasks.length, 0), 0);
+
+// The index of the visible item before or after the given one, for the move controls.
+const findVisibleNeighbour = <T extends { id: string }>(items: T[], index: number, step: -1 | 1, isVisible: (id: string) => boolean) => {
+    for (let i = index + step; i >= 0 && i < items.length; i += step) {
+        if (isVisible(items[i].id)) return i;
+    }
+    return -1;
+};
+
+export const PillarView: React.FC<RoadmapViewProps> = ({ data, actions, selectedTaskId, onSelectTask, conflictingTaskIds, visibility, annotations = NO_ANNOTATIONS, onDismissFinding, editorsOf = noEditors, onFocusCell, comments }) => {
+  // There are no timeframe headings here, so notes and comments about a whole timeframe go on its cell in the first visible pillar.
+  const firstPillarId = data.pillars.find(pillar => visibility.showPillar(pillar.id))?.id;
+  return (
+    <div className="flex-1 overflow-auto p-8">
+        <RoadmapHeading data={data} actions={actions} />
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {data.pillars.map((pillar, index) => {
+                if (!visibility.showPillar(pillar.id)) return null;
+                const previous = findVisibleNeighbour(data.pillars, index, -1, visibility.showPillar);
+                const next = findVisibleNeighbour(data.pillars, index, 1, visibility.showPillar);
+                const color = getPillarColor(pillar.color);
+                return (
+                <div key={pillar.id} className="flex flex-col gap-6">
+                    <h3 className="group/controls group/comments text-lg font-bold p-3 rounded-lg flex items-center gap-2 border-l-4" style={{ backgroundColor: color.tint, borderColor: color.accent }}>
+                        <PillarColorPicker pillarName={pillar.name} color={color.accent} onChange={actions && ((newColor) => actions.setPillarColor(pillar.id, newColor))} />
+                        <span className="flex-1 min-w-0">
+                            <EditableText text={pillar.name} onSave={actions && ((name) => actions.renamePillar(pillar.id, name))} />
+                        </span>
+                        {comments && <CommentNote label={`pillar "${pillar.name}"`} {...commentProps(comments, { type: 'pillar', id: pillar.id })} />}
+                        <ReviewNote findings={annotations.pillar(pillar.id)} onDismiss={onDismissFinding} />
+                        {actions && (
+                            <ItemControls
+                                label={`pillar ${pillar.name}`}
+                                onMoveBack={previous !== -1 ? () => actions.movePillar(pillar.id, previous) : undefined}
+                                onMoveForward={next !== -1 ? () => actions.movePillar(pillar.id, next) : undefined}
+                                onDelete={() => {
+                                    if (confirmDelete('pillar', pillar.name, countTasks(data, pillarId => pillarId === pillar.id))) {
+                                        actions.deletePillar(pillar.id);
+                                    }
+                                }}
+                            />
+                        )}
+                    </h3>
+                    <div className="flex flex-col gap-6">
+                        {data.timeframes.filter(timeframe => visibility.showTimeframe(timeframe.id)).map((timeframe) => {
+                            const tasks = timeframe.deliverables.find(d => d.pillarId === pillar.id)?.tasks ?? [];
+                            const findings = [...annotations.cell(timeframe.id, pillar.id), ...(pillar.id === firstPillarId ? annotations.timeframe(timeframe.id) : [])];
+                            const editors = editorsOf(timeframe.id, pillar.id);
+
+                            return (
+                                <div
+                                    key={`${pillar.id}-${timeframe.id}`}
+                                    {...trackCellFocus(onFocusCell, timeframe.id, pillar.id)}
+                                    style={editorOutline(editors)}
+                                    className={`bg-gray-800/60 rounded-lg p-4 ${tasks.length === 0 && findings.length === 0 && editors.length === 0 ? 'opacity-60 hover:opacity-100 transition-opacity' : ''}`}
+                                >
+                                    <h4 className="group/comments font-semibold text-gray-300 mb-3 flex items-start gap-2">
+                                        <span className="flex-1 min-w-0">
+                                            <EditableText text={timeframe.name} placeholder="Name" onSave={actions && ((name) => actions.updateTimeframe(timeframe.id, { name }))} />{' '}
+                                            <span className="font-normal text-sm text-gray-400">
+                                                (<EditableText text={timeframe.date} placeholder="Date" onSave={actions && ((date) => actions.updateTimeframe(timeframe.id, { date }))} />)
+                                            </span>
+                                        </span>
+                                        <CollaboratorAvatars people={editors} size="sm" max={3} />
+                                        {comments && pillar.id === firstPillarId && (
+                                            <CommentNote label={`timeframe "${timeframe.name || timeframe.date}"`} {...commentProps(comments, { type: 'timeframe', id: timeframe.id })} />
+                                        )}
+                                        <ReviewNote findings={findings} onDismiss={onDismissFinding} />
+                                    </h4>
+                                    <DeliverableList timeframeId={timeframe.id} pillarId={pillar.id} tasks={tasks} actions={actions} selectedTaskId={selectedTaskId} onSelectTask={onSelectTask} conflictingTaskIds={conflictingTaskIds} visibility={visibility} comments={comments} className="space-y-2" />
+                                    {actions && (
+                                        <AddItemInput
+                                            label="Add deliverable"
+                                            placeholder="New deliverable"
+                                            onAdd={(text) => actions.addTask(timeframe.id, pillar.id, text)}
+                                            className="mt-3"
+                                        />
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+                );
+            })}
+            {actions && (
+                <div className="flex flex-col">
+                    <div className="p-3 rounded-lg border-2 border-dashed border-gray-700">
+                        <AddItemInput label="Add pillar" placeholder="Pillar name" onAdd={actions.addPillar} className="text-base" />
+                    </div>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+const AddToPillarInput: React.FC<{ pillars: RoadmapData['pillars']; onAdd: (pillarId: string, text: string) => void }> = ({ pillars, onAdd }) => {
+    const [pillarId, setPillarId] = useState('');
+
+    if (pillars.length === 0) return null;
+
+    if (!pillarId) {
+        return (
+            <select
+                value=""
+                onChange={(e) => setPillarId(e.target.value)}
+                className="bg-transparent text-xs text-gray-500 hover:text-blue-300 focus:outline-none cursor-pointer"
+                aria-label="Add deliverable to pillar"
+            >
+                <option value="" disabled>+ Add deliverable to pillar...</option>
+                {pillars.map(pillar => <option key={pillar.id} value={pillar.id} className="bg-gray-800">{pillar.name}</option>)}
+            </select>
+        );
+    }
+
+    return (
+        <input
+            autoFocus
+            type="text"
+            placeholder={`New deliverable for ${pillars.find(p => p.id === pillarId)?.name}`}
+            onBlur={() => setPillarId('')}
+            onKeyDown={(e) => {
+                const text = e.currentTarget.value.trim();
+                if (e.key === 'Enter' && text) {
+                    onAdd(pillarId, text);
+                    setPillarId('');
+                }
+                if (e.key === 'Escape') setPillarId('');
+            }}
+            className="w-full bg-transparent border-b border-blue-400 focus:outline-none text-sm"
+        />
+    );
+};
+
+const HorizontalScrollBar: React.FC<{ scrollRef: React.RefObject<HTMLDivElement> }> = ({ scrollRef }) => {
+    const [scrollState, setScrollState] = useState({ canScrollLeft: false, canScrollRight: false });
+    const observer = useRef<ResizeObserver | null>(null);
+
+    const checkScrollability = () => {
+        const el = scrollRef.current;
+        if (el) {
+            const canScrollLeft = el.scrollLeft > 1;
+            const canScrollRight = el.scrollLeft < el.scrollWidth - el.clientWidth - 1;
+            setScrollState({ canScrollLeft, canScrollRight });
+        }
+    };
+
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (!el) return;
+
+        checkScrollability();
+        el.addEventListener('scroll', checkScrollability);
+
+        observer.current = new ResizeObserver(checkScrollability);
+        observer.current.observe(el);
+        
+        // Also observe children
+        Array.from(el.children).forEach(child => observer.current!.observe(child));
+
+        return () => {
+            el.removeEventListener('scroll', checkScrollability);
+            observer.current?.disconnect();
+        };
+    }, [scrollRef]);
+
+    const handleScroll = (direction: 'left' | 'right') => {
+        scrollRef.current?.scrollBy({ left: direction === 'left' ? -300 : 300, behavior: 'smooth' });
+    };
+
+    return (
+        <div className="flex items-center justify-center w-full px-4 pt-4">
+            <button onClick={() => handleScroll('left')} disabled={!scrollState.canScrollLeft} className="p-2 rounded-full disabled:opacity-30 disabled:cursor-not-allowed hover:bg-gray-700 transition-colors">
+                <ChevronLeftIcon className="w-5 h-5" />
+            </button>
+            <div className="flex-1 h-2 bg-gray-700/50 rounded-full mx-2 relative cursor-pointer">
+                {/* Thumb would require complex logic, so we'll omit for now */}
+            </div>
+            <button onClick={() => handleScroll('right')} disabled={!scrollState.canScrollRight} className="p-2 rounded-full disabled:opacity-30 disabled:cursor-not-allowed hover:bg-gray-700 transition-colors">
+                <ChevronRightIcon className="w-5 h-5" />
+            </button>
+        </div>
+    );
+};
+
+// --- Dependency Arrows ---
+// Drawn over the timeline from each dependency to its dependent, using the rendered positions of the deliverables.
+
+interface DependencyArrow {
+  key: string;
+  path: string;
+  isConflict: boolean;
+}
+
+const ARROW_CURVE = 48;
+
+// Arrows to hidden deliverables are left out, since there is nothing to point at.
+const DependencyArrows: React.FC<{ data: RoadmapData; visibility: RoadmapVisibility; containerRef: React.RefObject<HTMLDivElement> }> = ({ data, visibility, containerRef }) => {
+  const [arrows, setArrows] = useState<DependencyArrow[]>([]);
+  const conflictKeys = useMemo(
+    () => new Set(findDependencyConflicts(data).map(c => `${c.dependency.task.id}>${c.task.task.id}`)),
+    [data]
+  );
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => {
+      const origin = container.getBoundingClientRect();
+      const boxOf = (taskId: string) => {
+        const rect = container.querySelector(`[data-task-id="${CSS.escape(taskId)}"]`)?.getBoundingClientRect();
+        return rect && { left: rect.left - origin.left, right: rect.right - origin.left, middle: rect.top - origin.top + Math.min(rect.height / 2, 10) };
+      };
+      const next: DependencyArrow[] = [];
+      listTasks(data).forEach(({ task }) => task.dependsOn.forEach(dependencyId => {
+        const from = boxOf(dependencyId);
+        const to = boxOf(task.id);
+        if (!from || !to) return;
+        let path: string;
+        if (from.right <= to.left) {
+          // Left to right, from an earlier timeframe.
+          const curve = Math.max(ARROW_CURVE, (to.left - from.right) / 2);
+          path = `M ${from.right} ${from.middle} C ${from.right + curve} ${from.middle}, ${to.left - curve} ${to.middle}, ${to.left} ${to.middle}`;
+        } else if (to.right <= from.left) {
+          // Right to left, from a later timeframe.
+          const curve = Math.max(ARROW_CURVE, (from.left - to.right) / 2);
+          path = `M ${from.left} ${from.middle} C ${from.left - curve} ${from.middle}, ${to.right + curve} ${to.middle}, ${to.right} ${to.middle}`;
+        } else {
+          // Same timeframe: loop around the left edge.
+          path = `M ${from.left} ${from.middle} C ${from.left - ARROW_CURVE / 2} ${from.middle}, ${to.left - ARROW_CURVE / 2} ${to.middle}, ${to.left} ${to.middle}`;
+        }
+        const key = `${dependencyId}>${task.id}`;
+        next.push({ key, path, isConflict: conflictKeys.has(key) });
+      }));
+      setArrows(next);
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [data, visibility, conflictKeys]);
+
+  if (arrows.length === 0) return null;
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible z-10" aria-hidden="true">
+      <defs>
+        <marker id="dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+        </marker>
+        <marker id="dependency-arrow-conflict" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#f87171" />
+        </marker>
+      </defs>
+      {arrows.map(arrow => (
+        <path
+          key={arrow.key}
+          d={arrow.path}
+          fill="none"
+          stroke={arrow.isConflict ? '#f87171' : '#9ca3af'}
+          strokeWidth={arrow.isConflict ? 2 : 1.5}
+          strokeDasharray={arrow.isConflict ? '4 3' : undefined}
+          strokeOpacity={0.8}
+          markerEnd={`url(#${arrow.isConflict ? 'dependency-arrow-conflict' : 'dependency-arrow'})`}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export const TimelineView: React.FC<RoadmapViewProps> = ({ data, actions, selectedTaskId, onSelectTask, conflictingTaskIds, visibility, annotations = NO_ANNOTATIONS, onDismissFinding, editorsOf = noEditors, onFocusCell, comments }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const timeframesWithPillars = useMemo(() => {
+    return data.timeframes.map((timeframe, index) => ({ timeframe, index })).filter(({ timeframe }) => visibility.showTimeframe(timeframe.id)).map(({ timeframe, index: timeframeIndex }) => {
+      const deliverablesByPillar = data.pillars.map(pillar => {
+        if (!visibility.showPillar(pillar.id)) return null;
+        const pillarDeliverables = timeframe.deliverables.find(d => d.pillarId === pillar.id);
+        if (!pillarDeliverables || !pillarDeliverables.tasks.some(visibility.showTask)) return null;
+        return {
+          pillar,
+          tasks: pillarDeliverables.tasks,
+          color: getPillarColor(pillar.color)
+        };
+      }).filter((p): p is NonNullable<typeof p> => p !== null);
+      const emptyPillars = data.pillars.filter(pillar => visibility.showPillar(pillar.id) && !deliverablesByPillar.some(p => p.pillar.id === pillar.id));
+      return { ...timeframe, index: timeframeIndex, deliverablesByPillar, emptyPillars };
+    });
+  }, [data, visibility]);
+
+  // There are no pillar headings here, so notes and comments about a whole pillar go on its first visible cell.
+  const firstCellOfPillar = new Map<string, string>();
+  timeframesWithPillars.forEach(timeframe => timeframe.deliverablesByPillar.forEach(p => {
+    if (!firstCellOfPillar.has(p.pillar.id)) firstCellOfPillar.set(p.pillar.id, timeframe.id);
+  }));
+
+  const handleAddTimeframe = (heading: string) => {
+    const { date, name } = splitTimeframeHeading(heading);
+    actions?.addTimeframe(date, name);
+  };
+
+  return (
+    <div className="flex flex-col flex-1 overflow-hidden p-8">
+      <RoadmapHeading data={data} actions={actions} className="mb-12" />
+
+      <div className="flex-1 overflow-auto scrollbar-hide" ref={scrollRef}>
+        <div className="relative min-w-full text-center" ref={contentRef}>
+          {/* Timeline axis line */}
+          <div className="absolute top-16 left-0 right-0 h-0.5 bg-gray-600 mx-4"></div>
+
+          <div className="inline-block text-left">
+            <div className="flex items-start">
+              {timeframesWithPillars.map((timeframe, position) => (
+                <div key={timeframe.id} className="flex-shrink-0 relative px-4 min-w-[320px]">
+                  {/* Top part: Date and Marker */}
+                  <div className="group/controls relative h-16 w-full text-center">
+                    {actions && (
+                      <div className="absolute top-0 left-0 right-0 flex justify-center">
+                        <ItemControls
+                          label={`timeframe ${timeframe.name || timeframe.date}`}
+                          onMoveBack={position > 0 ? () => actions.moveTimeframe(timeframe.id, timeframesWithPillars[position - 1].index) : undefined}
+                          onMoveForward={position < timeframesWithPillars.length - 1 ? () => actions.moveTimeframe(timeframe.id, timeframesWithPillars[position + 1].index) : undefined}
+                          onDelete={() => {
+                            if (confirmDelete('timeframe', timeframe.name || timeframe.date, countTasks(data, (_, timeframeId) => timeframeId === timeframe.id))) {
+                              actions.deleteTimeframe(timeframe.id);
+                            }
+                          }}
+                        />
+                      </div>
+                    )}
+                    <div className="absolute bottom-4 left-0 right-0 text-sm font-semibold text-gray-300 whitespace-nowrap">
+                      <EditableText text={timeframe.date} placeholder="Date" onSave={actions && ((date) => actions.updateTimeframe(timeframe.id, { date }))} className="text-center" />
+                    </div>
+                    <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-3 h-3 bg-gray-200 rounded-full ring-4 ring-gray-900" style={{ transform: 'translate(-50%, 50%)' }}></div>
+                  </div>
+                  
+                  {/* Content below timeline */}
+                  <div className="mt-8">
+                    <h3 className="group/comments text-lg font-bold text-center mb-4 whitespace-nowrap">
+                      <EditableText text={timeframe.name} placeholder="Name" onSave={actions && ((name) => actions.updateTimeframe(timeframe.id, { name }))} className="text-center" />
+                      {/* Empty cells are not drawn, so their notes join the timeframe's. */}
+                      <ReviewNote
+                        findings={[...annotations.timeframe(timeframe.id), ...timeframe.emptyPillars.flatMap(pillar => annotations.cell(timeframe.id, pillar.id))]}
+                        onDismiss={onDismissFinding}
+                        className="ml-2 align-middle"
+                      />
+                      {comments && (
+                        <CommentNote
+                          label={`timeframe "${timeframe.name || timeframe.date}"`}
+                          {...commentProps(comments, { type: 'timeframe', id: timeframe.id })}
+                          className="ml-1 align-middle"
+                        />
+                      )}
+                    </h3>
+                    <div className="flex flex-col gap-4">
+                      {timeframe.deliverablesByPillar.map(p => (
+                        <div
+                          key={p.pillar.id}
+                          {...trackCellFocus(onFocusCell, timeframe.id, p.pillar.id)}
+                          className="p-3 rounded-lg border-l-4"
+                          style={{ backgroundColor: p.color.tint, borderColor: p.color.accent, ...editorOutline(editorsOf(timeframe.id, p.pillar.id)) }}
+                        >
+                          <h4 className="group/comments font-semibold text-gray-300 mb-2 flex items-center gap-2">
+                            <PillarColorPicker pillarName={p.pillar.name} color={p.color.accent} onChange={actions && ((newColor) => actions.setPillarColor(p.pillar.id, newColor))} className="w-2.5 h-2.5" />
+                            <span className="flex-1 min-w-0">
+                              <EditableText text={p.pillar.name} onSave={actions && ((name) => actions.renamePillar(p.pillar.id, name))} />
+                            </span>
+                            <CollaboratorAvatars people={editorsOf(timeframe.id, p.pillar.id)} size="sm" max={3} />
+                            {comments && firstCellOfPillar.get(p.pillar.id) === timeframe.id && (
+                              <CommentNote label={`pillar "${p.pillar.name}"`} {...commentProps(comments, { type: 'pillar', id: p.pillar.id })} />
+                            )}
+                            <ReviewNote
+                              findings={[...annotations.cell(timeframe.id, p.pillar.id), ...(firstCellOfPillar.get(p.pillar.id) === timeframe.id ? annotations.pillar(p.pillar.id) : [])]}
+                              onDismiss={onDismissFinding}
+                            />
+                          </h4>
+                          <DeliverableList timeframeId={timeframe.id} pillarId={p.pillar.id} tasks={p.tasks} actions={actions} selectedTaskId={selectedTaskId} onSelectTask={onSelectTask} conflictingTaskIds={conflictingTaskIds} visibility={visibility} comments={comments} className="space-y-1 pl-2 text-sm" />
+                          {actions && (
+                            <AddItemInput
+                              label="Add deliverable"
+                              placeholder="New deliverable"
+                              onAdd={(text) => actions.addTask(timeframe.id, p.pillar.id, text)}
+                              className="mt-2 pl-2"
+                            />
+                          )}
+                        </div>
+                      ))}
+                      {actions && <AddToPillarInput pillars={timeframe.emptyPillars} onAdd={(pillarId, text) => actions.addTask(timeframe.id, pillarId, text)} />}
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {actions && (
+                <div className="flex-shrink-0 relative px-4 min-w-[240px]">
+                  <div className="h-16"></div>
+                  <div className="mt-8 p-3 rounded-lg border-2 border-dashed border-gray-700">
+                    <AddItemInput label="Add timeframe" placeholder="2027 - Q1: Timeframe name" onAdd={handleAddTimeframe} className="text-base" />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          <DependencyArrows data={data} visibility={visibility} containerRef={contentRef} />
+        </div>
+      </div>
+      <HorizontalScrollBar scrollRef={scrollRef} />
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { listProviders, getProvider } from '../services/providers';
+import type { ProviderSettingsField } from '../services/providers';
+import { loadAiSettings, saveAiSettings, resetAiSettings } from '../services/aiSettings';
+import type { AiSettings } from '../services/aiSettings';
+import { XIcon } from './icons';
+
+interface SettingsModalProps {
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ProviderSettingsField, string> = {
+  model: 'Model',
+  baseUrl: 'Endpoint URL',
+};
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  const provider = getProvider(settings.providerId) ?? listProviders()[0];
+  const providerSettings = settings.providers[provider.id] ?? provider.defaultSettings;
+  const configurationError = provider.getConfigurationError(providerSettings);
+
+  const updateField = (field: ProviderSettingsField, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      providers: { ...prev.providers, [provider.id]: { ...providerSettings, [field]: value } },
+    }));
+  };
+
+  const handleSave = () => {
+    saveAiSettings(settings);
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetAiSettings();
+    setSettings(loadAiSettings());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        className="w-full max-w-lg bg-gray-800 border border-gray-700 rounded-2xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 id="settings-title" className="text-lg font-semibold text-gray-100">AI Provider Settings</h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-700" aria-label="Close settings">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4 flex flex-col gap-4">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-gray-400">Provider</span>
+            <select
+              value={provider.id}
+              onChange={(e) => setSettings(prev => ({ ...prev, providerId: e.target.value }))}
+              className="bg-gray-900/70 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <span className="text-xs text-gray-500">{provider.description}</span>
+          </label>
+          {provider.settingsFields.map(field => (
+            <label key={field} className="flex flex-col gap-1 text-sm">
+              <span className="text-gray-400">{FIELD_LABELS[field]}</span>
+              <input
+                type="text"
+                value={providerSettings[field]}
+                onChange={(e) => updateField(field, e.target.value)}
+                className="bg-gray-900/70 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+            </label>
+          ))}
+          <p className={`text-xs ${configurationError ? 'text-amber-400' : 'text-green-400'}`}>
+            {configurationError ?? 'This provider is ready to use.'}
+          </p>
+          <p className="text-xs text-gray-500">
+            API keys are read from the environment and are never stored by this dialog. Structured Markdown is always parsed locally.
+          </p>
+        </div>
+        <div className="flex items-center justify-between p-4 border-t border-gray-700">
+          <button onClick={handleReset} className="text-sm text-gray-400 hover:text-gray-200">Reset to defaults</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">Cancel</button>
+            <button onClick={handleSave} className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
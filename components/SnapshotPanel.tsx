@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { RoadmapSnapshot } from '../services/roadmapStore';
+import { TrashIcon } from './icons';
+
+interface SnapshotPanelProps {
+  snapshots: RoadmapSnapshot[];
+  // Undefined when the roadmap is not saved, so snapshots cannot be stored.
+  onCreate?: (name: string) => void;
+  onCompare: (snapshotId: string) => void;
+  onDelete: (snapshotId: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const defaultName = () => `Snapshot ${new Date().toLocaleDateString(undefined, { dateStyle: 'medium' })}`;
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ snapshots, onCreate, onCompare, onDelete, onClose }) => {
+  const [name, setName] = useState(defaultName);
+
+  const handleCreate = () => {
+    onCreate?.(name.trim() || defaultName());
+    setName(defaultName());
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-200">Snapshots</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-200">Close</button>
+      </div>
+      {onCreate ? (
+        <div className="flex items-center gap-2 p-3 border-b border-gray-700">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            className="flex-1 min-w-0 bg-gray-900/70 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            aria-label="Snapshot name"
+          />
+          <button onClick={handleCreate} className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md">Save</button>
+        </div>
+      ) : (
+        <p className="px-3 py-2 text-xs text-gray-500 border-b border-gray-700">Snapshots are available for saved roadmaps.</p>
+      )}
+      {snapshots.length === 0 ? (
+        <p className="px-3 py-3 text-sm text-gray-500">No snapshots yet. A snapshot is also saved automatically before the roadmap is regenerated.</p>
+      ) : (
+        <ol className="max-h-80 overflow-auto py-1">
+          {[...snapshots].reverse().map(snapshot => (
+            <li key={snapshot.id} className="group flex items-center gap-2 px-3 py-1.5 hover:bg-gray-700/70">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-300 truncate">{snapshot.name}</p>
+                <p className="text-xs text-gray-500">{formatDate(snapshot.createdAt)}</p>
+              </div>
+              <button onClick={() => onCompare(snapshot.id)} className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded">Compare</button>
+              <button onClick={() => onDelete(snapshot.id)} className="p-1 rounded text-gray-500 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-400" aria-label={`Delete snapshot ${snapshot.name}`}>
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
@@ -2,7 +2,12 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
+import ImportMappingModal from './ImportMappingModal';
+import type { RoadmapData } from '../services/geminiService';
+import { parseImportTable, issueTrackerJsonToRoadmap, titleFromFileName } from '../services/roadmapImport';
+import type { ImportTable } from '../services/roadmapImport';
+import { UploadIcon } from './icons';
 
 const exampleRoadmap = `
 # FlowX: Deliverables Matrix (2025-2026)
@@ -60,11 +65,45 @@ const exampleRoadmap = `
 
 interface StartScreenProps {
   onGenerate: (text: string) => void;
+  // Called with a roadmap imported from a CSV/TSV or issue-tracker JSON file.
+  onImport: (data: RoadmapData, fileName: string) => void;
   initialText: string;
+  // Rendered below the input form, e.g. the saved roadmap library.
+  children?: React.ReactNode;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onGenerate, initialText }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onGenerate, onImport, initialText, children }) => {
   const [text, setText] = useState(initialText || exampleRoadmap);
+  const [isDragging, setIsDragging] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [pendingTable, setPendingTable] = useState<{ fileName: string; table: ImportTable } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setImportError(null);
+    try {
+      const content = await file.text();
+      if (/\.json$/i.test(file.name)) {
+        onImport(issueTrackerJsonToRoadmap(content, titleFromFileName(file.name)), file.name);
+      } else if (/\.(csv|tsv|tab)$/i.test(file.name)) {
+        // Spreadsheets need a column mapping before they can be imported.
+        setPendingTable({ fileName: file.name, table: parseImportTable(content) });
+      } else {
+        // Markdown and plain text go into the editor as-is.
+        setText(content);
+      }
+    } catch (e: any) {
+      setImportError(`${file.name} could not be imported: ${e.message || 'unknown error'}`);
+      console.error(e);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -72,30 +111,80 @@ const StartScreen: React.FC<StartScreenProps> = ({ onGenerate, initialText }) =>
   };
 
   return (
-    <div className="flex-1 flex flex-col items-center justify-center p-4 sm:p-8">
-      <div className="w-full max-w-4xl bg-gray-800/50 rounded-2xl shadow-lg border border-gray-700 overflow-hidden">
-        <div className="p-6 border-b border-gray-700">
-          <h2 className="text-2xl font-bold text-center text-gray-100">Enter Your Roadmap Data</h2>
-          <p className="text-center text-gray-400 mt-2">
-            Paste your roadmap in Markdown format below. An example is pre-filled for you.
-          </p>
+    <div className="flex-1 overflow-auto">
+      <div className="min-h-full flex flex-col items-center justify-center gap-6 p-4 sm:p-8">
+        <div
+          className={`w-full max-w-4xl bg-gray-800/50 rounded-2xl shadow-lg border overflow-hidden transition-colors ${isDragging ? 'border-blue-500 bg-blue-900/10' : 'border-gray-700'}`}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+          }}
+          onDrop={handleDrop}
+        >
+          <div className="p-6 border-b border-gray-700">
+            <h2 className="text-2xl font-bold text-center text-gray-100">Enter Your Roadmap Data</h2>
+            <p className="text-center text-gray-400 mt-2">
+              Paste your roadmap in Markdown format below. An example is pre-filled for you.
+            </p>
+            <p className="text-center text-gray-500 text-sm mt-1">
+              You can also drop a CSV, TSV or issue-tracker JSON export here to import it without AI.
+            </p>
+          </div>
+          <form onSubmit={handleSubmit} className="p-6 flex flex-col gap-6">
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="w-full h-96 bg-gray-900/70 border border-gray-600 rounded-lg p-4 text-gray-300 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+              placeholder="Paste your roadmap here..."
+              aria-label="Roadmap data input"
+            />
+            {importError && <p className="text-sm text-red-400 text-center">{importError}</p>}
+            <div className="flex flex-col sm:flex-row justify-center gap-3">
+              <button
+                type="submit"
+                className="w-full sm:w-auto px-8 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500"
+              >
+                Visualize Roadmap
+              </button>
+              <button
+                type="button"
+                onClick={() => fileInput.current?.click()}
+                className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-gray-700 text-gray-200 rounded-lg font-semibold hover:bg-gray-600 transition-colors duration-200"
+              >
+                <UploadIcon className="w-5 h-5" />
+                Import File
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.tsv,.tab,.json,.md,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </form>
         </div>
-        <form onSubmit={handleSubmit} className="p-6 flex flex-col gap-6">
-          <textarea
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            className="w-full h-96 bg-gray-900/70 border border-gray-600 rounded-lg p-4 text-gray-300 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
-            placeholder="Paste your roadmap here..."
-            aria-label="Roadmap data input"
-          />
-          <button
-            type="submit"
-            className="w-full sm:w-auto self-center px-8 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500"
-          >
-            Visualize Roadmap
-          </button>
-        </form>
+        {children}
       </div>
+      {pendingTable && (
+        <ImportMappingModal
+          fileName={pendingTable.fileName}
+          table={pendingTable.table}
+          onImport={(data) => {
+            onImport(data, pendingTable.fileName);
+            setPendingTable(null);
+          }}
+          onClose={() => setPendingTable(null)}
+        />
+      )}
     </div>
   );
 };
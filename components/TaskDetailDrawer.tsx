@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import type { RoadmapData, Task, TaskStatus } from '../services/geminiService';
+import type { TaskChanges } from '../services/roadmapOperations';
+import { TASK_STATUSES, getTaskStatusStyle, listTasks } from '../services/roadmapTasks';
+import { findDependencyConflicts, findDependents, wouldCreateCycle } from '../services/roadmapDependencies';
+import CommentThreads from './CommentThreads';
+import type { CommentThreadsProps } from './CommentThreads';
+import { TrashIcon, XIcon, PlusIcon, WarningIcon } from './icons';
+
+interface TaskDetailDrawerProps {
+  task: Task;
+  // The whole roadmap, to list and pick dependencies.
+  data: RoadmapData;
+  // Where the deliverable lives, e.g. "Observability · 2025 - Q3 & Q4".
+  context: string;
+  onChange: (changes: TaskChanges) => void;
+  onAddDependency: (dependencyId: string) => void;
+  onRemoveDependency: (dependencyId: string) => void;
+  onSelectTask: (taskId: string) => void;
+  // Left out where roadmaps have no comments, e.g. in the embeddable viewer.
+  comments?: CommentThreadsProps;
+  // Scrolls to the comments, when the details were opened for them.
+  focusComments?: boolean;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900/70 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 text-sm">
+    <span className="text-gray-400">{label}</span>
+    {children}
+  </label>
+);
+
+// Text fields are edited locally and committed on blur, so that every keystroke does not become an undo step.
+const TaskDetailDrawer: React.FC<TaskDetailDrawerProps> = ({ task, data, context, onChange, onAddDependency, onRemoveDependency, onSelectTask, comments, focusComments = false, onDelete, onClose }) => {
+  const [title, setTitle] = useState(task.title);
+  const [owner, setOwner] = useState(task.owner);
+  const [tags, setTags] = useState(task.tags.join(', '));
+  const [description, setDescription] = useState(task.description ?? '');
+  const [progress, setProgress] = useState(task.progress);
+  const [newLink, setNewLink] = useState({ label: '', url: '' });
+  const commentsRef = useRef<HTMLDivElement>(null);
+
+  // Follow changes made elsewhere, e.g. undo or another deliverable being selected.
+  useEffect(() => setTitle(task.title), [task.title]);
+  useEffect(() => setOwner(task.owner), [task.owner]);
+  useEffect(() => setTags(task.tags.join(', ')), [task.tags.join(',')]);
+  useEffect(() => setDescription(task.description ?? ''), [task.description]);
+  useEffect(() => setProgress(task.progress), [task.progress]);
+  useEffect(() => {
+    if (focusComments) commentsRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [focusComments, task.id]);
+
+  const commitTitle = () => {
+    if (title.trim() && title.trim() !== task.title) onChange({ title: title.trim() });
+    else setTitle(task.title);
+  };
+  const commitTags = () => {
+    const next = Array.from(new Set(tags.split(',').map(tag => tag.trim()).filter(Boolean)));
+    if (next.join(',') !== task.tags.join(',')) onChange({ tags: next });
+  };
+  const commitDescription = () => {
+    if (description.trim() !== (task.description ?? '')) onChange({ description: description.trim() || undefined });
+  };
+  const commitProgress = () => {
+    if (progress !== task.progress) onChange({ progress });
+  };
+  const tasks = listTasks(data);
+  const titleOf = (taskId: string) => tasks.find(entry => entry.task.id === taskId)?.task.title ?? taskId;
+  const lateDependencies = new Set(findDependencyConflicts(data).filter(c => c.task.task.id === task.id).map(c => c.dependency.task.id));
+  const dependents = findDependents(data, task.id);
+  // Deliverables that can still be added without creating a cycle.
+  const candidates = tasks.filter(entry => !task.dependsOn.includes(entry.task.id) && !wouldCreateCycle(data, task.id, entry.task.id));
+
+  const addLink = () => {
+    const url = newLink.url.trim();
+    if (!url) return;
+    onChange({ links: [...task.links, { label: newLink.label.trim() || url, url }] });
+    setNewLink({ label: '', url: '' });
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 bottom-0 w-full max-w-sm bg-gray-800 border-l border-gray-700 shadow-2xl z-30 flex flex-col" aria-label="Deliverable details">
+      <div className="flex items-start justify-between gap-2 p-4 border-b border-gray-700">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500 truncate">{context}</p>
+          <p className="text-xs text-gray-600 font-mono">{task.id}</p>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-700" aria-label="Close details">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-auto p-4 flex flex-col gap-4">
+        <Field label="Title">
+          <textarea
+            value={title}
+            rows={2}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={commitTitle}
+            className={`${inputClass} resize-none`}
+          />
+        </Field>
+        <div className="grid grid-cols-2 gap-3">
+          <Field label="Status">
+            <select value={task.status} onChange={(e) => onChange({ status: e.target.value as TaskStatus })} className={inputClass}>
+              {TASK_STATUSES.map(status => <option key={status} value={status}>{getTaskStatusStyle(status).label}</option>)}
+            </select>
+          </Field>
+          <Field label="Owner">
+            <input type="text" value={owner} onChange={(e) => setOwner(e.target.value)} onBlur={() => owner.trim() !== task.owner && onChange({ owner: owner.trim() })} placeholder="Unassigned" className={inputClass} />
+          </Field>
+        </div>
+        <Field label={`Progress: ${progress}%`}>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={progress}
+            onChange={(e) => setProgress(Number(e.target.value))}
+            onPointerUp={commitProgress}
+            onKeyUp={commitProgress}
+            onBlur={commitProgress}
+            className="w-full accent-blue-500"
+          />
+        </Field>
+        <Field label="Tags">
+          <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} onBlur={commitTags} placeholder="Comma-separated, e.g. api, security" className={inputClass} />
+        </Field>
+        <Field label="Description">
+          <textarea value={description} rows={5} onChange={(e) => setDescription(e.target.value)} onBlur={commitDescription} placeholder="Optional details" className={`${inputClass} resize-y`} />
+        </Field>
+        <div className="flex flex-col gap-2 text-sm">
+          <span className="text-gray-400">Depends on</span>
+          {task.dependsOn.map(dependencyId => (
+            <div key={dependencyId} className="flex items-center gap-2">
+              <button onClick={() => onSelectTask(dependencyId)} className="flex-1 min-w-0 truncate text-left text-gray-200 hover:underline">{titleOf(dependencyId)}</button>
+              {lateDependencies.has(dependencyId) && (
+                <span className="flex items-center gap-1 text-xs text-amber-400" title="This dependency is scheduled in a later timeframe">
+                  <WarningIcon className="w-3.5 h-3.5" />
+                  Later
+                </span>
+              )}
+              <button onClick={() => onRemoveDependency(dependencyId)} className="p-0.5 rounded text-gray-500 hover:text-red-400" aria-label={`Remove dependency on ${titleOf(dependencyId)}`}>
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <select value="" onChange={(e) => e.target.value && onAddDependency(e.target.value)} disabled={candidates.length === 0} className={inputClass} aria-label="Add dependency">
+            <option value="">Add a dependency…</option>
+            {candidates.map(entry => <option key={entry.task.id} value={entry.task.id}>{entry.task.title}</option>)}
+          </select>
+          {dependents.length > 0 && (
+            <>
+              <span className="text-gray-400 mt-2">Required by</span>
+              {dependents.map(entry => (
+                <button key={entry.task.id} onClick={() => onSelectTask(entry.task.id)} className="truncate text-left text-gray-200 hover:underline">{entry.task.title}</button>
+              ))}
+            </>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 text-sm">
+          <span className="text-gray-400">Links</span>
+          {task.links.map((link, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <a href={link.url} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-0 truncate text-blue-300 hover:underline" title={link.url}>{link.label}</a>
+              <button
+                onClick={() => onChange({ links: task.links.filter((_, i) => i !== index) })}
+                className="p-0.5 rounded text-gray-500 hover:text-red-400"
+                aria-label={`Remove link ${link.label}`}
+              >
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <input type="text" value={newLink.label} onChange={(e) => setNewLink({ ...newLink, label: e.target.value })} placeholder="Label" className={`${inputClass} w-1/3`} />
+            <input
+              type="url"
+              value={newLink.url}
+              onChange={(e) => setNewLink({ ...newLink, url: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && addLink()}
+              placeholder="https://"
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={addLink} disabled={!newLink.url.trim()} className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-40" aria-label="Add link">
+              <PlusIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {comments && (
+          <div ref={commentsRef} className="flex flex-col gap-2 text-sm">
+            <span className="text-gray-400">Comments</span>
+            <CommentThreads {...comments} autoFocus={focusComments && comments.threads.length === 0} />
+          </div>
+        )}
+      </div>
+      <div className="p-4 border-t border-gray-700">
+        <button onClick={onDelete} className="flex items-center gap-2 text-sm text-gray-400 hover:text-red-400">
+          <TrashIcon className="w-4 h-4" />
+          Delete deliverable
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default TaskDetailDrawer;
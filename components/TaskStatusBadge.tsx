@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { TaskStatus } from '../services/geminiService';
+import { getTaskStatusStyle } from '../services/roadmapTasks';
+
+interface TaskStatusBadgeProps {
+  status: TaskStatus;
+  className?: string;
+}
+
+const TaskStatusBadge: React.FC<TaskStatusBadgeProps> = ({ status, className = '' }) => {
+  const style = getTaskStatusStyle(status);
+  return (
+    <span className={`inline-block align-middle whitespace-nowrap rounded-full px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide leading-none ${style.badge} ${className}`}>
+      {style.label}
+    </span>
+  );
+};
+
+export default TaskStatusBadge;
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+import { applyFieldChanges, diffRoadmaps } from '../services/collab/roadmapCrdt';
+import type { FieldChange } from '../services/collab/roadmapCrdt';
+import { createCollabSession, loadCollabProfile, saveCollabProfile } from '../services/collab/collabSession';
+import type { CellRef, CollabProfile, CollabSession, CollabStatus, Collaborator } from '../services/collab/collabSession';
+
+// --- Collaboration ---
+// Connects the editor to a collaboration room: local edits are sent as they happen and edits
+// from others are handed to `onRemoteChanges`.
+
+export interface CollabRoom {
+  id: string;
+  // Joins the room on the sync server too, not only in the other tabs of this browser.
+  live: boolean;
+}
+
+export const useCollaboration = (room: CollabRoom | null, data: RoadmapData, onRemoteChanges: (changes: FieldChange[]) => void) => {
+  const [status, setStatus] = useState<CollabStatus | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [profile, setProfileState] = useState<CollabProfile>(loadCollabProfile);
+  const session = useRef<CollabSession | null>(null);
+  // The roadmap as last sent or received; what differs from it is a local edit.
+  const synced = useRef(data);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const onRemoteChangesRef = useRef(onRemoteChanges);
+  onRemoteChangesRef.current = onRemoteChanges;
+
+  useEffect(() => {
+    if (!room) return;
+    synced.current = dataRef.current;
+    const current = createCollabSession({
+      roomId: room.id,
+      useServer: room.live,
+      profile,
+      getData: () => dataRef.current,
+      onRemoteChanges: changes => {
+        synced.current = applyFieldChanges(synced.current, changes);
+        onRemoteChangesRef.current(changes);
+      },
+      onCollaborators: setCollaborators,
+      onStatus: setStatus,
+    });
+    session.current = current;
+    const handleUnload = () => current.close();
+    window.addEventListener('pagehide', handleUnload);
+    return () => {
+      window.removeEventListener('pagehide', handleUnload);
+      current.close();
+      session.current = null;
+      setCollaborators([]);
+      setStatus(null);
+    };
+  }, [room?.id, room?.live]);
+
+  useEffect(() => {
+    if (!session.current || data === synced.current) return;
+    session.current.publish(diffRoadmaps(synced.current, data));
+    synced.current = data;
+  }, [data]);
+
+  // Two people adding an item at the same time would both take the next free ID, so while connected to a room
+  // new IDs get a suffix of their own. Others may be editing before their presence arrives, so it is not waited for.
+  const uniqueId = useCallback((id: string) => (session.current ? `${id}-${session.current.clientId.slice(0, 4)}` : id), []);
+
+  const setCell = useCallback((cell: CellRef | null) => session.current?.setCell(cell), []);
+
+  const setProfile = useCallback((next: CollabProfile) => {
+    saveCollabProfile(next);
+    setProfileState(next);
+    session.current?.setProfile(next);
+  }, []);
+
+  return { status, collaborators, profile, setProfile, setCell, uniqueId };
+};
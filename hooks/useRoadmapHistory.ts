@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useState, useCallback } from 'react';
+import type { RoadmapData } from '../services/geminiService';
+
+// --- Edit History ---
+// A linear undo/redo stack of RoadmapData snapshots. Committing a new edit after
+// undoing discards the redo branch, like in most editors.
+
+export interface HistoryEntry {
+  label: string;
+  data: RoadmapData;
+  timestamp: number;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+
+const initialState = (data: RoadmapData): HistoryState => ({
+  entries: [{ label: 'Opened roadmap', data, timestamp: Date.now() }],
+  index: 0,
+});
+
+export const useRoadmapHistory = (initialData: RoadmapData) => {
+  const [state, setState] = useState<HistoryState>(() => initialState(initialData));
+
+  /** Applies an edit and records it as a new history entry. */
+  const commit = useCallback((label: string, update: (current: RoadmapData) => RoadmapData) => {
+    setState(prev => {
+      const current = prev.entries[prev.index].data;
+      const next = update(current);
+      if (next === current) return prev;
+      const entries = [...prev.entries.slice(0, prev.index + 1), { label, data: next, timestamp: Date.now() }]
+        .slice(-MAX_HISTORY_ENTRIES);
+      return { entries, index: entries.length - 1 };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => (prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev));
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => (prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev));
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    setState(prev => (index >= 0 && index < prev.entries.length ? { ...prev, index } : prev));
+  }, []);
+
+  /**
+   * Applies someone else's edit to every entry without recording it, so undo and redo only
+   * step through the local edits and never revert those of others.
+   */
+  const rebase = useCallback((update: (data: RoadmapData) => RoadmapData) => {
+    setState(prev => ({ ...prev, entries: prev.entries.map(entry => ({ ...entry, data: update(entry.data) })) }));
+  }, []);
+
+  /** Starts a fresh history, e.g. when another roadmap is loaded. */
+  const reset = useCallback((data: RoadmapData) => {
+    setState(initialState(data));
+  }, []);
+
+  return {
+    present: state.entries[state.index].data,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    rebase,
+    reset,
+  };
+};
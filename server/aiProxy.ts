@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AiProvider, ProviderSettings } from '../services/providers/types';
+import { AI_TASK_KINDS, buildAiRequest } from '../services/aiTasks';
+import { isObject } from '../services/roadmapValidator';
+import type { ProxyGenerateRequest, ProxyStreamLine } from '../services/providers/proxyProvider';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { gatewayProvider } from '../services/providers/gatewayProvider';
+import { config } from './config';
+import { HttpError, parseJson, readBody } from './http';
+
+// --- AI Proxy ---
+// Runs the credentialed providers on the server and streams their output to the browser as
+// newline-delimited JSON (see ProxyStreamLine).
+
+// Only the providers that need credentials; the others run in the browser.
+const PROVIDERS: Record<string, { provider: AiProvider; settings: (model: string) => ProviderSettings }> = {
+    [geminiProvider.id]: { provider: geminiProvider, settings: model => ({ model, baseUrl: '' }) },
+    [gatewayProvider.id]: { provider: gatewayProvider, settings: model => ({ model, baseUrl: config.gatewayUrl }) },
+};
+
+// The model becomes part of the gateway URL, so only plain model names are accepted.
+const MODEL_PATTERN = /^[\w.:-]{1,100}$/;
+// Validation errors of a previous response are listed in the instructions of a second attempt.
+const MAX_VALIDATION_ERRORS = 50;
+
+const isIssue = (value: unknown): value is { path: string; message: string } =>
+    isObject(value) && typeof value.path === 'string' && typeof value.message === 'string';
+
+// The client only chooses the task and sends the user's input; the instructions and the schema are built here,
+// so the server's credentials cannot be used for arbitrary prompts.
+const parseGenerateRequest = (body: string): ProxyGenerateRequest => {
+    const raw = parseJson(body);
+    if (!isObject(raw)) throw new HttpError(400, 'The request body must be a JSON object.');
+    if (typeof raw.provider !== 'string' || !PROVIDERS[raw.provider]) throw new HttpError(400, `Unknown provider "${raw.provider}".`);
+    if (typeof raw.model !== 'string' || !MODEL_PATTERN.test(raw.model)) throw new HttpError(400, 'Invalid model name.');
+    const task = AI_TASK_KINDS.find(kind => kind === raw.task);
+    if (!task) throw new HttpError(400, `Unknown task "${raw.task}".`);
+    if (typeof raw.input !== 'string') throw new HttpError(400, 'The request needs an "input".');
+    const errors = raw.validationErrors ?? [];
+    if (!Array.isArray(errors) || errors.length > MAX_VALIDATION_ERRORS || !errors.every(isIssue)) throw new HttpError(400, 'Invalid validation errors.');
+    const validationErrors = errors.map(issue => ({ path: issue.path.slice(0, 200), message: issue.message.slice(0, 500), repaired: false }));
+    return { provider: raw.provider, model: raw.model, task, input: raw.input, validationErrors };
+};
+
+export interface GenerateStats {
+    provider: string;
+    model: string;
+    inputChars: number;
+    outputChars: number;
+}
+
+/** Handles POST /api/ai/generate. Resolves with what to log once the response is finished. */
+export const handleGenerate = async (req: IncomingMessage, res: ServerResponse): Promise<GenerateStats> => {
+    const { provider: providerId, model, task, input, validationErrors } = parseGenerateRequest(await readBody(req));
+    const request = buildAiRequest(task, input, validationErrors);
+    const { provider, settings: toSettings } = PROVIDERS[providerId];
+    const settings = toSettings(model);
+    const configurationError = provider.getConfigurationError(settings);
+    // 501, not 503: retrying will not help, and the browser falls back to the local parser.
+    if (configurationError) throw new HttpError(501, `The server is not configured for ${provider.label}. ${configurationError}`);
+
+    // Stop the upstream request when the browser cancels or goes away.
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const stats: GenerateStats = { provider: providerId, model, inputChars: request.input.length, outputChars: 0 };
+    const send = (line: ProxyStreamLine) => res.write(`${JSON.stringify(line)}\n`);
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+
+    try {
+        const text = await provider.generateJson(request, settings, {
+            signal: controller.signal,
+            onText: textSoFar => {
+                send({ text: textSoFar.slice(stats.outputChars) });
+                stats.outputChars = textSoFar.length;
+            },
+        });
+        // Providers that do not stream deliver everything at the end.
+        if (text.length > stats.outputChars) {
+            send({ text: text.slice(stats.outputChars) });
+            stats.outputChars = text.length;
+        }
+        send({ done: true });
+    } catch (e) {
+        // The status line is already sent, so the error travels in the stream.
+        if (!controller.signal.aborted) send({ error: `${provider.label} request failed: ${(e as Error).message}` });
+        throw e;
+    } finally {
+        res.end();
+    }
+    return stats;
+};
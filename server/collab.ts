@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { createReplica } from '../services/collab/roadmapCrdt';
+import type { RoadmapReplica } from '../services/collab/roadmapCrdt';
+import { COLLAB_TOKEN_HEADER, ROOM_ID_PATTERN, parseCollabMessage } from '../services/collab/collabSession';
+import type { CollabMessage, CollabWelcome, Collaborator } from '../services/collab/collabSession';
+import { config } from './config';
+import { HttpError, parseJson, readBody } from './http';
+
+// --- Collaboration Rooms ---
+// Clients receive a room's messages as server-sent events and send theirs with POST. The server
+// merges every edit into its own replica, so a client that joins later (or reconnects) gets the
+// current roadmap at once. Rooms live in memory and are dropped a while after the last client left.
+// Each event stream gets a token; a POST is sent by the client whose stream has its token, whatever
+// its body says.
+
+interface Room {
+    replica: RoadmapReplica;
+    clients: Map<string, { res: ServerResponse; token: string; presence?: Collaborator }>;
+    idleTimer?: NodeJS.Timeout;
+}
+
+const SERVER_ID = 'server';
+const ROOM_IDLE_MS = 10 * 60_000;
+// Keeps proxies from closing a quiet event stream.
+const KEEPALIVE_MS = 25_000;
+
+const rooms = new Map<string, Room>();
+
+const write = (res: ServerResponse, message: CollabMessage | CollabWelcome) => res.write(`data: ${JSON.stringify(message)}\n\n`);
+
+const relay = (room: Room, message: CollabMessage) => room.clients.forEach((client, clientId) => {
+    if (clientId !== message.from) write(client.res, message);
+});
+
+const openRoom = (roomId: string): Room => {
+    let room = rooms.get(roomId);
+    if (!room) {
+        if (rooms.size >= config.collabMaxRooms) throw new HttpError(503, 'The sync server has too many open rooms.');
+        room = { replica: createReplica(SERVER_ID), clients: new Map() };
+        rooms.set(roomId, room);
+    }
+    clearTimeout(room.idleTimer);
+    return room;
+};
+
+const checkIds = (roomId: string, clientId?: string) => {
+    if (!ROOM_ID_PATTERN.test(roomId)) throw new HttpError(400, 'Invalid room ID.');
+    if (clientId !== undefined && !ROOM_ID_PATTERN.test(clientId)) throw new HttpError(400, 'Invalid client ID.');
+};
+
+/** Handles GET /api/collab/:room/events. Resolves when the client disconnects. */
+export const handleCollabEvents = (req: IncomingMessage, res: ServerResponse, roomId: string, clientId: string): Promise<void> => {
+    checkIds(roomId, clientId);
+    const room = openRoom(roomId);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-store', Connection: 'keep-alive' });
+
+    // A reconnecting client replaces its old stream.
+    room.clients.get(clientId)?.res.end();
+    const token = randomBytes(16).toString('hex');
+    room.clients.set(clientId, { res, token });
+    write(res, { type: 'welcome', token });
+    write(res, { type: 'state', from: SERVER_ID, ops: room.replica.snapshot() });
+    room.clients.forEach((client, id) => {
+        if (id !== clientId && client.presence) write(res, { type: 'presence', from: id, presence: client.presence });
+    });
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEPALIVE_MS);
+
+    return new Promise(resolve => res.on('close', () => {
+        clearInterval(keepAlive);
+        if (room.clients.get(clientId)?.res === res) {
+            room.clients.delete(clientId);
+            relay(room, { type: 'leave', from: clientId });
+        }
+        if (room.clients.size === 0) room.idleTimer = setTimeout(() => rooms.delete(roomId), ROOM_IDLE_MS);
+        resolve();
+    }));
+};
+
+/** Handles POST /api/collab/:room. Only clients connected to the room's events can post to it, as themselves. */
+export const handleCollabMessage = async (req: IncomingMessage, res: ServerResponse, roomId: string) => {
+    checkIds(roomId);
+    const received = parseCollabMessage(parseJson(await readBody(req)));
+    if (!received) throw new HttpError(400, 'Invalid message.');
+    const token = req.headers[COLLAB_TOKEN_HEADER.toLowerCase()];
+    const room = rooms.get(roomId);
+    const sender = room && typeof token === 'string' ? [...room.clients].find(([, client]) => client.token === token) : undefined;
+    if (!room || !sender) throw new HttpError(409, 'Connect to the room first.');
+    const [from, client] = sender;
+    const message: CollabMessage = received.type === 'presence'
+        ? { ...received, from, presence: { ...received.presence, clientId: from } }
+        : { ...received, from };
+
+    switch (message.type) {
+        case 'ops':
+        case 'state': {
+            // Only what was new is passed on; the rest the others already have.
+            const { accepted } = room.replica.merge(message.ops);
+            if (accepted.length > 0) relay(room, { type: 'ops', from: message.from, ops: accepted });
+            break;
+        }
+        case 'presence':
+            client.presence = message.presence;
+            relay(room, message);
+            break;
+        case 'leave':
+            relay(room, message);
+            break;
+        // 'hello' is answered when the event stream opens.
+    }
+    res.writeHead(204, { 'Cache-Control': 'no-store' });
+    res.end();
+};
+
+export const getCollabStats = () => ({
+    rooms: rooms.size,
+    clients: [...rooms.values()].reduce((sum, room) => sum + room.clients.size, 0),
+});
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { existsSync } from 'node:fs';
+import process from 'node:process';
+
+// --- Server Configuration ---
+// Read from the environment, optionally from .env and .env.local like the Vite dev server. The
+// credentials use the same variable names as direct mode, so one .env file serves both.
+
+['.env.local', '.env'].filter(file => existsSync(file)).forEach(file => {
+    // Variables that are already set win, so .env.local overrides .env.
+    process.loadEnvFile(file);
+});
+
+const readNumber = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const config = {
+    port: readNumber('PORT', 8787),
+    // The built app to serve next to the API, if present (see `npm run build`).
+    staticDir: process.env.STATIC_DIR || 'dist',
+    // Requests per user within the window.
+    rateLimit: readNumber('AI_RATE_LIMIT', 30),
+    rateWindowMs: readNumber('AI_RATE_WINDOW_SECONDS', 600) * 1000,
+    // Behind a reverse proxy, the user's address comes from X-Forwarded-For instead of the socket.
+    trustProxy: process.env.TRUST_PROXY === 'true',
+    maxBodyBytes: readNumber('AI_MAX_BODY_BYTES', 2 * 1024 * 1024),
+    // The endpoint is fixed here; clients can never redirect the key to another URL.
+    gatewayUrl: process.env.VITE_AI_GATEWAY_URL || '',
+    // Live collaboration rooms kept in memory at once.
+    collabMaxRooms: readNumber('COLLAB_MAX_ROOMS', 100),
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { config } from './config';
+import { createRateLimiter } from './rateLimiter';
+import { handleGenerate } from './aiProxy';
+import type { GenerateStats } from './aiProxy';
+import { HttpError, sendJson } from './http';
+import { getCollabStats, handleCollabEvents, handleCollabMessage } from './collab';
+
+// --- App Server ---
+// Holds the AI credentials and proxies the model calls, so no key ever reaches the browser.
+// Also hosts the live collaboration rooms and serves the built app, if there is one, so a
+// deployment needs only this process.
+
+const rateLimiter = createRateLimiter({ limit: config.rateLimit, windowMs: config.rateWindowMs });
+
+// Users are not signed in, so a user is an address.
+const getUserKey = (req: IncomingMessage) => {
+    const forwarded = config.trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+// One line per request. Prompts, responses and credentials are never logged.
+const logRequest = (req: IncomingMessage, user: string, status: number, startedAt: number, stats?: GenerateStats, error?: unknown) => {
+    const parts = [
+        new Date().toISOString(),
+        req.method,
+        req.url,
+        status,
+        `${Date.now() - startedAt}ms`,
+        `user=${user}`,
+        stats && `provider=${stats.provider} model=${stats.model} in=${stats.inputChars} out=${stats.outputChars}`,
+        error && `error="${(error as Error).message}"`,
+    ];
+    console.log(`[AI Proxy] ${parts.filter(Boolean).join(' ')}`);
+};
+
+// Edits are not logged, only who comes and goes.
+const logCollab = (event: string, roomId: string, clientId: string) => {
+    const { rooms, clients } = getCollabStats();
+    console.log(`[Collab] ${new Date().toISOString()} client=${clientId} ${event} room=${roomId} (${rooms} room(s), ${clients} client(s))`);
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+const serveStatic = (req: IncomingMessage, res: ServerResponse) => {
+    const root = path.resolve(config.staticDir);
+    const requested = path.resolve(root, `.${decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname)}`);
+    // Unknown paths get the app itself (links carry their state in the hash), but nothing outside the root.
+    const file = requested.startsWith(root + path.sep) && existsSync(requested) && statSync(requested).isFile()
+        ? requested
+        : path.join(root, 'index.html');
+    if (!existsSync(file)) return sendJson(res, 404, { error: 'Not found.' });
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    createReadStream(file).pipe(res);
+};
+
+const server = createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const user = getUserKey(req);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/api/health') return sendJson(res, 200, { ok: true });
+
+    if (url.pathname === '/api/ai/generate') {
+        if (req.method !== 'POST') return sendJson(res, 405, { error: 'Use POST.' }, { Allow: 'POST' });
+        const limit = rateLimiter.consume(user);
+        if (!limit.allowed) {
+            logRequest(req, user, 429, startedAt);
+            return sendJson(res, 429, { error: 'Too many AI requests.' }, { 'Retry-After': String(limit.retryAfterSeconds) });
+        }
+        try {
+            const stats = await handleGenerate(req, res);
+            logRequest(req, user, 200, startedAt, stats);
+        } catch (e) {
+            const status = e instanceof HttpError ? e.status : 502;
+            logRequest(req, user, status, startedAt, undefined, e);
+            // Errors during streaming were already written to the stream.
+            if (!res.headersSent) sendJson(res, status, { error: e instanceof HttpError ? e.message : 'The AI request failed.' });
+        }
+        return;
+    }
+
+    const collabRoute = url.pathname.match(/^\/api\/collab\/([^/]+)(\/events)?$/);
+    if (collabRoute) {
+        const [, roomId, events] = collabRoute;
+        try {
+            if (events && req.method === 'GET') {
+                const clientId = url.searchParams.get('client') ?? '';
+                const joined = handleCollabEvents(req, res, roomId, clientId);
+                logCollab('joined', roomId, clientId);
+                await joined;
+                logCollab('left', roomId, clientId);
+            } else if (!events && req.method === 'POST') {
+                await handleCollabMessage(req, res, roomId);
+            } else {
+                sendJson(res, 405, { error: 'Method not allowed.' });
+            }
+        } catch (e) {
+            if (!res.headersSent) sendJson(res, e instanceof HttpError ? e.status : 500, { error: e instanceof HttpError ? e.message : 'The sync request failed.' });
+        }
+        return;
+    }
+
+    if (url.pathname.startsWith('/api/')) return sendJson(res, 404, { error: 'Not found.' });
+    if (req.method !== 'GET' && req.method !== 'HEAD') return sendJson(res, 405, { error: 'Method not allowed.' });
+    try {
+        serveStatic(req, res);
+    } catch (e) {
+        // E.g. a malformed escape in the path.
+        sendJson(res, 400, { error: 'Bad request.' });
+    }
+});
+
+server.listen(config.port, () => {
+    console.log(`[AI Proxy] Listening on http://localhost:${config.port} (${config.rateLimit} AI requests per ${config.rateWindowMs / 1000}s per user).`);
+});
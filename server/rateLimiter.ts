@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Rate Limiting ---
+// A sliding window per user: at most `limit` requests within the last `windowMs`.
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    // Seconds until the next request is allowed; 0 when allowed.
+    retryAfterSeconds: number;
+}
+
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+    const requests = new Map<string, number[]>();
+
+    // Forget users without recent requests, so the map does not grow forever.
+    const sweep = setInterval(() => {
+        const cutoff = Date.now() - windowMs;
+        requests.forEach((times, key) => {
+            if (times[times.length - 1] <= cutoff) requests.delete(key);
+        });
+    }, windowMs);
+    sweep.unref();
+
+    /** Records a request by `key` if it is within the limit. Rejected requests are not counted. */
+    const consume = (key: string): RateLimitResult => {
+        const now = Date.now();
+        const times = (requests.get(key) ?? []).filter(time => time > now - windowMs);
+        if (times.length >= limit) {
+            requests.set(key, times);
+            return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((times[0] + windowMs - now) / 1000) };
+        }
+        times.push(now);
+        requests.set(key, times);
+        return { allowed: true, remaining: limit - times.length, retryAfterSeconds: 0 };
+    };
+
+    return { consume };
+};
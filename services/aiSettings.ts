@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getProvider, listProviders } from './providers';
+import type { AiProvider, ProviderSettings } from './providers';
+import { env } from './providers/env';
+
+// --- Runtime AI Settings ---
+// The provider chosen at build time (VITE_AI_PROVIDER) is only the default; the settings UI
+// can switch providers and models at runtime. Choices are kept in localStorage.
+// Credentials are never stored here; they always come from the environment.
+
+export interface AiSettings {
+    providerId: string;
+    // Settings per provider, so switching back and forth keeps each provider's model.
+    providers: Record<string, ProviderSettings>;
+}
+
+const SETTINGS_KEY = 'roadmap-editor:ai-settings';
+
+const defaultSettings = (): AiSettings => ({
+    providerId: getProvider(env.provider) ? env.provider : 'GEMINI',
+    providers: Object.fromEntries(listProviders().map(provider => [provider.id, { ...provider.defaultSettings }])),
+});
+
+export const loadAiSettings = (): AiSettings => {
+    const defaults = defaultSettings();
+    // Outside the browser, e.g. in the CLI, nothing is stored.
+    if (typeof localStorage === 'undefined') return defaults;
+    try {
+        const stored: Partial<AiSettings> = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+        const providers = { ...defaults.providers };
+        Object.entries(stored.providers ?? {}).forEach(([id, settings]) => {
+            if (providers[id]) providers[id] = { ...providers[id], ...settings };
+        });
+        return {
+            providerId: stored.providerId && getProvider(stored.providerId) ? stored.providerId : defaults.providerId,
+            providers,
+        };
+    } catch (e) {
+        console.error('[AI Settings] Could not read stored settings:', e);
+        return defaults;
+    }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const resetAiSettings = () => {
+    localStorage.removeItem(SETTINGS_KEY);
+};
+
+/** The provider currently selected, together with its settings. */
+export const getActiveProvider = (settings: AiSettings = loadAiSettings()): { provider: AiProvider; settings: ProviderSettings } => {
+    const provider = getProvider(settings.providerId) ?? listProviders()[0];
+    return { provider, settings: settings.providers[provider.id] ?? provider.defaultSettings };
+};
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Type } from "@google/genai";
+import type { AiGenerationRequest, AiTaskKind } from "./providers/types";
+import { formatValidationIssues } from "./roadmapValidator";
+import type { ValidationIssue } from "./roadmapValidator";
+import { PATCH_OPERATION_TYPES } from "./roadmapPatch";
+import { REVIEW_FINDING_KINDS } from "./roadmapReview";
+
+// --- AI Tasks ---
+// The instructions and response schemas of the AI features. Requests are always built here from the task
+// kind, in the browser and on the app server alike, so the server runs only these tasks with its credentials.
+
+export const AI_TASK_KINDS: AiTaskKind[] = ['generate', 'patch', 'review'];
+
+const roadmapSchema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING, description: "The main title of the roadmap." },
+        subtitle: { type: Type.STRING, description: "The subtitle of the roadmap." },
+        pillars: {
+            type: Type.ARRAY,
+            description: "An array of strategic pillars.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING, description: "A unique identifier for the pillar, starting with 'p' (e.g., 'p1', 'p2')." },
+                    name: { type: Type.STRING, description: "The name of the strategic pillar." }
+                },
+                required: ['id', 'name']
+            }
+        },
+        timeframes: {
+            type: Type.ARRAY,
+            description: "An array of timeframes for the roadmap.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING, description: "A unique identifier for the timeframe, starting with 't' (e.g., 't1', 't2')." },
+                    date: { type: Type.STRING, description: "The date range for the timeframe (e.g., '2025 - Q1 & Q2')." },
+                    name: { type: Type.STRING, description: "The descriptive name for the timeframe (e.g., 'FlowX Build-out')." },
+                    deliverables: {
+                        type: Type.ARRAY,
+                        description: "An array of objects, where each object links a pillar ID to a list of its tasks/deliverables for this timeframe.",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                pillarId: {
+                                    type: Type.STRING,
+                                    description: "The ID of the pillar (e.g., 'p1', 'p2')."
+                                },
+                                tasks: {
+                                    type: Type.ARRAY,
+                                    description: "An array of deliverables for the corresponding pillar.",
+                                    items: {
+                                        type: Type.OBJECT,
+                                        properties: {
+                                            id: { type: Type.STRING, description: "A unique identifier for the deliverable across the whole roadmap, starting with 'd' (e.g., 'd1', 'd2')." },
+                                            title: { type: Type.STRING, description: "The deliverable text." },
+                                            status: {
+                                                type: Type.STRING,
+                                                enum: ['planned', 'in-progress', 'done', 'at-risk', 'blocked'],
+                                                description: "The delivery status. Use 'planned' unless the text states otherwise."
+                                            },
+                                            owner: { type: Type.STRING, description: "The person or team responsible, or an empty string." },
+                                            progress: { type: Type.NUMBER, description: "Percent complete, from 0 to 100." },
+                                            tags: { type: Type.ARRAY, description: "Short labels for the deliverable.", items: { type: Type.STRING } },
+                                            description: { type: Type.STRING, description: "Optional longer description." },
+                                            links: {
+                                                type: Type.ARRAY,
+                                                description: "Links to tickets or documents.",
+                                                items: {
+                                                    type: Type.OBJECT,
+                                                    properties: {
+                                                        label: { type: Type.STRING },
+                                                        url: { type: Type.STRING }
+                                                    },
+                                                    required: ['label', 'url']
+                                                }
+                                            },
+                                            dependsOn: {
+                                                type: Type.ARRAY,
+                                                description: "IDs of the deliverables that must be completed before this one (e.g., ['d3']).",
+                                                items: { type: Type.STRING }
+                                            }
+                                        },
+                                        required: ['id', 'title', 'status']
+                                    }
+                                }
+                            },
+                            required: ['pillarId', 'tasks']
+                        }
+                    }
+                },
+                required: ['id', 'date', 'name', 'deliverables']
+            }
+        }
+    },
+    required: ['title', 'subtitle', 'pillars', 'timeframes']
+};
+
+// The answer to an edit command: a flat list of operations, so the schema stays simple enough for
+// every provider. Which fields apply depends on the operation type (see the edit instructions).
+const patchSchema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: "One sentence describing the change." },
+        operations: {
+            type: Type.ARRAY,
+            description: "The edits, applied in order.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: PATCH_OPERATION_TYPES, description: "The kind of edit." },
+                    taskId: { type: Type.STRING, description: "The ID of an existing deliverable (e.g., 'd3')." },
+                    pillarId: { type: Type.STRING, description: "The ID of a pillar, or the new ID for 'addPillar'." },
+                    timeframeId: { type: Type.STRING, description: "The ID of a timeframe, or the new ID for 'addTimeframe'." },
+                    title: { type: Type.STRING, description: "The deliverable text." },
+                    name: { type: Type.STRING, description: "The name of a pillar or timeframe." },
+                    date: { type: Type.STRING, description: "The date range of a timeframe (e.g., '2026 H1')." },
+                    status: { type: Type.STRING, enum: ['planned', 'in-progress', 'done', 'at-risk', 'blocked'] },
+                    owner: { type: Type.STRING },
+                    progress: { type: Type.NUMBER, description: "Percent complete, from 0 to 100." },
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    description: { type: Type.STRING }
+                },
+                required: ['type']
+            }
+        }
+    },
+    required: ['summary', 'operations']
+};
+
+const reviewSchema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: "Two or three sentences on the overall state of the roadmap." },
+        findings: {
+            type: Type.ARRAY,
+            description: "The problems found, most important first.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    kind: { type: Type.STRING, enum: REVIEW_FINDING_KINDS, description: "The kind of problem." },
+                    message: { type: Type.STRING, description: "The problem and a suggestion, in one or two sentences." },
+                    timeframeId: { type: Type.STRING, description: "The timeframe the finding is about, if any." },
+                    pillarId: { type: Type.STRING, description: "The pillar the finding is about, if any." },
+                    taskIds: { type: Type.ARRAY, description: "The deliverables the finding is about, if any.", items: { type: Type.STRING } }
+                },
+                required: ['kind', 'message']
+            }
+        }
+    },
+    required: ['summary', 'findings']
+};
+
+const roadmapInstructions = `Parse the provided roadmap in Markdown format into a structured JSON object.
+
+**Instructions:**
+1.  Extract the main title and subtitle.
+2.  Identify all strategic pillars and assign a unique ID to each (p1, p2, p3, ...).
+3.  Identify all timeframes and assign a unique ID to each (t1, t2, t3, ...).
+4.  For each timeframe, separate the date from the descriptive name. For example, in "2025 - Q1 & Q2: FlowX Build-out", the 'date' is "2025 - Q1 & Q2" and the 'name' is "FlowX Build-out".
+5.  For each timeframe, create a 'deliverables' array. Each item in this array should be an object containing the 'pillarId' and a 'tasks' array with the corresponding deliverables.
+6.  Each deliverable is an object with a unique 'id' (d1, d2, d3, ... across the whole roadmap), its 'title' and a 'status' ('planned', 'in-progress', 'done', 'at-risk' or 'blocked'). Capture the owner, percent complete, tags, description and links only when the text states them, e.g. "{status: done; owner: Dana; progress: 40%; tags: api}", "[x]", indented descriptions or Markdown links below a deliverable.
+7.  When the text states that a deliverable depends on, requires, or comes after another one (e.g. "after: Comprehensive Business Process Migration", "depends on X", "blocked by X"), add the ID of that other deliverable to 'dependsOn'. Only reference deliverables that exist in the roadmap.
+8.  Adhere strictly to the provided JSON schema. Your response must be only the JSON object.`;
+
+const editInstructions = `You edit an existing product roadmap. The input contains the roadmap as JSON and a command from the user. Return the edits that carry out the command as a list of operations.
+
+**Operations:**
+- 'addTask': add a deliverable. Needs 'timeframeId', 'pillarId' and 'title'; may set 'status', 'owner', 'progress', 'tags' and 'description'.
+- 'updateTask': change a deliverable. Needs 'taskId' and only the fields that change ('title', 'status', 'owner', 'progress', 'tags', 'description').
+- 'moveTask': move a deliverable to another cell. Needs 'taskId' and the target 'timeframeId' and/or 'pillarId'.
+- 'deleteTask': needs 'taskId'.
+- 'addPillar': needs 'name' and a new, unused 'pillarId' (e.g. 'new-p1') that later operations can refer to.
+- 'renamePillar': needs 'pillarId' and 'name'.
+- 'deletePillar': removes the pillar with all of its deliverables. Needs 'pillarId'.
+- 'addTimeframe': needs 'date', 'name' and a new, unused 'timeframeId' (e.g. 'new-t1') that later operations can refer to.
+- 'updateTimeframe': needs 'timeframeId' and the new 'date' and/or 'name'.
+
+**Instructions:**
+1.  Only refer to IDs that exist in the roadmap or that an earlier operation of your answer adds.
+2.  Make only the changes the command asks for. To move items to a period that does not exist yet, add the timeframe first. To split a pillar, rename it, add the new pillar and move the deliverables that belong there.
+3.  When the command rewrites text, keep the meaning and the facts of each deliverable.
+4.  Put a one-sentence description of the change in 'summary'. If the command cannot be carried out, return no operations and explain why in 'summary'.
+5.  Adhere strictly to the provided JSON schema. Your response must be only the JSON object.`;
+
+const reviewInstructions = `You review a product roadmap, given as JSON, like an experienced product lead. Report concrete problems as findings.
+
+**Look for:**
+- 'overload': a timeframe (or a pillar within a timeframe) with clearly more deliverables than the others.
+- 'gap': a pillar with no deliverables in a timeframe, or a long stretch without any.
+- 'vague': deliverables that are vague or untestable, e.g. "Improve performance" without a measurable outcome.
+- 'duplicate': deliverables that describe the same work, often in different pillars.
+- 'balance': pillars with far more or far fewer deliverables than the rest.
+- 'other': anything else a reviewer would point out, e.g. dependencies that are scheduled in the wrong order.
+
+**Instructions:**
+1.  Attach each finding to what it is about: 'timeframeId' and 'pillarId' for a cell, only 'timeframeId' or only 'pillarId' for a whole timeframe or pillar, 'taskIds' for specific deliverables, or nothing for the roadmap as a whole.
+2.  Only use IDs that exist in the roadmap.
+3.  Be specific and brief. Do not report problems that are not there; an empty list is a valid answer.
+4.  Adhere strictly to the provided JSON schema. Your response must be only the JSON object.`;
+
+// The instructions for a second attempt, after the first response failed validation.
+const withValidationErrors = (instructions: string, errors: ValidationIssue[]) => `${instructions}
+
+Your previous response did not pass validation. It had the following problems:
+${formatValidationIssues(errors)}
+Return a corrected JSON object that fixes all of them.`;
+
+const TASKS: Record<AiTaskKind, { instructions: string; schema: object }> = {
+    generate: { instructions: roadmapInstructions, schema: roadmapSchema },
+    patch: { instructions: editInstructions, schema: patchSchema },
+    review: { instructions: reviewInstructions, schema: reviewSchema },
+};
+
+/** The request for a task. Validation errors of a previous response make it a second attempt. */
+export const buildAiRequest = (kind: AiTaskKind, input: string, validationErrors: ValidationIssue[] = []): AiGenerationRequest => ({
+    task: { kind, validationErrors },
+    instructions: validationErrors.length > 0 ? withValidationErrors(TASKS[kind].instructions, validationErrors) : TASKS[kind].instructions,
+    input,
+    schema: TASKS[kind].schema,
+});
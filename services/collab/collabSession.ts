@@ -0,0 +1,325 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from '../geminiService';
+import { getPaletteColor } from '../pillarColors';
+import { isObject } from '../roadmapValidator';
+import { createReplica, diffRoadmaps, isCrdtOperation, seedReplica } from './roadmapCrdt';
+import type { CrdtOperation, FieldChange } from './roadmapCrdt';
+
+// --- Collaboration Session ---
+// Keeps a roadmap in sync between everyone in a room. Tabs of the same browser talk over a
+// BroadcastChannel, which needs no server; with `useServer` the room is also joined on the sync
+// server (server/collab.ts), which relays between browsers and keeps the room's state.
+
+export const COLLAB_URL = '/api/collab';
+
+// Room IDs become part of URLs and channel names.
+export const ROOM_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export interface CollabProfile {
+    name: string;
+    color: string;
+}
+
+export interface CellRef {
+    timeframeId: string;
+    pillarId: string;
+}
+
+export interface Collaborator extends CollabProfile {
+    clientId: string;
+    // The cell the user is editing, if any.
+    cell: CellRef | null;
+}
+
+// 'local': this browser only. 'connecting' and 'offline' are retried until the session is closed.
+export type CollabStatus = 'local' | 'connecting' | 'live' | 'offline';
+
+export type CollabMessage =
+    | { type: 'ops'; from: string; ops: CrdtOperation[] }
+    // Asks everyone for their state and presence.
+    | { type: 'hello'; from: string }
+    | { type: 'state'; from: string; ops: CrdtOperation[] }
+    | { type: 'presence'; from: string; presence: Collaborator }
+    | { type: 'leave'; from: string };
+
+// The first event of a connection to the sync server. Posts to the room carry its token, which tells
+// the server who sent them.
+export interface CollabWelcome {
+    type: 'welcome';
+    token: string;
+}
+
+export const COLLAB_TOKEN_HEADER = 'X-Collab-Token';
+
+/** The message in a value received from elsewhere, or null if it is not a valid message. Presence is trimmed to size. */
+export const parseCollabMessage = (raw: unknown): CollabMessage | null => {
+    if (!isObject(raw) || typeof raw.from !== 'string' || !ROOM_ID_PATTERN.test(raw.from)) return null;
+    const { from } = raw;
+    switch (raw.type) {
+        case 'ops':
+        case 'state':
+            return Array.isArray(raw.ops) && raw.ops.every(isCrdtOperation) ? { type: raw.type, from, ops: raw.ops } : null;
+        case 'presence': {
+            const { presence } = raw;
+            if (!isObject(presence) || typeof presence.name !== 'string' || typeof presence.color !== 'string') return null;
+            const cell = isObject(presence.cell) && typeof presence.cell.timeframeId === 'string' && typeof presence.cell.pillarId === 'string'
+                ? { timeframeId: presence.cell.timeframeId, pillarId: presence.cell.pillarId }
+                : null;
+            return { type: 'presence', from, presence: { clientId: from, name: presence.name.slice(0, 60), color: presence.color.slice(0, 20), cell } };
+        }
+        case 'hello':
+        case 'leave':
+            return { type: raw.type, from };
+        default:
+            return null;
+    }
+};
+
+export interface CollabSessionOptions {
+    roomId: string;
+    useServer: boolean;
+    profile: CollabProfile;
+    // The roadmap as shown right now; used to join the room.
+    getData: () => RoadmapData;
+    // Edits from others, to apply to the shown roadmap.
+    onRemoteChanges: (changes: FieldChange[]) => void;
+    onCollaborators: (collaborators: Collaborator[]) => void;
+    onStatus: (status: CollabStatus) => void;
+}
+
+export interface CollabSession {
+    clientId: string;
+    /** Sends a local edit. Edits made before the room is joined are merged when it is. */
+    publish: (changes: FieldChange[]) => void;
+    setCell: (cell: CellRef | null) => void;
+    setProfile: (profile: CollabProfile) => void;
+    close: () => void;
+}
+
+interface Transport {
+    send: (message: CollabMessage) => void;
+    close: () => void;
+}
+
+// How long to wait for another tab to answer before starting the room from the local roadmap.
+const JOIN_TIMEOUT_MS = 400;
+const SERVER_JOIN_TIMEOUT_MS = 5_000;
+const HEARTBEAT_MS = 10_000;
+// Users who have not been heard from for this long have closed their tab without saying so.
+const PRESENCE_TIMEOUT_MS = 30_000;
+
+const createClientId = () => Math.random().toString(36).slice(2, 10);
+
+const createChannelTransport = (roomId: string, onMessage: (message: CollabMessage) => void): Transport | null => {
+    if (typeof BroadcastChannel === 'undefined') return null;
+    const channel = new BroadcastChannel(`roadmap-editor:collab:${roomId}`);
+    channel.onmessage = (e: MessageEvent<unknown>) => {
+        const message = parseCollabMessage(e.data);
+        if (message) onMessage(message);
+        else console.warn('[Collab] Ignored an invalid message from another tab.');
+    };
+    return {
+        send: message => channel.postMessage(message),
+        close: () => channel.close(),
+    };
+};
+
+const createServerTransport = (
+    roomId: string,
+    clientId: string,
+    onMessage: (message: CollabMessage) => void,
+    onStatus: (status: CollabStatus) => void,
+): Transport => {
+    const roomUrl = `${COLLAB_URL}/${encodeURIComponent(roomId)}`;
+    // EventSource reconnects by itself; the server sends a new token and the room's state on every connect.
+    const events = new EventSource(`${roomUrl}/events?client=${encodeURIComponent(clientId)}`);
+    let token: string | null = null;
+    // The latest message of each type sent before the first token arrived. Edits need no queue: the
+    // server's state is answered with a full snapshot.
+    let queued: CollabMessage[] = [];
+
+    const post = (message: CollabMessage, currentToken: string) => {
+        fetch(roomUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', [COLLAB_TOKEN_HEADER]: currentToken },
+            body: JSON.stringify(message),
+            keepalive: message.type === 'leave',
+        }).catch(e => console.warn('[Collab] Could not reach the sync server:', e));
+    };
+
+    events.onmessage = e => {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(e.data);
+        } catch {
+            raw = undefined;
+        }
+        if (isObject(raw) && raw.type === 'welcome' && typeof raw.token === 'string') {
+            const welcomeToken = raw.token;
+            token = welcomeToken;
+            queued.forEach(message => post(message, welcomeToken));
+            queued = [];
+            return;
+        }
+        const message = parseCollabMessage(raw);
+        if (message) onMessage(message);
+        else console.warn('[Collab] Ignored an invalid message from the sync server.');
+    };
+    events.onerror = () => onStatus(events.readyState === EventSource.CLOSED ? 'offline' : 'connecting');
+
+    return {
+        send: message => {
+            if (token) post(message, token);
+            else queued = [...queued.filter(other => other.type !== message.type), message];
+        },
+        close: () => events.close(),
+    };
+};
+
+export const createCollabSession = (options: CollabSessionOptions): CollabSession => {
+    const clientId = createClientId();
+    const replica = createReplica(clientId);
+    const collaborators = new Map<string, { collaborator: Collaborator; lastSeen: number }>();
+    let presence: Collaborator = { clientId, ...options.profile, cell: null };
+    let joined = false;
+    // Local edits made before joining, sent once the room's state is known.
+    let pending: FieldChange[] = [];
+    let closed = false;
+
+    const transports: Transport[] = [];
+    const broadcast = (message: CollabMessage) => transports.forEach(transport => transport.send(message));
+
+    const reportCollaborators = () => options.onCollaborators([...collaborators.values()].map(entry => entry.collaborator));
+
+    const join = (roomOps: CrdtOperation[]) => {
+        if (joined) return;
+        joined = true;
+        if (roomOps.length > 0) {
+            // Someone already has the room open: show their roadmap.
+            replica.merge(roomOps);
+            const changes = diffRoadmaps(options.getData(), replica.toRoadmap());
+            if (changes.length > 0) options.onRemoteChanges(changes);
+        } else {
+            broadcast({ type: 'ops', from: clientId, ops: seedReplica(replica, options.getData()) });
+        }
+        if (pending.length > 0) broadcast({ type: 'ops', from: clientId, ops: replica.applyLocal(pending) });
+        pending = [];
+    };
+
+    const receiveOps = (ops: CrdtOperation[]) => {
+        if (!joined) return join(ops);
+        const { changes } = replica.merge(ops);
+        if (changes.length > 0) options.onRemoteChanges(changes);
+    };
+
+    // Answers go back the way the question came.
+    const handleMessage = (message: CollabMessage, source: Transport) => {
+        if (closed || message.from === clientId) return;
+        switch (message.type) {
+            case 'ops':
+                receiveOps(message.ops);
+                break;
+            case 'state':
+                receiveOps(message.ops);
+                if (source === serverTransport) {
+                    // The server may have restarted or missed edits while this tab was offline.
+                    const ops = replica.snapshot();
+                    if (ops.length > 0) source.send({ type: 'ops', from: clientId, ops });
+                    options.onStatus('live');
+                }
+                break;
+            case 'hello':
+                if (joined) source.send({ type: 'state', from: clientId, ops: replica.snapshot() });
+                source.send({ type: 'presence', from: clientId, presence });
+                break;
+            case 'presence':
+                collaborators.set(message.from, { collaborator: message.presence, lastSeen: Date.now() });
+                reportCollaborators();
+                break;
+            case 'leave':
+                if (collaborators.delete(message.from)) reportCollaborators();
+                break;
+        }
+    };
+
+    const channelTransport: Transport | null = createChannelTransport(options.roomId, message => handleMessage(message, channelTransport!));
+    if (channelTransport) transports.push(channelTransport);
+    const serverTransport: Transport | null = options.useServer
+        ? createServerTransport(options.roomId, clientId, message => handleMessage(message, serverTransport!), options.onStatus)
+        : null;
+    if (serverTransport) transports.push(serverTransport);
+    options.onStatus(serverTransport ? 'connecting' : 'local');
+
+    // The server answers the connection itself.
+    channelTransport?.send({ type: 'hello', from: clientId });
+    broadcast({ type: 'presence', from: clientId, presence });
+    // A room nobody answers for is new. The server's answer decides, unless it cannot be reached.
+    const joinTimer = setTimeout(() => join([]), serverTransport ? SERVER_JOIN_TIMEOUT_MS : JOIN_TIMEOUT_MS);
+
+    const heartbeat = setInterval(() => {
+        broadcast({ type: 'presence', from: clientId, presence });
+        const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+        let changed = false;
+        collaborators.forEach((entry, id) => {
+            if (entry.lastSeen < cutoff) changed = collaborators.delete(id);
+        });
+        if (changed) reportCollaborators();
+    }, HEARTBEAT_MS);
+
+    const updatePresence = (changes: Partial<Collaborator>) => {
+        presence = { ...presence, ...changes };
+        broadcast({ type: 'presence', from: clientId, presence });
+    };
+
+    return {
+        clientId,
+        publish: (changes) => {
+            if (changes.length === 0) return;
+            if (!joined) {
+                pending.push(...changes);
+                return;
+            }
+            broadcast({ type: 'ops', from: clientId, ops: replica.applyLocal(changes) });
+        },
+        setCell: (cell) => {
+            if (cell?.timeframeId !== presence.cell?.timeframeId || cell?.pillarId !== presence.cell?.pillarId) updatePresence({ cell });
+        },
+        setProfile: (profile) => updatePresence(profile),
+        close: () => {
+            if (closed) return;
+            broadcast({ type: 'leave', from: clientId });
+            closed = true;
+            clearTimeout(joinTimer);
+            clearInterval(heartbeat);
+            transports.forEach(transport => transport.close());
+        },
+    };
+};
+
+// --- Profile ---
+// The name and color others see. Kept per browser.
+
+const PROFILE_KEY = 'roadmap-editor:collab-profile';
+
+export const loadCollabProfile = (): CollabProfile => {
+    try {
+        const stored: Partial<CollabProfile> = JSON.parse(localStorage.getItem(PROFILE_KEY) || '{}');
+        if (stored.name && stored.color) return { name: stored.name, color: stored.color };
+    } catch (e) {
+        console.error('[Collab] Could not read the stored profile:', e);
+    }
+    const profile = { name: `Guest ${Math.floor(1000 + Math.random() * 9000)}`, color: getPaletteColor(Math.floor(Math.random() * 12)) };
+    saveCollabProfile(profile);
+    return profile;
+};
+
+export const saveCollabProfile = (profile: CollabProfile) => {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+};
+
+/** A new room for a live session. */
+export const createRoomId = () => `${createClientId()}${createClientId()}`;
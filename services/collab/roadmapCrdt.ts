@@ -0,0 +1,363 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CommentThread, RoadmapComment, RoadmapData, Task, TaskLink } from '../geminiService';
+import { TASK_STATUSES, createTask, parseTaskStatus } from '../roadmapTasks';
+import { isObject } from '../roadmapValidator';
+import { pruneDependencies } from '../roadmapDependencies';
+import { pruneThreads } from '../roadmapComments';
+
+// --- Roadmap CRDT ---
+// A roadmap as a set of entities (the roadmap itself, pillars, timeframes, deliverables, comment
+// threads and comments), each a set of fields. Every field is a last-writer-wins register, so
+// concurrent edits of different fields all survive and edits of the same field converge on the
+// latest one. The order of pillars,
+// timeframes and the deliverables in a cell is a field as well, holding a list of IDs.
+//
+// Replicas exchange operations. Applying the same operations in any order, any number of times,
+// gives every replica the same roadmap.
+
+// A Lamport clock and the ID of the client that wrote; the client breaks ties.
+export type Stamp = [clock: number, clientId: string];
+
+export type CrdtOperation =
+    | { type: 'set'; key: string; field: string; value: unknown; stamp: Stamp }
+    | { type: 'delete'; key: string; stamp: Stamp };
+
+// An edit before it is stamped, or an accepted remote edit as applied to a RoadmapData.
+export type FieldChange =
+    | { type: 'set'; key: string; field: string; value: unknown }
+    | { type: 'delete'; key: string };
+
+type Fields = Record<string, unknown>;
+type Entities = Record<string, Fields>;
+
+interface EntityState {
+    fields: Record<string, { value: unknown; stamp: Stamp }>;
+    deleted?: Stamp;
+}
+
+const ROADMAP_KEY = 'roadmap';
+const ORDER_PREFIX = 'order:';
+const TASK_FIELDS = ['title', 'status', 'owner', 'progress', 'tags', 'description', 'links', 'dependsOn'] as const;
+const TARGET_TYPES: CommentThread['target']['type'][] = ['task', 'pillar', 'timeframe'];
+
+export const pillarKey = (pillarId: string) => `pillar:${pillarId}`;
+export const timeframeKey = (timeframeId: string) => `timeframe:${timeframeId}`;
+export const taskKey = (taskId: string) => `task:${taskId}`;
+export const threadKey = (threadId: string) => `thread:${threadId}`;
+export const commentKey = (commentId: string) => `comment:${commentId}`;
+
+const idOf = (key: string) => key.slice(key.indexOf(':') + 1);
+
+export const compareStamps = (a: Stamp, b: Stamp) => (a[0] - b[0]) || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+// --- RoadmapData <-> Entities ---
+
+const toEntities = (data: RoadmapData): Entities => {
+    const entities: Entities = {
+        [ROADMAP_KEY]: {
+            title: data.title,
+            subtitle: data.subtitle,
+            pillarOrder: data.pillars.map(p => p.id),
+            timeframeOrder: data.timeframes.map(t => t.id),
+        },
+    };
+    data.pillars.forEach(pillar => {
+        entities[pillarKey(pillar.id)] = { name: pillar.name, color: pillar.color };
+    });
+    data.timeframes.forEach(timeframe => {
+        const fields: Fields = { date: timeframe.date, name: timeframe.name };
+        timeframe.deliverables.forEach(deliverable => {
+            if (deliverable.tasks.length > 0) fields[`${ORDER_PREFIX}${deliverable.pillarId}`] = deliverable.tasks.map(t => t.id);
+            deliverable.tasks.forEach(task => {
+                const taskFields: Fields = { timeframeId: timeframe.id, pillarId: deliverable.pillarId };
+                TASK_FIELDS.forEach(field => {
+                    if (task[field] !== undefined) taskFields[field] = task[field];
+                });
+                entities[taskKey(task.id)] = taskFields;
+            });
+        });
+        entities[timeframeKey(timeframe.id)] = fields;
+    });
+    data.threads?.forEach(thread => {
+        entities[threadKey(thread.id)] = { targetType: thread.target.type, targetId: thread.target.id, resolved: thread.resolved };
+        thread.comments.forEach(comment => {
+            entities[commentKey(comment.id)] = { threadId: thread.id, author: comment.author, text: comment.text, mentions: comment.mentions, createdAt: comment.createdAt };
+        });
+    });
+    return entities;
+};
+
+// Listed IDs first, then the unlisted ones sorted by ID, so every replica agrees on the order.
+const ordered = (order: unknown, ids: string[]) => {
+    const listed = (Array.isArray(order) ? order : []).filter((id, index, list): id is string =>
+        ids.includes(id) && list.indexOf(id) === index);
+    return [...listed, ...ids.filter(id => !listed.includes(id)).sort()];
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+const strings = (value: unknown): string[] => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+const isLink = (value: unknown): value is TaskLink => isObject(value) && typeof value.label === 'string' && typeof value.url === 'string';
+const isTargetType = (value: unknown): value is CommentThread['target']['type'] => TARGET_TYPES.some(type => type === value);
+
+// Fields come from other clients, so every value is narrowed.
+const toTask = (id: string, fields: Fields): Task => createTask(text(fields.title), id, {
+    status: parseTaskStatus(text(fields.status)) ?? 'planned',
+    owner: text(fields.owner),
+    progress: typeof fields.progress === 'number' && Number.isFinite(fields.progress) ? Math.max(0, Math.min(100, fields.progress)) : 0,
+    tags: strings(fields.tags),
+    links: Array.isArray(fields.links) ? fields.links.filter(isLink) : [],
+    dependsOn: strings(fields.dependsOn),
+    ...(typeof fields.description === 'string' ? { description: fields.description } : {}),
+});
+
+const toComment = (id: string, fields: Fields): RoadmapComment => ({
+    id,
+    author: text(fields.author),
+    text: text(fields.text),
+    mentions: strings(fields.mentions),
+    createdAt: text(fields.createdAt),
+});
+
+const byCreation = (a: RoadmapComment, b: RoadmapComment) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+
+// Threads are ordered by their first comment; threads without comments or a valid target are left out.
+const toThreads = (entities: Entities, threadIds: string[], commentIds: string[]): CommentThread[] => threadIds
+    .flatMap(id => {
+        const fields = entities[threadKey(id)];
+        if (!isTargetType(fields.targetType)) return [];
+        const comments = commentIds.filter(commentId => entities[commentKey(commentId)].threadId === id)
+            .map(commentId => toComment(commentId, entities[commentKey(commentId)]))
+            .sort(byCreation);
+        return [{ id, target: { type: fields.targetType, id: text(fields.targetId) }, resolved: fields.resolved === true, comments }];
+    })
+    .filter(thread => thread.comments.length > 0)
+    .sort((a, b) => byCreation(a.comments[0], b.comments[0]));
+
+/** Builds the roadmap. Deliverables whose pillar or timeframe was deleted are left out, and so are threads about them. */
+const fromEntities = (entities: Entities): RoadmapData => {
+    const keys = Object.keys(entities);
+    const idsWith = (prefix: string) => keys.filter(key => key.startsWith(prefix)).map(idOf);
+    const roadmap = entities[ROADMAP_KEY] ?? {};
+    const pillarIds = ordered(roadmap.pillarOrder, idsWith('pillar:'));
+    const timeframeIds = ordered(roadmap.timeframeOrder, idsWith('timeframe:'));
+    const taskIds = idsWith('task:');
+
+    const data: RoadmapData = {
+        title: text(roadmap.title),
+        subtitle: text(roadmap.subtitle),
+        pillars: pillarIds.map(id => {
+            const fields = entities[pillarKey(id)];
+            return { id, name: text(fields.name), color: text(fields.color) };
+        }),
+        timeframes: timeframeIds.map(timeframeId => {
+            const fields = entities[timeframeKey(timeframeId)];
+            return {
+                id: timeframeId,
+                date: text(fields.date),
+                name: text(fields.name),
+                deliverables: pillarIds.flatMap(pillarId => {
+                    const inCell = taskIds.filter(id => {
+                        const task = entities[taskKey(id)];
+                        return task.timeframeId === timeframeId && task.pillarId === pillarId;
+                    });
+                    if (inCell.length === 0) return [];
+                    const tasks = ordered(fields[`${ORDER_PREFIX}${pillarId}`], inCell).map(id => toTask(id, entities[taskKey(id)]));
+                    return [{ pillarId, tasks }];
+                }),
+            };
+        }),
+    };
+    const threads = toThreads(entities, idsWith('thread:'), idsWith('comment:'));
+    if (threads.length > 0) data.threads = threads;
+    return pruneThreads(pruneDependencies(data));
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** The field changes that turn `prev` into `next`. */
+export const diffRoadmaps = (prev: RoadmapData, next: RoadmapData): FieldChange[] => {
+    const before = toEntities(prev);
+    const after = toEntities(next);
+    const changes: FieldChange[] = [];
+    Object.entries(after).forEach(([key, fields]) => {
+        const old = before[key];
+        Object.entries(fields).forEach(([field, value]) => {
+            if (!old || !sameValue(old[field], value)) changes.push({ type: 'set', key, field, value });
+        });
+        // A removed optional field, e.g. a cleared description, or a cell that became empty.
+        if (old) Object.keys(old).filter(field => !(field in fields)).forEach(field => changes.push({ type: 'set', key, field, value: undefined }));
+    });
+    Object.keys(before).filter(key => !after[key]).forEach(key => changes.push({ type: 'delete', key }));
+    return changes;
+};
+
+/** Applies changes to a roadmap without a replica, e.g. to the snapshots in the undo history. */
+export const applyFieldChanges = (data: RoadmapData, changes: FieldChange[]): RoadmapData => {
+    if (changes.length === 0) return data;
+    const entities = toEntities(data);
+    changes.forEach(change => {
+        if (change.type === 'delete') {
+            delete entities[change.key];
+        } else if (change.value === undefined) {
+            if (entities[change.key]) delete entities[change.key][change.field];
+        } else {
+            entities[change.key] = { ...entities[change.key], [change.field]: change.value };
+        }
+    });
+    // A deliverable that only exists in a later version than this snapshot may arrive partially.
+    Object.keys(entities).filter(key => key.startsWith('task:')).forEach(key => {
+        const { timeframeId, pillarId } = entities[key];
+        if (!entities[timeframeKey(String(timeframeId))] || !entities[pillarKey(String(pillarId))]) delete entities[key];
+    });
+    ['pillar:', 'timeframe:'].forEach(prefix => Object.keys(entities).filter(key => key.startsWith(prefix)).forEach(key => {
+        if (!('name' in entities[key])) delete entities[key];
+    }));
+    Object.keys(entities).filter(key => key.startsWith('thread:')).forEach(key => {
+        if (!('targetType' in entities[key])) delete entities[key];
+    });
+    Object.keys(entities).filter(key => key.startsWith('comment:')).forEach(key => {
+        if (!entities[threadKey(String(entities[key].threadId))] || !('text' in entities[key])) delete entities[key];
+    });
+    return fromEntities(entities);
+};
+
+// --- Operation Validation ---
+// Operations arrive from other clients, so each field only accepts values of its own type. A missing
+// value clears an optional field, e.g. a description.
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isText: FieldCheck = value => typeof value === 'string';
+
+const FIELD_CHECKS: Record<string, Record<string, FieldCheck>> = {
+    [ROADMAP_KEY]: { title: isText, subtitle: isText, pillarOrder: isStringList, timeframeOrder: isStringList },
+    pillar: { name: isText, color: isText },
+    timeframe: { date: isText, name: isText },
+    task: {
+        timeframeId: isText,
+        pillarId: isText,
+        title: isText,
+        status: value => TASK_STATUSES.some(status => status === value),
+        owner: isText,
+        progress: value => typeof value === 'number' && value >= 0 && value <= 100,
+        tags: isStringList,
+        description: isText,
+        links: value => Array.isArray(value) && value.every(isLink),
+        dependsOn: isStringList,
+    },
+    thread: { targetType: isTargetType, targetId: isText, resolved: value => typeof value === 'boolean' },
+    comment: { threadId: isText, author: isText, text: isText, mentions: isStringList, createdAt: isText },
+};
+
+// The checks for the entity a key names: "roadmap" itself, or "<kind>:<id>".
+const checksFor = (key: string): Record<string, FieldCheck> | undefined => {
+    if (key === ROADMAP_KEY) return FIELD_CHECKS[ROADMAP_KEY];
+    const separator = key.indexOf(':');
+    const kind = separator > 0 ? key.slice(0, separator) : '';
+    return kind !== ROADMAP_KEY && Object.hasOwn(FIELD_CHECKS, kind) ? FIELD_CHECKS[kind] : undefined;
+};
+
+const isFieldValue = (key: string, field: string, value: unknown) => {
+    const checks = checksFor(key);
+    if (!checks) return false;
+    // Timeframes also hold the order of the deliverables in each of their cells.
+    const check = key.startsWith('timeframe:') && field.startsWith(ORDER_PREFIX) ? isStringList : Object.hasOwn(checks, field) ? checks[field] : undefined;
+    return !!check && (value === undefined || check(value));
+};
+
+/** True when a value received from elsewhere is an operation with a known key, field and value type. */
+export const isCrdtOperation = (op: unknown): op is CrdtOperation =>
+    isObject(op) && typeof op.key === 'string' && checksFor(op.key) !== undefined
+    && Array.isArray(op.stamp) && op.stamp.length === 2 && Number.isSafeInteger(op.stamp[0]) && op.stamp[0] >= 0 && typeof op.stamp[1] === 'string'
+    && (op.type === 'delete' || (op.type === 'set' && typeof op.field === 'string' && isFieldValue(op.key, op.field, op.value)));
+
+// --- Replica ---
+
+export interface RoadmapReplica {
+    readonly clientId: string;
+    /** Stamps local changes and applies them. Returns the operations to send to the other replicas. */
+    applyLocal: (changes: FieldChange[]) => CrdtOperation[];
+    /** Merges operations from another replica. Returns those that changed something, as changes to apply locally. */
+    merge: (operations: CrdtOperation[]) => { accepted: CrdtOperation[]; changes: FieldChange[] };
+    /** Everything this replica knows, as operations; merging them into an empty replica reproduces it. */
+    snapshot: () => CrdtOperation[];
+    isEmpty: () => boolean;
+    toRoadmap: () => RoadmapData;
+}
+
+export const createReplica = (clientId: string): RoadmapReplica => {
+    const state = new Map<string, EntityState>();
+    let clock = 0;
+
+    // An entity exists once it has a field, until it is deleted. An edit after the deletion brings it back.
+    const isAlive = (entity: EntityState) => Object.values(entity.fields)
+        .some(f => !entity.deleted || compareStamps(f.stamp, entity.deleted) > 0);
+
+    const currentFields = (entity: EntityState): Fields =>
+        Object.fromEntries(Object.entries(entity.fields).map(([field, f]) => [field, f.value]));
+
+    // Applies one operation if it is newer than what it replaces.
+    const apply = (op: CrdtOperation): FieldChange[] | null => {
+        clock = Math.max(clock, op.stamp[0]);
+        const entity = state.get(op.key) ?? { fields: {} };
+        state.set(op.key, entity);
+        const wasAlive = isAlive(entity);
+
+        if (op.type === 'delete') {
+            if (entity.deleted && compareStamps(op.stamp, entity.deleted) <= 0) return null;
+            entity.deleted = op.stamp;
+            return wasAlive && !isAlive(entity) ? [{ type: 'delete', key: op.key }] : [];
+        }
+        const current = entity.fields[op.field];
+        if (current && compareStamps(op.stamp, current.stamp) <= 0) return null;
+        entity.fields[op.field] = { value: op.value, stamp: op.stamp };
+        if (!isAlive(entity)) return [];
+        // A new or restored item arrives with all its fields.
+        if (!wasAlive) return Object.entries(currentFields(entity)).map(([field, value]) => ({ type: 'set', key: op.key, field, value }));
+        return [{ type: 'set', key: op.key, field: op.field, value: op.value }];
+    };
+
+    return {
+        clientId,
+        applyLocal: (changes) => changes.map(change => {
+            const stamp: Stamp = [++clock, clientId];
+            const op: CrdtOperation = change.type === 'delete'
+                ? { type: 'delete', key: change.key, stamp }
+                : { type: 'set', key: change.key, field: change.field, value: change.value, stamp };
+            apply(op);
+            return op;
+        }),
+        merge: (operations) => {
+            const accepted: CrdtOperation[] = [];
+            const changes: FieldChange[] = [];
+            operations.forEach(op => {
+                const result = apply(op);
+                if (!result) return;
+                accepted.push(op);
+                changes.push(...result);
+            });
+            return { accepted, changes };
+        },
+        snapshot: () => [...state.entries()].flatMap(([key, entity]) => [
+            ...(entity.deleted ? [{ type: 'delete' as const, key, stamp: entity.deleted }] : []),
+            ...Object.entries(entity.fields).map(([field, f]) => ({ type: 'set' as const, key, field, value: f.value, stamp: f.stamp })),
+        ]),
+        isEmpty: () => state.size === 0,
+        toRoadmap: () => {
+            const entities: Entities = {};
+            state.forEach((entity, key) => {
+                if (isAlive(entity)) entities[key] = currentFields(entity);
+            });
+            return fromEntities(entities);
+        },
+    };
+};
+
+/** Puts a roadmap into an empty replica, when a room is started. Returns the operations for the others. */
+export const seedReplica = (replica: RoadmapReplica, data: RoadmapData): CrdtOperation[] =>
+    replica.applyLocal(diffRoadmaps({ title: '', subtitle: '', pillars: [], timeframes: [] }, data));
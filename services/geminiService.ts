@@ -3,221 +3,346 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type } from "@google/genai";
-
-// TypeScript declaration for environment variables injected by Vite.
-// This prevents TypeScript errors when accessing `process.env`.
-declare var process: {
-  env: {
-    // This is provided by the execution environment (e.g., AI Studio).
-    API_KEY: string;
-    // These are injected by Vite's `define` config in vite.config.ts.
-    VITE_AI_PROVIDER: string;
-    VITE_AI_GATEWAY_URL: string;
-    VITE_AI_GATEWAY_API_KEY: string;
-    VITE_AI_GATEWAY_MODEL: string;
-  }
-};
+import { parseRoadmapMarkdown, tryParseRoadmapMarkdown } from "./roadmapMarkdown";
+import { getActiveProvider } from "./aiSettings";
+import { ProviderConfigurationError } from "./providers";
+import type { AiProvider, AiGenerationOptions, AiGenerationRequest, ProviderSettings } from "./providers";
+import { buildAiRequest } from "./aiTasks";
+import { parsePartialJson } from "./partialJson";
+import { getPaletteColor } from "./pillarColors";
+import { createTask, parseTaskStatus } from "./roadmapTasks";
+import { validateRoadmap, formatValidationIssues, isObject, RoadmapValidationError } from "./roadmapValidator";
+import type { ValidationIssue, ValidationResult } from "./roadmapValidator";
+import { validatePatch } from "./roadmapPatch";
+import type { PatchValidationResult, RoadmapPatch } from "./roadmapPatch";
+import { validateReview } from "./roadmapReview";
+import type { ReviewValidationResult, RoadmapReview } from "./roadmapReview";
+import { stripComments } from "./roadmapComments";
+
+export type TaskStatus = 'planned' | 'in-progress' | 'done' | 'at-risk' | 'blocked';
+
+export interface TaskLink {
+  label: string;
+  url: string;
+}
+
+// A single deliverable. Plain strings are still accepted on input and become tasks with default fields.
+export interface Task {
+  // Unique across the roadmap (e.g. 'd1', 'd2').
+  id: string;
+  title: string;
+  status: TaskStatus;
+  owner: string;
+  // Percent complete, 0-100.
+  progress: number;
+  tags: string[];
+  description?: string;
+  links: TaskLink[];
+  // IDs of the deliverables that have to be finished first.
+  dependsOn: string[];
+}
 
 export interface RoadmapData {
   title: string;
   subtitle: string;
-  pillars: { id: string; name: string }[];
+  // `color` is the pillar's hex accent color, e.g. '#60a5fa'.
+  pillars: { id: string; name: string; color: string }[];
   timeframes: {
     id: string;
     date: string;
     name: string;
-    deliverables: { pillarId: string; tasks: string[] }[];
+    deliverables: { pillarId: string; tasks: Task[] }[];
   }[];
+  // Review comments. Absent when there are none.
+  threads?: CommentThread[];
 }
 
-const roadmapSchema = {
-    type: Type.OBJECT,
-    properties: {
-        title: { type: Type.STRING, description: "The main title of the roadmap." },
-        subtitle: { type: Type.STRING, description: "The subtitle of the roadmap." },
-        pillars: {
-            type: Type.ARRAY,
-            description: "An array of strategic pillars.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    id: { type: Type.STRING, description: "A unique identifier for the pillar, starting with 'p' (e.g., 'p1', 'p2')." },
-                    name: { type: Type.STRING, description: "The name of the strategic pillar." }
-                },
-                required: ['id', 'name']
-            }
-        },
-        timeframes: {
-            type: Type.ARRAY,
-            description: "An array of timeframes for the roadmap.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    id: { type: Type.STRING, description: "A unique identifier for the timeframe, starting with 't' (e.g., 't1', 't2')." },
-                    date: { type: Type.STRING, description: "The date range for the timeframe (e.g., '2025 - Q1 & Q2')." },
-                    name: { type: Type.STRING, description: "The descriptive name for the timeframe (e.g., 'FlowX Build-out')." },
-                    deliverables: {
-                        type: Type.ARRAY,
-                        description: "An array of objects, where each object links a pillar ID to a list of its tasks/deliverables for this timeframe.",
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                pillarId: {
-                                    type: Type.STRING,
-                                    description: "The ID of the pillar (e.g., 'p1', 'p2')."
-                                },
-                                tasks: {
-                                    type: Type.ARRAY,
-                                    description: "An array of deliverable strings for the corresponding pillar.",
-                                    items: {
-                                        type: Type.STRING
-                                    }
-                                }
-                            },
-                            required: ['pillarId', 'tasks']
-                        }
-                    }
-                },
-                required: ['id', 'date', 'name', 'deliverables']
-            }
-        }
-    },
-    required: ['title', 'subtitle', 'pillars', 'timeframes']
-};
+export interface CommentTarget {
+  type: 'task' | 'pillar' | 'timeframe';
+  id: string;
+}
 
+export interface RoadmapComment {
+  id: string;
+  author: string;
+  text: string;
+  // The names @mentioned in the text, as plain names without the "@".
+  mentions: string[];
+  // ISO date.
+  createdAt: string;
+}
+
+// A discussion about one deliverable, pillar or timeframe.
+export interface CommentThread {
+  id: string;
+  target: CommentTarget;
+  resolved: boolean;
+  comments: RoadmapComment[];
+}
 
 // --- Configuration & Startup Logging ---
-const aiProvider = process.env.VITE_AI_PROVIDER || 'GEMINI';
-const gatewayUrl = process.env.VITE_AI_GATEWAY_URL;
-const gatewayApiKey = process.env.VITE_AI_GATEWAY_API_KEY;
-const gatewayModel = process.env.VITE_AI_GATEWAY_MODEL;
-const geminiApiKey = process.env.API_KEY;
-
-console.groupCollapsed('[AI Service] Configuration Loaded');
-console.info(`AI Provider: %c${aiProvider}`, 'font-weight: bold;');
-if (aiProvider === 'GATEWAY') {
-    console.log(`Gateway Base URL: ${gatewayUrl || 'Not Set'}`);
-    console.log(`Gateway Model: ${gatewayModel || '(default will be used)'}`);
-    console.log(`Gateway API Key Set: %c${!!gatewayApiKey}`, `font-weight: bold; color: ${!!gatewayApiKey ? 'green' : 'red'};`);
-    if (!gatewayUrl || !gatewayApiKey) {
-        console.error('[AI Service] CRITICAL: AI Gateway is configured, but VITE_AI_GATEWAY_URL or VITE_AI_GATEWAY_API_KEY is missing in your .env file.');
-    }
-} else {
-     console.log(`Gemini API Key Set: %c${!!geminiApiKey}`, `font-weight: bold; color: ${!!geminiApiKey ? 'green' : 'red'};`);
-     if (!geminiApiKey) {
-        console.error('[AI Service] CRITICAL: Gemini is configured, but API_KEY was not found in the environment.');
-     }
+{
+    const { provider, settings } = getActiveProvider();
+    const configurationError = provider.getConfigurationError(settings);
+    console.groupCollapsed('[AI Service] Configuration Loaded');
+    console.info(`AI Provider: %c${provider.label}`, 'font-weight: bold;');
+    if (settings.baseUrl) console.log(`Endpoint: ${settings.baseUrl}`);
+    console.log(`Model: ${settings.model}`);
+    console.log(`Configured: %c${!configurationError}`, `font-weight: bold; color: ${configurationError ? 'red' : 'green'};`);
+    if (configurationError) {
+        console.warn(`[AI Service] ${configurationError} Structured Markdown will still be parsed locally.`);
+    }
+    console.groupEnd();
 }
-console.groupEnd();
 // --- End of Startup Logging ---
 
-export const parseRoadmapText = async (text: string): Promise<RoadmapData> => {
-    console.log(`Starting roadmap text parsing via ${aiProvider}...`);
-    
-    if (aiProvider === 'GATEWAY') {
-        // --- AI Gateway Logic ---
-        if (!gatewayUrl || !gatewayApiKey) {
-            throw new Error('AI Gateway is the configured provider, but VITE_AI_GATEWAY_URL or VITE_AI_GATEWAY_API_KEY is missing.');
-        }
-
-        const modelToUse = gatewayModel || 'gemini-2.5-pro';
-        const fullGatewayUrl = `${gatewayUrl.replace(/\/$/, '')}/${modelToUse}/v1/chat/completions`;
-
-        console.log(`[AI Service] Sending request to Gateway URL: %c${fullGatewayUrl}`, 'font-weight: bold;');
-        
-        const systemPrompt = `You are an expert assistant that parses roadmap data from Markdown format into a structured JSON object.
-Your response MUST be a single, valid JSON object that strictly adheres to the following JSON schema.
-Do not include any explanatory text, markdown formatting, or anything else outside of the JSON object.
-
-JSON Schema:
-${JSON.stringify(roadmapSchema, null, 2)}`;
-
-        const userPrompt = `Parse the following roadmap markdown into the specified JSON format.\n\nRoadmap Markdown:\n${text}`;
-
-        const response = await fetch(fullGatewayUrl, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${gatewayApiKey}`
-            },
-            body: JSON.stringify({
-                model: modelToUse,
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt }
-                ],
-                // Enforce JSON output for compatible OpenAI-like APIs
-                response_format: { type: "json_object" }, 
-                stream: false,
-            })
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`AI Gateway request failed with status ${response.status}: ${errorText}`);
-        }
-
-        const data = await response.json();
-        
-        if (data.choices && data.choices[0] && data.choices[0].message && typeof data.choices[0].message.content === 'string') {
-            const jsonStr = data.choices[0].message.content;
-            console.log('Received parsed data from Gateway.');
-            try {
-                const parsedJson = JSON.parse(jsonStr);
-                if (!parsedJson.pillars || !parsedJson.timeframes) {
-                    throw new Error("Parsed JSON from Gateway is missing key properties 'pillars' or 'timeframes'.");
-                }
-                return parsedJson as RoadmapData;
-            } catch (e) {
-                console.error("Failed to parse JSON response from Gateway:", jsonStr, e);
-                throw new Error("The AI Gateway returned an invalid JSON structure.");
-            }
-        } else {
-            throw new Error('The AI Gateway response did not contain the expected content in "choices[0].message.content".');
-        }
-    
-    } else {
-        // --- Direct Gemini API Logic (default) ---
-        if (!geminiApiKey) {
-             throw new Error("Gemini is the configured provider, but the API_KEY is missing in the execution environment.");
-        }
-        
-        const ai = new GoogleGenAI({ apiKey: geminiApiKey });
-        
-        // FIX: Refactor Gemini API call to use systemInstruction for better separation of concerns.
-        const systemInstruction = `Parse the provided roadmap in Markdown format into a structured JSON object.
-
-**Instructions:**
-1.  Extract the main title and subtitle.
-2.  Identify all strategic pillars and assign a unique ID to each (p1, p2, p3, ...).
-3.  Identify all timeframes and assign a unique ID to each (t1, t2, t3, ...).
-4.  For each timeframe, separate the date from the descriptive name. For example, in "2025 - Q1 & Q2: FlowX Build-out", the 'date' is "2025 - Q1 & Q2" and the 'name' is "FlowX Build-out".
-5.  For each timeframe, create a 'deliverables' array. Each item in this array should be an object containing the 'pillarId' and a 'tasks' array with the corresponding deliverable strings.
-6.  Adhere strictly to the provided JSON schema. Your response must be only the JSON object.`;
-
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: text,
-            config: {
-              responseMimeType: "application/json",
-              responseSchema: roadmapSchema,
-              systemInstruction,
-            },
-        });
-        
-        console.log('Received parsed data from model.');
-        const jsonStr = response.text.trim();
-        try {
-            const parsedJson = JSON.parse(jsonStr);
-            // Basic validation
-            if (!parsedJson.pillars || !parsedJson.timeframes) {
-                throw new Error("Parsed JSON is missing key properties 'pillars' or 'timeframes'.");
-            }
-            return parsedJson as RoadmapData;
-        } catch (e) {
-            console.error("Failed to parse JSON response:", jsonStr, e);
-            throw new Error("The AI model returned an invalid data structure. Please check the input format or try again.");
-        }
-    }
-};
\ No newline at end of file
+// Streamed requests that take longer than this are aborted.
+const REQUEST_TIMEOUT_MS = 120_000;
+
+export interface ParseRoadmapOptions {
+    // Cancels the request; the returned promise rejects with an AbortError.
+    signal?: AbortSignal;
+    // Called with the part of the roadmap that has been received so far.
+    onPartialData?: (partial: RoadmapData) => void;
+    // Used instead of the provider chosen in the settings, e.g. by the CLI.
+    ai?: { provider: AiProvider; settings: ProviderSettings };
+}
+
+export class RoadmapTimeoutError extends Error {
+    constructor(seconds: number) {
+        super(`The AI provider did not finish within ${seconds} seconds.`);
+        this.name = 'RoadmapTimeoutError';
+    }
+}
+
+/** Whatever is usable in a partially received roadmap, in RoadmapData shape. Nothing is validated here. */
+const toPartialRoadmap = (raw: unknown): RoadmapData | null => {
+    if (!isObject(raw)) return null;
+    const text = (v: unknown) => (typeof v === 'string' ? v : '');
+    const list = (v: unknown): Record<string, unknown>[] => (Array.isArray(v) ? v.filter(isObject) : []);
+    let taskCount = 0;
+    const toTask = (task: unknown): Task | null => {
+        const fields = isObject(task) ? task : {};
+        const title = typeof task === 'string' ? task : text(fields.title);
+        if (!title) return null;
+        // Streamed tasks may not have their ID yet; the preview only needs a unique key.
+        const id = text(fields.id) || `partial-${++taskCount}`;
+        return createTask(title, id, { status: parseTaskStatus(text(fields.status)) ?? 'planned' });
+    };
+    return {
+        title: text(raw.title),
+        subtitle: text(raw.subtitle),
+        pillars: list(raw.pillars).map((p, index) => ({ id: text(p.id), name: text(p.name), color: getPaletteColor(index) })).filter(p => p.id && p.name),
+        timeframes: list(raw.timeframes).map(t => ({
+            id: text(t.id),
+            date: text(t.date),
+            name: text(t.name),
+            deliverables: list(t.deliverables).map(d => ({
+                pillarId: text(d.pillarId),
+                tasks: (Array.isArray(d.tasks) ? d.tasks : []).map(toTask).filter((task): task is Task => task !== null),
+            })),
+        })).filter(t => t.id),
+    };
+};
+
+// Used when the provider is not configured: the text only needs to come close to the structured format.
+const parseWithoutProvider = (text: string, provider: AiProvider, configurationError: string): RoadmapData => {
+    const { data, unrecognizedLines } = parseRoadmapMarkdown(text);
+    if (data.pillars.length === 0 || data.timeframes.length === 0) {
+        throw new Error(`${configurationError} The text does not follow the '### Pillar:' / '### Timeframe:' format either, so it could not be parsed locally.`);
+    }
+    console.warn(`[AI Service] ${provider.label} is not configured. Parsed locally and ignored ${unrecognizedLines.length} unrecognized line(s):`, unrecognizedLines);
+    return data;
+};
+
+export const parseRoadmapText = async (text: string, options: ParseRoadmapOptions = {}): Promise<RoadmapData> => {
+    const { provider, settings } = options.ai ?? getActiveProvider();
+    const configurationError = provider.getConfigurationError(settings);
+
+    // --- Local Parser (no network) ---
+    // Structured Markdown is parsed deterministically; the AI is only needed for free-form text.
+    const localData = tryParseRoadmapMarkdown(text);
+    if (localData) {
+        console.log('Input matches the structured roadmap format. Parsed locally without an AI call.');
+        return localData;
+    }
+    if (configurationError) return parseWithoutProvider(text, provider, configurationError);
+
+    console.log(`Starting roadmap text parsing via ${provider.label} (${settings.model})...`);
+
+    let result: ValidationResult;
+    try {
+        result = await requestRoadmap(provider, settings, [], text, options);
+    } catch (e) {
+        // Some providers, e.g. those on the app server, only find out about missing credentials when called.
+        if (e instanceof ProviderConfigurationError) return parseWithoutProvider(text, provider, e.message);
+        throw e;
+    }
+    if (!result.data) {
+        // Give the model one chance to fix its own output before giving up.
+        const errors = result.issues.filter(issue => !issue.repaired);
+        console.warn(`[AI Service] ${provider.label} returned an invalid roadmap. Re-prompting once with the validation errors:\n${formatValidationIssues(errors)}`);
+        result = await requestRoadmap(provider, settings, errors, text, options);
+    }
+
+    if (!result.data) {
+        throw new RoadmapValidationError(`${provider.label} returned a roadmap that failed validation.`, result.issues);
+    }
+    if (result.issues.length > 0) {
+        console.warn(`[AI Service] Repaired ${result.issues.length} problem(s) in the model output:\n${formatValidationIssues(result.issues)}`);
+    }
+    return result.data;
+};
+
+/** Runs one provider request; the caller's signal and the timeout both cancel it. */
+const requestJson = async (
+    provider: AiProvider,
+    settings: ProviderSettings,
+    request: AiGenerationRequest,
+    options: AiGenerationOptions,
+): Promise<string> => {
+    // One controller for both the user's cancel button and the timeout.
+    const controller = new AbortController();
+    const abort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', abort, { once: true });
+    if (options.signal?.aborted) abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, REQUEST_TIMEOUT_MS);
+
+    try {
+        return await provider.generateJson(request, settings, { signal: controller.signal, onText: options.onText });
+    } catch (e) {
+        if (timedOut) throw new RoadmapTimeoutError(REQUEST_TIMEOUT_MS / 1000);
+        throw e;
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', abort);
+    }
+};
+
+// The issue reported when a response cannot be read at all.
+const NOT_JSON_ISSUE: ValidationIssue = { path: '', message: 'The response is not valid JSON.', repaired: false };
+
+/** The parsed response, or null if it is not valid JSON. Only parsing is guarded; validators report their own errors. */
+const parseJsonResponse = (jsonStr: string): { value: unknown } | null => {
+    try {
+        return { value: JSON.parse(jsonStr) };
+    } catch (e) {
+        console.error("Failed to parse JSON response:", jsonStr, e);
+        return null;
+    }
+};
+
+const requestRoadmap = async (
+    provider: AiProvider,
+    settings: ProviderSettings,
+    // Problems with the previous response; empty for the first attempt.
+    validationErrors: ValidationIssue[],
+    text: string,
+    options: ParseRoadmapOptions,
+): Promise<ValidationResult> => {
+    const jsonStr = await requestJson(provider, settings, buildAiRequest('generate', text, validationErrors), {
+        signal: options.signal,
+        onText: options.onPartialData && (textSoFar => {
+            const partial = toPartialRoadmap(parsePartialJson(textSoFar));
+            if (partial) options.onPartialData?.(partial);
+        }),
+    });
+
+    console.log(`Received parsed data from ${provider.label}.`);
+    const json = parseJsonResponse(jsonStr);
+    if (!json) return { data: null, issues: [NOT_JSON_ISSUE] };
+    const result = validateRoadmap(json.value);
+    // An empty roadmap is valid in the editor, but not as the result of parsing text.
+    if (result.data && (result.data.pillars.length === 0 || result.data.timeframes.length === 0)) {
+        const path = result.data.pillars.length === 0 ? 'pillars' : 'timeframes';
+        return { data: null, issues: [...result.issues, { path, message: `The roadmap has no ${path}.`, repaired: false }] };
+    }
+    return result;
+};
+
+// --- Edit Commands ---
+
+/**
+ * Asks the model how to carry out a natural-language command on the roadmap, e.g.
+ * "move all GenAI items to 2026 H1". Nothing is changed; the caller applies the patch.
+ */
+export const generateRoadmapPatch = async (data: RoadmapData, command: string, options: { signal?: AbortSignal } = {}): Promise<RoadmapPatch> => {
+    const { provider, settings } = getActiveProvider();
+    const configurationError = provider.getConfigurationError(settings);
+    if (configurationError) throw new Error(`${configurationError} Edit commands need an AI provider.`);
+
+    console.log(`Requesting roadmap edits via ${provider.label} (${settings.model}): "${command}"`);
+    const input = `Roadmap:\n${JSON.stringify(stripComments(data))}\n\nCommand:\n${command}`;
+
+    let result = await requestPatch(provider, settings, [], input, data, options.signal);
+    if (!result.patch) {
+        const errors = result.issues.filter(issue => !issue.repaired);
+        console.warn(`[AI Service] ${provider.label} returned an invalid patch. Re-prompting once with the validation errors:\n${formatValidationIssues(errors)}`);
+        result = await requestPatch(provider, settings, errors, input, data, options.signal);
+    }
+
+    if (!result.patch) {
+        throw new RoadmapValidationError(`${provider.label} returned edits that failed validation.`, result.issues);
+    }
+    if (result.issues.length > 0) {
+        console.warn(`[AI Service] Dropped ${result.issues.length} operation(s) from the model output:\n${formatValidationIssues(result.issues)}`);
+    }
+    return result.patch;
+};
+
+const requestPatch = async (
+    provider: AiProvider,
+    settings: ProviderSettings,
+    validationErrors: ValidationIssue[],
+    input: string,
+    data: RoadmapData,
+    signal?: AbortSignal,
+): Promise<PatchValidationResult> => {
+    const jsonStr = await requestJson(provider, settings, buildAiRequest('patch', input, validationErrors), { signal });
+    const json = parseJsonResponse(jsonStr);
+    return json ? validatePatch(json.value, data) : { patch: null, issues: [NOT_JSON_ISSUE] };
+};
+
+// --- Review ---
+
+/** Asks the model to critique the roadmap: overloaded periods, gaps, vague or duplicate deliverables. */
+export const reviewRoadmap = async (data: RoadmapData, options: { signal?: AbortSignal } = {}): Promise<RoadmapReview> => {
+    const { provider, settings } = getActiveProvider();
+    const configurationError = provider.getConfigurationError(settings);
+    if (configurationError) throw new Error(`${configurationError} The roadmap review needs an AI provider.`);
+
+    console.log(`Requesting a roadmap review via ${provider.label} (${settings.model})...`);
+    const input = JSON.stringify(stripComments(data));
+
+    let result = await requestReview(provider, settings, [], input, data, options.signal);
+    if (!result.review) {
+        const errors = result.issues.filter(issue => !issue.repaired);
+        console.warn(`[AI Service] ${provider.label} returned an invalid review. Re-prompting once with the validation errors:\n${formatValidationIssues(errors)}`);
+        result = await requestReview(provider, settings, errors, input, data, options.signal);
+    }
+
+    if (!result.review) {
+        throw new RoadmapValidationError(`${provider.label} returned a review that failed validation.`, result.issues);
+    }
+    if (result.issues.length > 0) {
+        console.warn(`[AI Service] Repaired ${result.issues.length} problem(s) in the review:\n${formatValidationIssues(result.issues)}`);
+    }
+    return result.review;
+};
+
+const requestReview = async (
+    provider: AiProvider,
+    settings: ProviderSettings,
+    validationErrors: ValidationIssue[],
+    input: string,
+    data: RoadmapData,
+    signal?: AbortSignal,
+): Promise<ReviewValidationResult> => {
+    const jsonStr = await requestJson(provider, settings, buildAiRequest('review', input, validationErrors), { signal });
+    const json = parseJsonResponse(jsonStr);
+    return json ? validateReview(json.value, data) : { review: null, issues: [NOT_JSON_ISSUE] };
+};
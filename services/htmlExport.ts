@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task, TaskStatus } from './geminiService';
+import { getPillarColor } from './pillarColors';
+import { escapeXml } from './svgRenderer';
+import { TASK_STATUSES, getTaskStatusStyle } from './roadmapTasks';
+import { collectFootnotes, formatComment, indexFootnotes, stripComments } from './roadmapComments';
+
+// --- Standalone HTML Export ---
+// Produces a single HTML file with the RoadmapData embedded and a small read-only renderer
+// for the pillar and timeline views. It works offline and needs no build step.
+
+interface PillarPalette {
+    accent: string;
+    background: string;
+}
+
+type StatusPalette = Record<TaskStatus, { label: string; hex: string }>;
+
+// Comments as footnotes: the numbers of each item's notes, keyed like `task:d3`, and the notes themselves.
+interface StandaloneNotes {
+    refs: Record<string, number[]>;
+    notes: { number: number; title: string; comments: string[] }[];
+}
+
+/**
+ * The read-only renderer that runs inside the published file. It is serialized with
+ * Function.prototype.toString, so it must not reference anything outside its own body.
+ */
+const standaloneRenderer = (root: HTMLElement, data: RoadmapData, palette: PillarPalette[], statuses: StatusPalette, notes: StandaloneNotes) => {
+    const el = (tag: string, className?: string, text?: string) => {
+        const node = document.createElement(tag);
+        if (className) node.className = className;
+        if (text !== undefined) node.textContent = text;
+        return node;
+    };
+    const refs = (key: string) => (notes.refs[key] ?? []).map(number => {
+        const sup = el('sup', 'note-ref');
+        const link = el('a', '', String(number));
+        link.setAttribute('href', `#note-${number}`);
+        sup.appendChild(link);
+        return sup;
+    });
+    const colorOf = (pillarIndex: number) => palette[pillarIndex % palette.length];
+    const tasksOf = (timeframe: RoadmapData['timeframes'][number], pillarId: string) =>
+        timeframe.deliverables.find(d => d.pillarId === pillarId)?.tasks ?? [];
+    const taskList = (tasks: Task[]) => {
+        const list = el('ul', 'tasks');
+        tasks.forEach(task => {
+            const item = el('li', '', task.title);
+            item.append(...refs(`task:${task.id}`));
+            if (task.status !== 'planned') {
+                const badge = el('span', 'badge', statuses[task.status].label);
+                badge.style.color = statuses[task.status].hex;
+                badge.style.borderColor = statuses[task.status].hex;
+                item.append(' ', badge);
+            }
+            if (task.owner) item.append(' ', el('span', 'owner', task.owner));
+            list.appendChild(item);
+        });
+        return list;
+    };
+
+    const renderPillarView = () => {
+        const grid = el('div', 'pillar-grid');
+        data.pillars.forEach((pillar, index) => {
+            const color = colorOf(index);
+            const column = el('div', 'pillar-column');
+            const heading = el('h3', 'pillar-heading');
+            heading.style.borderColor = color.accent;
+            heading.style.background = `${color.background}80`;
+            const dot = el('span', 'dot');
+            dot.style.background = color.accent;
+            heading.append(dot, pillar.name, ...refs(`pillar:${pillar.id}`));
+            column.appendChild(heading);
+            data.timeframes.forEach(timeframe => {
+                const tasks = tasksOf(timeframe, pillar.id);
+                if (tasks.length === 0) return;
+                const cell = el('div', 'cell');
+                const title = el('h4', '', `${timeframe.name} `);
+                title.append(el('span', 'muted', `(${timeframe.date})`), ...refs(`timeframe:${timeframe.id}`));
+                cell.append(title, taskList(tasks));
+                column.appendChild(cell);
+            });
+            grid.appendChild(column);
+        });
+        return grid;
+    };
+
+    const renderTimelineView = () => {
+        const timeline = el('div', 'timeline');
+        data.timeframes.forEach(timeframe => {
+            const column = el('div', 'timeframe');
+            const name = el('h3', 'timeframe-name', timeframe.name);
+            name.append(...refs(`timeframe:${timeframe.id}`));
+            column.append(el('div', 'date', timeframe.date), el('div', 'marker'), name);
+            data.pillars.forEach((pillar, index) => {
+                const tasks = tasksOf(timeframe, pillar.id);
+                if (tasks.length === 0) return;
+                const color = colorOf(index);
+                const block = el('div', 'block');
+                block.style.borderColor = color.accent;
+                block.style.background = `${color.background}80`;
+                const heading = el('h4');
+                const dot = el('span', 'dot');
+                dot.style.background = color.accent;
+                heading.append(dot, pillar.name, ...refs(`pillar:${pillar.id}`));
+                block.append(heading, taskList(tasks));
+                column.appendChild(block);
+            });
+            timeline.appendChild(column);
+        });
+        return timeline;
+    };
+
+    const content = el('div');
+    const show = (view: 'pillar' | 'timeline') => {
+        content.replaceChildren(view === 'pillar' ? renderPillarView() : renderTimelineView());
+        root.querySelectorAll<HTMLButtonElement>('[data-view]').forEach(button => {
+            button.setAttribute('aria-pressed', String(button.dataset.view === view));
+        });
+    };
+
+    const toolbar = el('div', 'toolbar');
+    (['pillar', 'timeline'] as const).forEach(view => {
+        const button = el('button', '', view === 'pillar' ? 'Pillar View' : 'Timeline View');
+        button.dataset.view = view;
+        button.addEventListener('click', () => show(view));
+        toolbar.appendChild(button);
+    });
+
+    root.append(toolbar, el('h1', '', data.title), el('p', 'subtitle', data.subtitle), content);
+    if (notes.notes.length > 0) {
+        const section = el('section', 'notes');
+        section.appendChild(el('h2', '', 'Comments'));
+        const list = el('ol');
+        notes.notes.forEach(note => {
+            const item = el('li');
+            item.id = `note-${note.number}`;
+            item.appendChild(el('strong', '', note.title));
+            note.comments.forEach(comment => item.appendChild(el('p', '', comment)));
+            list.appendChild(item);
+        });
+        section.appendChild(list);
+        root.appendChild(section);
+    }
+    show('pillar');
+};
+
+const STANDALONE_STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; background: #111827; color: #e5e7eb; font-family: ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; -webkit-font-smoothing: antialiased; }
+#roadmap { padding: 32px; }
+h1 { text-align: center; font-size: 30px; margin: 0 0 4px; }
+.subtitle, .muted { color: #9ca3af; }
+.subtitle { text-align: center; margin: 0 0 32px; }
+.muted { font-weight: normal; font-size: 14px; }
+.toolbar { display: flex; justify-content: flex-end; gap: 4px; margin-bottom: 16px; }
+.toolbar button { background: #374151; color: #e5e7eb; border: 0; border-radius: 6px; padding: 6px 12px; cursor: pointer; opacity: .7; }
+.toolbar button[aria-pressed="true"] { background: #4b5563; opacity: 1; }
+.pillar-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(260px, 1fr)); gap: 24px; }
+.pillar-column { display: flex; flex-direction: column; gap: 24px; }
+.pillar-heading { display: flex; align-items: center; gap: 8px; margin: 0; padding: 12px; border-radius: 8px; border-left: 4px solid; font-size: 18px; }
+.dot { width: 10px; height: 10px; border-radius: 9999px; flex-shrink: 0; }
+.cell { background: rgba(31, 41, 55, .6); border-radius: 8px; padding: 16px; }
+.cell h4 { margin: 0 0 12px; color: #d1d5db; }
+.tasks { margin: 0; padding-left: 20px; color: #9ca3af; line-height: 1.5; }
+.timeline { display: flex; align-items: flex-start; overflow-x: auto; background: linear-gradient(#4b5563, #4b5563) no-repeat 0 64px / 100% 2px; }
+.timeframe { flex: 0 0 320px; padding: 0 16px; }
+.timeframe .date { height: 48px; display: flex; align-items: flex-end; justify-content: center; font-size: 14px; font-weight: 600; color: #d1d5db; white-space: nowrap; }
+.timeframe .marker { width: 12px; height: 12px; margin: 10px auto 0; border-radius: 9999px; background: #e5e7eb; box-shadow: 0 0 0 4px #111827; }
+.timeframe-name { text-align: center; font-size: 18px; margin: 32px 0 16px; }
+.block { border-left: 4px solid; border-radius: 8px; padding: 12px; margin-bottom: 16px; }
+.block h4 { display: flex; align-items: center; gap: 8px; margin: 0 0 8px; color: #d1d5db; }
+.block .tasks { font-size: 14px; }
+.badge { display: inline-block; font-size: 11px; line-height: 1; padding: 2px 6px; border: 1px solid; border-radius: 9999px; white-space: nowrap; }
+.owner { font-size: 12px; color: #6b7280; }
+.note-ref { font-size: 10px; margin-left: 2px; }
+.note-ref a { color: #93c5fd; text-decoration: none; }
+.notes { margin-top: 48px; border-top: 1px solid #374151; padding-top: 16px; color: #9ca3af; font-size: 14px; }
+.notes h2 { font-size: 18px; color: #e5e7eb; }
+.notes li { margin-bottom: 12px; }
+.notes p { margin: 4px 0 0; }
+`;
+
+// Prevents the embedded JSON from closing the surrounding <script> element.
+const serializeForScript = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+export interface StandaloneHtmlOptions {
+    // Adds the comment threads as footnotes. Otherwise they are left out of the file entirely.
+    includeComments?: boolean;
+}
+
+export const renderStandaloneHtml = (data: RoadmapData, options: StandaloneHtmlOptions = {}): string => {
+    const footnotes = options.includeComments ? collectFootnotes(data) : [];
+    const notes: StandaloneNotes = {
+        refs: indexFootnotes(footnotes),
+        notes: footnotes.map(({ number, label, thread }) => ({
+            number,
+            title: `${label}${thread.resolved ? ' (resolved)' : ''}`,
+            comments: thread.comments.map(formatComment),
+        })),
+    };
+    const palette: PillarPalette[] = data.pillars.map(pillar => getPillarColor(pillar.color).hex);
+    const statuses = Object.fromEntries(TASK_STATUSES.map(status => {
+        const { label, hex } = getTaskStatusStyle(status);
+        return [status, { label, hex }];
+    })) as StatusPalette;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeXml(data.title || 'Roadmap')}</title>
+<style>${STANDALONE_STYLES}</style>
+</head>
+<body>
+<div id="roadmap"></div>
+<script type="application/json" id="roadmap-data">${serializeForScript({ data: stripComments(data), palette, statuses, notes })}</script>
+<script>
+(function () {
+  var payload = JSON.parse(document.getElementById('roadmap-data').textContent);
+  (${standaloneRenderer.toString()})(document.getElementById('roadmap'), payload.data, payload.palette, payload.statuses, payload.notes);
+})();
+</script>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Partial JSON Parsing ---
+// Streamed model output is an incomplete JSON document until the last chunk arrives.
+// To render it progressively, the text is cut back to the last complete value and
+// every open object/array is closed.
+
+interface Container {
+    type: 'object' | 'array';
+    // In objects, whether the next string is a key (true) or a value (false).
+    expectKey: boolean;
+}
+
+const closeContainers = (stack: Container[]) =>
+    stack.map(container => (container.type === 'object' ? '}' : ']')).reverse().join('');
+
+/** Parses as much of an incomplete JSON document as possible. Returns undefined if nothing usable has arrived yet. */
+export const parsePartialJson = (text: string): unknown => {
+    const start = text.search(/[{[]/);
+    if (start === -1) return undefined;
+
+    const stack: Container[] = [];
+    let inString = false;
+    let escaped = false;
+    // The longest prefix that ends right after a complete value, and the closers it needs.
+    let safeText = '';
+
+    const markSafe = (end: number) => {
+        safeText = text.slice(start, end) + closeContainers(stack);
+    };
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        const top = stack[stack.length - 1];
+
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') {
+                inString = false;
+                if (top?.type === 'object' && top.expectKey) top.expectKey = false;
+                else markSafe(i + 1);
+            }
+            continue;
+        }
+
+        switch (char) {
+            case '"':
+                inString = true;
+                break;
+            case '{':
+            case '[':
+                stack.push({ type: char === '{' ? 'object' : 'array', expectKey: char === '{' });
+                markSafe(i + 1);
+                break;
+            case '}':
+            case ']':
+                stack.pop();
+                markSafe(i + 1);
+                if (stack.length === 0) return tryParse(safeText);
+                break;
+            case ',':
+                // Everything before a comma is complete, including numbers and literals.
+                markSafe(i);
+                if (top?.type === 'object') top.expectKey = true;
+                break;
+        }
+    }
+
+    return tryParse(safeText);
+};
+
+const tryParse = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+};
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Minimal PDF Writer ---
+// Writes a PDF where every page shows one JPEG image scaled to fit the page.
+// This is all the exporter needs, so no PDF library is bundled.
+
+export interface PdfImagePage {
+    jpeg: Uint8Array;
+    // Pixel size of the JPEG.
+    width: number;
+    height: number;
+}
+
+// A4 landscape in PDF points.
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const PAGE_MARGIN = 24;
+
+const encoder = new TextEncoder();
+
+export const createImagePdf = (pages: PdfImagePage[]): Blob => {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Object layout: 1 = catalog, 2 = page tree, then three objects per page (page, image, content).
+    const pageObjectId = (index: number) => 3 + index * 3;
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    beginObject(2);
+    const kids = pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ');
+    write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const pageId = pageObjectId(index);
+        const imageId = pageId + 1;
+        const contentId = pageId + 2;
+
+        // Scale the image to fit inside the margins while keeping its aspect ratio.
+        const scale = Math.min((PAGE_WIDTH - PAGE_MARGIN * 2) / page.width, (PAGE_HEIGHT - PAGE_MARGIN * 2) / page.height);
+        const drawWidth = page.width * scale;
+        const drawHeight = page.height * scale;
+        const x = (PAGE_WIDTH - drawWidth) / 2;
+        const y = PAGE_HEIGHT - PAGE_MARGIN - drawHeight;
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /XObject << /Im${index} ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+        beginObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+
+        const content = `q ${drawWidth.toFixed(2)} 0 0 ${drawHeight.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im${index} Do Q`;
+        beginObject(contentId);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    });
+
+    const objectCount = 2 + pages.length * 3;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Pillar Palette ---
+// Each pillar stores its own accent color, so colors survive reordering and are shared by the
+// editor views (inline styles) and the exporters (hex values).
+
+export interface PillarColor {
+  accent: string;
+  // A translucent tint of the accent for backgrounds; it works on light and dark pages alike.
+  tint: string;
+  // Hex values for rendering outside the DOM, where the exports use a dark page.
+  hex: { accent: string; background: string };
+}
+
+// The first colors of the palette, with the backgrounds the exports have always used for them.
+const BASE_COLORS: { accent: string; background: string }[] = [
+  { accent: '#60a5fa', background: '#1e3a8a' },
+  { accent: '#4ade80', background: '#14532d' },
+  { accent: '#f472b6', background: '#831843' },
+  { accent: '#fb923c', background: '#7c2d12' },
+  { accent: '#818cf8', background: '#312e81' },
+  { accent: '#2dd4bf', background: '#134e4a' },
+];
+
+const toHex = (channels: number[]) => `#${channels.map(c => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('')}`;
+
+const toChannels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+const hslToHex = (hue: number, saturation: number, lightness: number) => {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const f = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return 255 * (l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return toHex([f(0), f(8), f(4)]);
+};
+
+/** The nth color of the palette. After the base colors, hues are spread by the golden angle, so the palette never repeats. */
+export const getPaletteColor = (index: number): string =>
+  index < BASE_COLORS.length ? BASE_COLORS[index].accent : hslToHex((50 + (index - BASE_COLORS.length) * 137.508) % 360, 75, 62);
+
+/** The first palette color no other pillar uses, for new pillars. */
+export const pickPillarColor = (usedColors: string[]): string => {
+  const used = new Set(usedColors.map(color => color.toLowerCase()));
+  let index = 0;
+  while (used.has(getPaletteColor(index))) index++;
+  return getPaletteColor(index);
+};
+
+/** "#rgb" or "#rrggbb" as lowercase "#rrggbb", or null if the value is not a hex color. */
+export const normalizeHexColor = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().toLowerCase().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (!match) return null;
+  return match[1].length === 3 ? `#${match[1].split('').map(c => c + c).join('')}` : `#${match[1]}`;
+};
+
+export const getPillarColor = (color: string): PillarColor => {
+  const accent = normalizeHexColor(color) ?? getPaletteColor(0);
+  const base = BASE_COLORS.find(c => c.accent === accent);
+  return {
+    accent,
+    tint: `${accent}33`,
+    hex: { accent, background: base?.background ?? toHex(toChannels(accent).map(c => c * 0.4)) },
+  };
+};
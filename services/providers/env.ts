@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// TypeScript declaration for environment variables injected by Vite.
+// This prevents TypeScript errors when accessing `process.env`.
+declare var process: {
+  env: {
+    // This is provided by the execution environment (e.g., AI Studio).
+    API_KEY: string;
+    // These are injected by Vite's `define` config in vite.config.ts.
+    VITE_AI_PROVIDER: string;
+    VITE_AI_GATEWAY_URL: string;
+    VITE_AI_GATEWAY_API_KEY: string;
+    VITE_AI_GATEWAY_MODEL: string;
+    VITE_GEMINI_MODEL: string;
+    VITE_OLLAMA_URL: string;
+    VITE_OLLAMA_MODEL: string;
+    VITE_AI_DIRECT_MODE: string;
+    VITE_AI_PROXY_URL: string;
+  }
+};
+
+// Build-time configuration. Runtime choices made in the settings UI are layered on top (see aiSettings.ts).
+export const env = {
+  provider: process.env.VITE_AI_PROVIDER || 'GEMINI',
+  geminiApiKey: process.env.API_KEY,
+  geminiModel: process.env.VITE_GEMINI_MODEL,
+  gatewayUrl: process.env.VITE_AI_GATEWAY_URL,
+  gatewayApiKey: process.env.VITE_AI_GATEWAY_API_KEY,
+  gatewayModel: process.env.VITE_AI_GATEWAY_MODEL,
+  ollamaUrl: process.env.VITE_OLLAMA_URL,
+  ollamaModel: process.env.VITE_OLLAMA_MODEL,
+  // Providers that need credentials are called through the app server (server/index.ts), which
+  // holds the keys. Direct mode calls them from the browser and is meant for local development only.
+  directMode: process.env.VITE_AI_DIRECT_MODE === 'true',
+  proxyUrl: process.env.VITE_AI_PROXY_URL || '/api/ai',
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AiProvider } from './types';
+import { describeJsonResponse } from './types';
+import { env } from './env';
+import { isObject } from '../roadmapValidator';
+import { fetchWithRetry, parseStreamEvent, readLines } from './http';
+
+// An OpenAI-compatible chat completions gateway, addressed as `<base URL>/<model>/v1/chat/completions`.
+export const gatewayProvider: AiProvider = {
+    id: 'GATEWAY',
+    label: 'AI Gateway (OpenAI-compatible)',
+    description: 'Sends chat completion requests to an OpenAI-compatible gateway using VITE_AI_GATEWAY_API_KEY.',
+    settingsFields: ['baseUrl', 'model'],
+    defaultSettings: { model: env.gatewayModel || 'gemini-2.5-pro', baseUrl: env.gatewayUrl || '' },
+
+    getConfigurationError: (settings) =>
+        settings.baseUrl && env.gatewayApiKey
+            ? null
+            : 'AI Gateway is the configured provider, but the gateway URL or VITE_AI_GATEWAY_API_KEY is missing.',
+
+    generateJson: async (request, settings, options = {}) => {
+        const fullGatewayUrl = `${settings.baseUrl.replace(/\/$/, '')}/${settings.model}/v1/chat/completions`;
+        console.log(`[AI Service] Sending request to Gateway URL: %c${fullGatewayUrl}`, 'font-weight: bold;');
+
+        const response = await fetchWithRetry(fullGatewayUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${env.gatewayApiKey}`
+            },
+            body: JSON.stringify({
+                model: settings.model,
+                messages: [
+                    { role: 'system', content: describeJsonResponse(request) },
+                    { role: 'user', content: request.input }
+                ],
+                // Enforce JSON output for compatible OpenAI-like APIs
+                response_format: { type: "json_object" },
+                stream: true,
+            }),
+            signal: options.signal,
+        }, 'AI Gateway');
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`AI Gateway request failed with status ${response.status}: ${errorText}`);
+        }
+
+        // Some gateways ignore `stream: true` and answer with a single JSON body.
+        if (response.headers.get('content-type')?.includes('application/json')) {
+            const data = await response.json();
+            const content = data.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') {
+                throw new Error('The AI Gateway response did not contain the expected content in "choices[0].message.content".');
+            }
+            options.onText?.(content);
+            return content;
+        }
+
+        // Server-sent events: "data: {...}" lines, terminated by "data: [DONE]".
+        let text = '';
+        for await (const line of readLines(response)) {
+            if (!line.startsWith('data:')) continue;
+            const payload = line.slice(5).trim();
+            if (payload === '[DONE]') break;
+            // Keep-alives and other lines that are not JSON are skipped; only an error event ends the stream.
+            const event = parseStreamEvent(payload, 'AI Gateway');
+            if (!event) continue;
+            if (event.error) {
+                const message = isObject(event.error) && typeof event.error.message === 'string' ? event.error.message : JSON.stringify(event.error);
+                throw new Error(`AI Gateway stream failed: ${message}`);
+            }
+            const choice = Array.isArray(event.choices) ? event.choices[0] : undefined;
+            const delta = isObject(choice) && isObject(choice.delta) ? choice.delta.content : undefined;
+            if (typeof delta === 'string' && delta) {
+                text += delta;
+                options.onText?.(text);
+            }
+        }
+        return text;
+    },
+};
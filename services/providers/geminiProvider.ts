@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI } from "@google/genai";
+import type { AiProvider } from './types';
+import { env } from './env';
+
+export const geminiProvider: AiProvider = {
+    id: 'GEMINI',
+    label: 'Google Gemini',
+    description: 'Calls the Gemini API directly with the API_KEY from the execution environment.',
+    settingsFields: ['model'],
+    defaultSettings: { model: env.geminiModel || 'gemini-2.5-pro', baseUrl: '' },
+
+    getConfigurationError: () =>
+        env.geminiApiKey ? null : "Gemini is the configured provider, but the API_KEY is missing in the execution environment.",
+
+    generateJson: async (request, settings, options = {}) => {
+        const ai = new GoogleGenAI({ apiKey: env.geminiApiKey });
+        const stream = await ai.models.generateContentStream({
+            model: settings.model,
+            contents: request.input,
+            config: {
+              responseMimeType: "application/json",
+              responseSchema: request.schema,
+              systemInstruction: request.instructions,
+              abortSignal: options.signal,
+            },
+        });
+        let text = '';
+        for await (const chunk of stream) {
+            text += chunk.text ?? '';
+            options.onText?.(text);
+        }
+        return text.trim();
+    },
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { isObject } from '../roadmapValidator';
+
+// --- HTTP Helpers for Providers ---
+
+// Gateways commonly answer with these while overloaded or restarting.
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+});
+
+/**
+ * fetch() with automatic retries and exponential backoff (1s, 2s, ...) on network errors
+ * and transient HTTP statuses. Aborting the signal stops immediately.
+ */
+export const fetchWithRetry = async (url: string, init: RequestInit, label: string, retryStatuses = TRANSIENT_STATUSES): Promise<Response> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const response = await fetch(url, init);
+            if (response.ok || !retryStatuses.has(response.status) || attempt >= MAX_ATTEMPTS) {
+                return response;
+            }
+            console.warn(`[AI Service] ${label} answered with status ${response.status}. Retrying (attempt ${attempt + 1} of ${MAX_ATTEMPTS})...`);
+        } catch (e) {
+            if (isAbortError(e) || init.signal?.aborted || attempt >= MAX_ATTEMPTS) throw e;
+            console.warn(`[AI Service] ${label} request failed: ${(e as Error).message}. Retrying (attempt ${attempt + 1} of ${MAX_ATTEMPTS})...`);
+        }
+        await wait(BASE_DELAY_MS * 2 ** (attempt - 1), init.signal ?? undefined);
+    }
+};
+
+/** Yields the body of a streamed response line by line. */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) throw new Error('The response has no body to stream.');
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? '';
+        for (const line of lines) yield line;
+    }
+    if (buffer) yield buffer;
+}
+
+/** Parses one event of a streamed response. Events that are not a JSON object, e.g. keep-alives, are skipped with a warning. */
+export const parseStreamEvent = (payload: string, label: string): Record<string, unknown> | null => {
+    let event: unknown;
+    try {
+        event = JSON.parse(payload);
+    } catch {
+        event = undefined;
+    }
+    if (isObject(event)) return event;
+    console.warn(`[AI Service] Skipped a ${label} event that is not a JSON object: ${payload}`);
+    return null;
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AiProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { gatewayProvider } from './gatewayProvider';
+import { ollamaProvider } from './ollamaProvider';
+import { mockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { env } from './env';
+
+export type { AiProvider, AiGenerationRequest, AiGenerationOptions, AiTaskKind, ProviderSettings, ProviderSettingsField } from './types';
+export { ProviderConfigurationError } from './types';
+
+// --- Provider Registry ---
+// New backends register themselves here; the parser only talks to the AiProvider interface.
+
+const providers = new Map<string, AiProvider>();
+
+export const registerProvider = (provider: AiProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): AiProvider | undefined => providers.get(id);
+
+export const listProviders = (): AiProvider[] => Array.from(providers.values());
+
+// Providers that need credentials go through the app server unless direct mode is enabled.
+// Ollama runs on the user's machine and the mock needs nothing, so they always run in the browser.
+const credentialedProviders = [geminiProvider, gatewayProvider].map(provider => (env.directMode ? provider : createProxyProvider(provider)));
+
+[...credentialedProviders, ollamaProvider, mockProvider].forEach(registerProvider);
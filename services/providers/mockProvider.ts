@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AiProvider } from './types';
+import { parseRoadmapMarkdown } from '../roadmapMarkdown';
+
+const CHUNK_SIZE = 48;
+const CHUNK_DELAY_MS = 15;
+
+// Edit commands and reviews need a real model. They are answered with an empty result that says so,
+// recognized by the list field of their schema.
+const getUnsupportedAnswer = (schema: object) => {
+    const fields = Object.keys((schema as { properties?: object }).properties ?? {});
+    const reason = 'The offline mock provider cannot do this. Choose another AI provider in the settings.';
+    if (fields.includes('operations')) return { summary: reason, operations: [] };
+    if (fields.includes('findings')) return { summary: reason, findings: [] };
+    return null;
+};
+
+// An offline stand-in for a model, useful for demos and development. It answers roadmap
+// parsing requests with the deterministic Markdown parser, so no network is involved.
+// Edit commands and reviews are not supported.
+export const mockProvider: AiProvider = {
+    id: 'MOCK',
+    label: 'Mock (offline)',
+    description: 'Answers with the local Markdown parser. No network access and no API key needed.',
+    settingsFields: [],
+    defaultSettings: { model: 'offline-markdown', baseUrl: '' },
+
+    getConfigurationError: () => null,
+
+    // Streams the answer in small chunks so progressive rendering and cancellation can be tried offline.
+    generateJson: async (request, _settings, options = {}) => {
+        const json = JSON.stringify(getUnsupportedAnswer(request.schema) ?? parseRoadmapMarkdown(request.input).data);
+        for (let end = CHUNK_SIZE; end < json.length + CHUNK_SIZE; end += CHUNK_SIZE) {
+            if (options.signal?.aborted) throw options.signal.reason ?? new DOMException('Aborted', 'AbortError');
+            options.onText?.(json.slice(0, end));
+            await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+        }
+        return json;
+    },
+};
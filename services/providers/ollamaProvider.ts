@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AiProvider } from './types';
+import { describeJsonResponse } from './types';
+import { env } from './env';
+import { isObject } from '../roadmapValidator';
+import { fetchWithRetry, parseStreamEvent, readLines } from './http';
+
+// A locally running Ollama-style server (`POST /api/chat`). No API key is needed.
+export const ollamaProvider: AiProvider = {
+    id: 'OLLAMA',
+    label: 'Local model (Ollama)',
+    description: 'Sends chat requests to a local Ollama-compatible endpoint.',
+    settingsFields: ['baseUrl', 'model'],
+    defaultSettings: { model: env.ollamaModel || 'llama3.1', baseUrl: env.ollamaUrl || 'http://localhost:11434' },
+
+    getConfigurationError: (settings) =>
+        settings.baseUrl && settings.model ? null : 'The local model provider needs an endpoint URL and a model name.',
+
+    generateJson: async (request, settings, options = {}) => {
+        const response = await fetchWithRetry(`${settings.baseUrl.replace(/\/$/, '')}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: settings.model,
+                messages: [
+                    { role: 'system', content: describeJsonResponse(request) },
+                    { role: 'user', content: request.input }
+                ],
+                format: 'json',
+                stream: true,
+            }),
+            signal: options.signal,
+        }, 'Local model');
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Local model request failed with status ${response.status}: ${errorText}`);
+        }
+
+        // Newline-delimited JSON: one {"message": {"content": "..."}, "done": false} object per chunk.
+        let text = '';
+        for await (const line of readLines(response)) {
+            if (!line.trim()) continue;
+            // A malformed or partial line is skipped; only an error chunk ends the stream.
+            const chunk = parseStreamEvent(line, 'local model');
+            if (!chunk) continue;
+            if (chunk.error) throw new Error(`Local model error: ${typeof chunk.error === 'string' ? chunk.error : JSON.stringify(chunk.error)}`);
+            const content = isObject(chunk.message) ? chunk.message.content : undefined;
+            if (typeof content === 'string' && content) {
+                text += content;
+                options.onText?.(text);
+            }
+            if (chunk.done) break;
+        }
+        return text;
+    },
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AiProvider, AiTaskKind } from './types';
+import { ProviderConfigurationError } from './types';
+import type { ValidationIssue } from '../roadmapValidator';
+import { isObject } from '../roadmapValidator';
+import { env } from './env';
+import { fetchWithRetry, readLines } from './http';
+
+// The request body of the app server's generate endpoint (see server/aiProxy.ts). The server builds
+// the instructions and the schema for the task itself.
+export interface ProxyGenerateRequest {
+    provider: string;
+    model: string;
+    task: AiTaskKind;
+    input: string;
+    validationErrors: ValidationIssue[];
+}
+
+// The server streams one JSON object per line: text chunks, then either `done` or an error.
+export type ProxyStreamLine = { text: string } | { done: true } | { error: string };
+
+const isStreamLine = (value: unknown): value is ProxyStreamLine =>
+    isObject(value) && (typeof value.text === 'string' || value.done === true || typeof value.error === 'string');
+
+// A server without credentials for the provider answers 501; an overloaded upstream answers 503, which is retried.
+const NOT_CONFIGURED_STATUS = 501;
+const RETRY_STATUSES = new Set([503]);
+
+/**
+ * Runs a provider on the app server instead of in the browser, so its credentials never reach
+ * the client. The server decides the endpoint; only the model can be chosen here.
+ */
+export const createProxyProvider = (provider: AiProvider): AiProvider => ({
+    ...provider,
+    description: `${provider.label}, called through the app server, which keeps the credentials.`,
+    settingsFields: provider.settingsFields.filter(field => field !== 'baseUrl'),
+    // Only the server knows its credentials. It reports missing ones with a 501 when a request is made.
+    getConfigurationError: () => null,
+
+    generateJson: async (request, settings, options = {}) => {
+        const body: ProxyGenerateRequest = {
+            provider: provider.id,
+            model: settings.model,
+            task: request.task.kind,
+            input: request.input,
+            validationErrors: request.task.validationErrors,
+        };
+        // Only a 503 is retried: the server already retries the upstream call, and retrying a 429 would only hit the limit again.
+        const response = await fetchWithRetry(`${env.proxyUrl}/generate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: options.signal,
+        }, 'AI proxy', RETRY_STATUSES);
+
+        if (!response.ok) {
+            const data: unknown = await response.json().catch(() => null);
+            const retryAfter = response.headers.get('Retry-After');
+            const message = isObject(data) && typeof data.error === 'string' ? data.error : `The AI proxy answered with status ${response.status}.`;
+            if (response.status === NOT_CONFIGURED_STATUS) throw new ProviderConfigurationError(message);
+            if (RETRY_STATUSES.has(response.status)) throw new Error(`${message} The AI provider is busy; try again in a moment.`);
+            throw new Error(response.status === 429 && retryAfter ? `${message} Try again in ${retryAfter} seconds.` : message);
+        }
+
+        let text = '';
+        for await (const line of readLines(response)) {
+            if (!line.trim()) continue;
+            let message: unknown;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                message = undefined;
+            }
+            if (!isStreamLine(message)) throw new Error('The AI proxy sent a response that could not be read.');
+            if ('error' in message) throw new Error(message.error);
+            if ('done' in message) return text;
+            text += message.text;
+            options.onText?.(text);
+        }
+        throw new Error('The AI proxy closed the connection before the response was complete.');
+    },
+});
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- AI Provider Contract ---
+// A provider turns instructions plus user input into a JSON string that follows a schema.
+// Parsing, validation and prompts for specific tasks stay in the calling service.
+
+import type { ValidationIssue } from '../roadmapValidator';
+
+// The AI features. The app server runs only these, with requests it builds itself (see services/aiTasks.ts).
+export type AiTaskKind = 'generate' | 'patch' | 'review';
+
+export interface AiGenerationRequest {
+    // The feature the request is for, and the problems of the previous response when it is a second attempt.
+    task: { kind: AiTaskKind; validationErrors: ValidationIssue[] };
+    // What the model should do, e.g. how to parse a roadmap.
+    instructions: string;
+    // The user's input, e.g. the roadmap text.
+    input: string;
+    // The JSON schema (in @google/genai `Type` notation) the response must follow.
+    schema: object;
+}
+
+export interface AiGenerationOptions {
+    // Aborts the request, e.g. when the user cancels or a timeout expires.
+    signal?: AbortSignal;
+    // Called with the accumulated response text each time a streamed chunk arrives.
+    onText?: (textSoFar: string) => void;
+}
+
+export interface ProviderSettings {
+    model: string;
+    // Only used by providers that talk to a configurable endpoint.
+    baseUrl: string;
+}
+
+export type ProviderSettingsField = keyof ProviderSettings;
+
+export interface AiProvider {
+    id: string;
+    label: string;
+    description: string;
+    // The settings the settings UI should offer for this provider.
+    settingsFields: ProviderSettingsField[];
+    defaultSettings: ProviderSettings;
+    // Returns a human-readable reason when the provider cannot be used, e.g. a missing API key.
+    getConfigurationError: (settings: ProviderSettings) => string | null;
+    // Streams the response and resolves with the complete raw JSON text returned by the model.
+    generateJson: (request: AiGenerationRequest, settings: ProviderSettings, options?: AiGenerationOptions) => Promise<string>;
+}
+
+/**
+ * Thrown by generateJson when the provider turns out not to be configured, e.g. when the app server
+ * has no credentials for it. Callers treat it like a configuration error reported up front.
+ */
+export class ProviderConfigurationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderConfigurationError';
+    }
+}
+
+// Appended to the instructions for providers that cannot enforce a response schema natively.
+export const describeJsonResponse = (request: AiGenerationRequest) => `${request.instructions}
+
+Your response MUST be a single, valid JSON object that strictly adheres to the following JSON schema.
+Do not include any explanatory text, markdown formatting, or anything else outside of the JSON object.
+
+JSON Schema:
+${JSON.stringify(request.schema, null, 2)}`;
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CommentTarget, CommentThread, RoadmapComment, RoadmapData } from './geminiService';
+import { listTasks } from './roadmapTasks';
+
+// --- Comment Threads ---
+// Review discussions attached to a deliverable, pillar or timeframe. Like the editing operations,
+// every function here returns an updated copy and leaves the input untouched.
+
+const createId = (prefix: string) => `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const isTarget = (a: CommentTarget, b: CommentTarget) => a.type === b.type && a.id === b.id;
+
+// An empty list is left out, so roadmaps without comments look like they always did.
+const withThreads = (data: RoadmapData, threads: CommentThread[]): RoadmapData => {
+    const { threads: _, ...rest } = data;
+    return threads.length > 0 ? { ...rest, threads } : rest;
+};
+
+const updateThread = (data: RoadmapData, threadId: string, update: (thread: CommentThread) => CommentThread | null): RoadmapData => {
+    const threads = data.threads ?? [];
+    if (!threads.some(thread => thread.id === threadId)) return data;
+    return withThreads(data, threads.flatMap(thread => {
+        if (thread.id !== threadId) return [thread];
+        const updated = update(thread);
+        return updated ? [updated] : [];
+    }));
+};
+
+export const threadsOf = (data: RoadmapData, target: CommentTarget): CommentThread[] =>
+    (data.threads ?? []).filter(thread => isTarget(thread.target, target));
+
+/** The number of comments in unresolved threads, for the badges. */
+export const countOpenComments = (threads: CommentThread[]) =>
+    threads.reduce((sum, thread) => sum + (thread.resolved ? 0 : thread.comments.length), 0);
+
+// --- Mentions ---
+
+/** The people who can be @mentioned: owners of deliverables and everyone who commented or was mentioned. */
+export const listPeople = (data: RoadmapData): string[] => {
+    const names = [
+        ...listTasks(data).map(entry => entry.task.owner),
+        ...(data.threads ?? []).flatMap(thread => thread.comments.flatMap(comment => [comment.author, ...comment.mentions])),
+    ];
+    const unique = new Map(names.map(name => name.trim()).filter(Boolean).map(name => [name.toLowerCase(), name]));
+    return [...unique.values()].sort((a, b) => a.localeCompare(b));
+};
+
+const MENTION_WORD_RE = /^[\w.-]*\w/;
+
+/**
+ * The names mentioned with "@" in a comment. Known names may contain spaces ("@Dana Lee");
+ * anything else is taken up to the end of the word.
+ */
+export const parseMentions = (text: string, people: string[]): string[] => {
+    const known = [...people].sort((a, b) => b.length - a.length);
+    const mentions = new Map<string, string>();
+    for (let i = text.indexOf('@'); i !== -1; i = text.indexOf('@', i + 1)) {
+        if (i > 0 && /\w/.test(text[i - 1])) continue;
+        const rest = text.slice(i + 1);
+        const name = known.find(person => rest.toLowerCase().startsWith(person.toLowerCase()) && !/\w/.test(rest[person.length] ?? ''))
+            ?? rest.match(MENTION_WORD_RE)?.[0];
+        if (name) mentions.set(name.toLowerCase(), name);
+    }
+    return [...mentions.values()];
+};
+
+export const createComment = (author: string, text: string, people: string[]): RoadmapComment => ({
+    id: createId('c'),
+    author,
+    text,
+    mentions: parseMentions(text, people),
+    createdAt: new Date().toISOString(),
+});
+
+// --- Operations ---
+
+export const addThread = (data: RoadmapData, target: CommentTarget, comment: RoadmapComment, id = createId('th')): RoadmapData =>
+    withThreads(data, [...(data.threads ?? []), { id, target, resolved: false, comments: [comment] }]);
+
+/** Adds a comment to a thread. Replying reopens a resolved thread. */
+export const replyToThread = (data: RoadmapData, threadId: string, comment: RoadmapComment): RoadmapData =>
+    updateThread(data, threadId, thread => ({ ...thread, resolved: false, comments: [...thread.comments, comment] }));
+
+export const setThreadResolved = (data: RoadmapData, threadId: string, resolved: boolean): RoadmapData =>
+    updateThread(data, threadId, thread => (thread.resolved === resolved ? thread : { ...thread, resolved }));
+
+/** Removes a comment; a thread without comments is removed as well. */
+export const deleteComment = (data: RoadmapData, threadId: string, commentId: string): RoadmapData =>
+    updateThread(data, threadId, thread => {
+        const comments = thread.comments.filter(comment => comment.id !== commentId);
+        return comments.length > 0 ? { ...thread, comments } : null;
+    });
+
+const targetExists = (data: RoadmapData, target: CommentTarget) => {
+    if (target.type === 'pillar') return data.pillars.some(p => p.id === target.id);
+    if (target.type === 'timeframe') return data.timeframes.some(t => t.id === target.id);
+    return listTasks(data).some(entry => entry.task.id === target.id);
+};
+
+/** Removes the threads about items that no longer exist. Mutates the given roadmap. */
+export const pruneThreads = (data: RoadmapData): RoadmapData => {
+    if (!data.threads) return data;
+    data.threads = data.threads.filter(thread => targetExists(data, thread.target));
+    if (data.threads.length === 0) delete data.threads;
+    return data;
+};
+
+/** The roadmap without its comments, e.g. to send it to the AI. */
+export const stripComments = (data: RoadmapData): RoadmapData => withThreads(data, []);
+
+/** Keeps the threads of `from` whose items still exist in `to`, e.g. when a roadmap is regenerated from its source. */
+export const carryOverThreads = (from: RoadmapData, to: RoadmapData): RoadmapData =>
+    withThreads(to, (from.threads ?? []).filter(thread => targetExists(to, thread.target)));
+
+// --- Footnotes ---
+// The exports list comments as numbered footnotes: first those on pillars, then each timeframe
+// followed by its deliverables.
+
+export interface CommentFootnote {
+    number: number;
+    target: CommentTarget;
+    // What the thread is about, e.g. 'Deliverable "Launch beta"'.
+    label: string;
+    thread: CommentThread;
+}
+
+export const collectFootnotes = (data: RoadmapData): CommentFootnote[] => {
+    const footnotes: CommentFootnote[] = [];
+    const add = (target: CommentTarget, label: string) => threadsOf(data, target).forEach(thread => {
+        footnotes.push({ number: footnotes.length + 1, target, label, thread });
+    });
+    data.pillars.forEach(pillar => add({ type: 'pillar', id: pillar.id }, `Pillar "${pillar.name}"`));
+    data.timeframes.forEach(timeframe => {
+        add({ type: 'timeframe', id: timeframe.id }, `Timeframe "${timeframe.name ? `${timeframe.date}: ${timeframe.name}` : timeframe.date}"`);
+        data.pillars.forEach(pillar => timeframe.deliverables.find(d => d.pillarId === pillar.id)?.tasks.forEach(task => {
+            add({ type: 'task', id: task.id }, `Deliverable "${task.title}"`);
+        }));
+    });
+    return footnotes;
+};
+
+/** The footnote numbers of an item, keyed like `task:d3`. */
+export const indexFootnotes = (footnotes: CommentFootnote[]): Record<string, number[]> =>
+    footnotes.reduce<Record<string, number[]>>((index, footnote) => {
+        const key = `${footnote.target.type}:${footnote.target.id}`;
+        (index[key] ??= []).push(footnote.number);
+        return index;
+    }, {});
+
+/** A comment as one line, e.g. "Dana (2026-03-02): Can we do this earlier?". */
+export const formatComment = (comment: RoadmapComment) =>
+    `${comment.author} (${comment.createdAt.slice(0, 10)}): ${comment.text.replace(/\s*\n\s*/g, ' ')}`;
+
+// --- Export Preference ---
+// Comments are often not meant for everyone who sees an export, so they are left out by default.
+
+const EXPORT_COMMENTS_KEY = 'roadmap-editor:export-comments';
+
+export const loadIncludeComments = (): boolean => {
+    try {
+        return localStorage.getItem(EXPORT_COMMENTS_KEY) === 'true';
+    } catch (e) {
+        console.error('[Comments] Could not read the export preference:', e);
+        return false;
+    }
+};
+
+export const saveIncludeComments = (include: boolean) => {
+    localStorage.setItem(EXPORT_COMMENTS_KEY, String(include));
+};
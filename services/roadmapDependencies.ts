@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from './geminiService';
+import { listTasks } from './roadmapTasks';
+import type { TaskEntry } from './roadmapTasks';
+
+// --- Deliverable Dependencies ---
+// A deliverable lists the IDs of the deliverables it depends on in `dependsOn`.
+// A dependency is violated when it is scheduled in a later timeframe than its dependent.
+
+export interface DependencyConflict {
+    // The deliverable that depends on another one.
+    task: TaskEntry;
+    // The deliverable it depends on, which is scheduled too late.
+    dependency: TaskEntry;
+}
+
+const timeframeIndexOf = (data: RoadmapData) => {
+    const indexes = new Map(data.timeframes.map((timeframe, index) => [timeframe.id, index]));
+    return (entry: TaskEntry) => indexes.get(entry.timeframeId) ?? -1;
+};
+
+export const findDependencyConflicts = (data: RoadmapData): DependencyConflict[] => {
+    const entries = listTasks(data);
+    const byId = new Map(entries.map(entry => [entry.task.id, entry]));
+    const timeframeIndex = timeframeIndexOf(data);
+    return entries.flatMap(entry => entry.task.dependsOn.flatMap(dependencyId => {
+        const dependency = byId.get(dependencyId);
+        return dependency && timeframeIndex(dependency) > timeframeIndex(entry) ? [{ task: entry, dependency }] : [];
+    }));
+};
+
+/** The deliverables that depend on the given one. */
+export const findDependents = (data: RoadmapData, taskId: string): TaskEntry[] =>
+    listTasks(data).filter(entry => entry.task.dependsOn.includes(taskId));
+
+/** True when `taskId` already (indirectly) is a dependency of `dependencyId`, so adding the edge would close a cycle. */
+export const wouldCreateCycle = (data: RoadmapData, taskId: string, dependencyId: string): boolean => {
+    if (taskId === dependencyId) return true;
+    const dependsOn = new Map(listTasks(data).map(entry => [entry.task.id, entry.task.dependsOn]));
+    const visited = new Set<string>();
+    const stack = [dependencyId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === taskId) return true;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        stack.push(...(dependsOn.get(id) ?? []));
+    }
+    return false;
+};
+
+/** Removes references to deliverables that no longer exist. Mutates the given roadmap. */
+export const pruneDependencies = (data: RoadmapData): RoadmapData => {
+    const ids = new Set(listTasks(data).map(entry => entry.task.id));
+    listTasks(data).forEach(({ task }) => {
+        if (task.dependsOn.some(id => !ids.has(id))) task.dependsOn = task.dependsOn.filter(id => ids.has(id));
+    });
+    return data;
+};
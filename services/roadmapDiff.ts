@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task } from './geminiService';
+import { listTasks, getTaskStatusStyle } from './roadmapTasks';
+import type { TaskEntry } from './roadmapTasks';
+
+// --- Roadmap Comparison ---
+// IDs are assigned by position when a roadmap is (re)generated, so items are matched by name:
+// exact names first, then similar wording. Whatever is left over was added or removed.
+
+type Pillar = RoadmapData['pillars'][number];
+type Timeframe = RoadmapData['timeframes'][number];
+
+export type ChangeKind = 'added' | 'removed' | 'moved' | 'edited';
+
+export interface ItemChange<T> {
+    // Null when the item was added.
+    before: T | null;
+    // Null when the item was removed.
+    after: T | null;
+    // Pillars and timeframes: reordered. Deliverables: in a different pillar or timeframe.
+    moved: boolean;
+    // Names of the fields that differ, e.g. ['title', 'status'].
+    editedFields: string[];
+}
+
+export interface RoadmapDiff {
+    before: RoadmapData;
+    after: RoadmapData;
+    // Pillars and timeframes in display order, with removed ones next to their former neighbors.
+    pillars: ItemChange<Pillar>[];
+    timeframes: ItemChange<Timeframe>[];
+    tasks: ItemChange<TaskEntry>[];
+}
+
+export const getChangeKinds = (change: ItemChange<unknown>): ChangeKind[] => {
+    if (!change.before) return ['added'];
+    if (!change.after) return ['removed'];
+    const kinds: ChangeKind[] = [];
+    if (change.moved) kinds.push('moved');
+    if (change.editedFields.length > 0) kinds.push('edited');
+    return kinds;
+};
+
+// --- Matching ---
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Word overlap (Jaccard index) between two texts, from 0 to 1. */
+const similarity = (a: string, b: string) => {
+    const wordsA = new Set(normalize(a).split(' ').filter(Boolean));
+    const wordsB = new Set(normalize(b).split(' ').filter(Boolean));
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+};
+
+// Reworded items still share at least half of their words.
+const SIMILARITY_THRESHOLD = 0.5;
+
+const similarEnough = (a: string, b: string) => {
+    const score = similarity(a, b);
+    return score >= SIMILARITY_THRESHOLD ? score : 0;
+};
+
+/** Pairs items greedily, one scorer after the other; a score of 0 means "no match". */
+const matchItems = <T>(before: T[], after: T[], scorers: ((a: T, b: T) => number)[]): Map<T, T> => {
+    const matches = new Map<T, T>();
+    const taken = new Set<T>();
+    scorers.forEach(score => {
+        const candidates: { a: T; b: T; score: number }[] = [];
+        before.forEach(a => {
+            if (matches.has(a)) return;
+            after.forEach(b => {
+                if (taken.has(b)) return;
+                const value = score(a, b);
+                if (value > 0) candidates.push({ a, b, score: value });
+            });
+        });
+        candidates.sort((x, y) => y.score - x.score).forEach(({ a, b }) => {
+            if (matches.has(a) || taken.has(b)) return;
+            matches.set(a, b);
+            taken.add(b);
+        });
+    });
+    return matches;
+};
+
+/** The matched items that changed their relative order: those outside the longest run kept in order. */
+const findReordered = <T>(before: T[], after: T[], matches: Map<T, T>): Set<T> => {
+    const beforeIndex = new Map(before.map((item, index) => [item, index]));
+    const kept = after.filter(item => [...matches.values()].includes(item));
+    const positions = kept.map(item => beforeIndex.get([...matches].find(([, b]) => b === item)![0])!);
+    // Longest increasing subsequence; the list is short enough for the quadratic version.
+    const length = positions.map(() => 1);
+    const previous = positions.map(() => -1);
+    positions.forEach((position, i) => {
+        for (let j = 0; j < i; j++) {
+            if (positions[j] < position && length[j] + 1 > length[i]) {
+                length[i] = length[j] + 1;
+                previous[i] = j;
+            }
+        }
+    });
+    const inOrder = new Set<T>();
+    let index = length.indexOf(Math.max(0, ...length));
+    while (index !== -1) {
+        inOrder.add(kept[index]);
+        index = previous[index];
+    }
+    return new Set(kept.filter(item => !inOrder.has(item)));
+};
+
+/** Changes in display order: the new order, with removed items after their closest surviving predecessor. */
+const orderChanges = <T>(before: T[], after: T[], matches: Map<T, T>, describe: (before: T | null, after: T | null, moved: boolean) => ItemChange<T>): ItemChange<T>[] => {
+    const reordered = findReordered(before, after, matches);
+    const changes = after.map(item => {
+        const original = [...matches].find(([, b]) => b === item)?.[0] ?? null;
+        return describe(original, item, reordered.has(item));
+    });
+    before.forEach((item, index) => {
+        if (matches.has(item)) return;
+        const predecessor = before.slice(0, index).reverse().find(previous => matches.has(previous));
+        const position = predecessor ? changes.findIndex(change => change.after === matches.get(predecessor)) + 1 : 0;
+        // Keep removed items that share a predecessor in their original order.
+        let insertAt = position;
+        while (insertAt < changes.length && !changes[insertAt].after) insertAt++;
+        changes.splice(insertAt, 0, describe(item, null, false));
+    });
+    return changes;
+};
+
+const TASK_FIELDS: (keyof Task)[] = ['title', 'status', 'owner', 'progress', 'tags', 'description', 'links'];
+
+const differentFields = <T>(before: T, after: T, fields: (keyof T)[]) =>
+    fields.filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) as string[];
+
+export const diffRoadmaps = (before: RoadmapData, after: RoadmapData): RoadmapDiff => {
+    const pillarMatches = matchItems(before.pillars, after.pillars, [
+        (a, b) => (normalize(a.name) === normalize(b.name) ? 1 : 0),
+        (a, b) => similarEnough(a.name, b.name),
+    ]);
+    const timeframeMatches = matchItems(before.timeframes, after.timeframes, [
+        (a, b) => (normalize(a.date) === normalize(b.date) && normalize(a.name) === normalize(b.name) ? 1 : 0),
+        // Renamed, or the same name with new dates.
+        (a, b) => (normalize(a.date) && normalize(a.date) === normalize(b.date)) || (normalize(a.name) && normalize(a.name) === normalize(b.name)) ? 1 : 0,
+        (a, b) => similarEnough(`${a.date} ${a.name}`, `${b.date} ${b.name}`),
+    ]);
+
+    const pillarIds = new Map([...pillarMatches].map(([a, b]) => [a.id, b.id]));
+    const timeframeIds = new Map([...timeframeMatches].map(([a, b]) => [a.id, b.id]));
+    const sameLocation = (a: TaskEntry, b: TaskEntry) => pillarIds.get(a.pillarId) === b.pillarId && timeframeIds.get(a.timeframeId) === b.timeframeId;
+
+    const beforeTasks = listTasks(before);
+    const afterTasks = listTasks(after);
+    const taskMatches = matchItems(beforeTasks, afterTasks, [
+        (a, b) => (normalize(a.task.title) === normalize(b.task.title) ? (sameLocation(a, b) ? 2 : 1) : 0),
+        (a, b) => {
+            const score = similarEnough(a.task.title, b.task.title);
+            return score && score + (sameLocation(a, b) ? 1 : 0);
+        },
+    ]);
+
+    return {
+        before,
+        after,
+        pillars: orderChanges(before.pillars, after.pillars, pillarMatches, (a, b, moved) => ({
+            before: a, after: b, moved, editedFields: a && b ? differentFields(a, b, ['name']) : [],
+        })),
+        timeframes: orderChanges(before.timeframes, after.timeframes, timeframeMatches, (a, b, moved) => ({
+            before: a, after: b, moved, editedFields: a && b ? differentFields(a, b, ['date', 'name']) : [],
+        })),
+        tasks: [
+            ...afterTasks.map(entry => {
+                const original = [...taskMatches].find(([, b]) => b === entry)?.[0] ?? null;
+                return {
+                    before: original,
+                    after: entry,
+                    moved: !!original && !sameLocation(original, entry),
+                    editedFields: original ? differentFields(original.task, entry.task, TASK_FIELDS) : [],
+                };
+            }),
+            ...beforeTasks.filter(entry => !taskMatches.has(entry)).map(entry => ({ before: entry, after: null, moved: false, editedFields: [] })),
+        ],
+    };
+};
+
+export const hasChanges = (diff: RoadmapDiff) =>
+    [...diff.pillars, ...diff.timeframes, ...diff.tasks].some(change => getChangeKinds(change).length > 0);
+
+// --- Change Log ---
+// Plain text with Markdown bullets, so it can be pasted into an email or a chat message.
+
+const timeframeLabel = (timeframe: Timeframe) => (timeframe.name && timeframe.date ? `${timeframe.date}: ${timeframe.name}` : timeframe.name || timeframe.date);
+
+const locationOf = (data: RoadmapData, entry: TaskEntry) => {
+    const pillar = data.pillars.find(p => p.id === entry.pillarId);
+    const timeframe = data.timeframes.find(t => t.id === entry.timeframeId);
+    return { pillar: pillar?.name ?? '', timeframe: timeframe ? timeframeLabel(timeframe) : '' };
+};
+
+// Whether the item with `beforeId` became the one with `afterId`, e.g. a pillar that was only renamed.
+const isSameItem = (changes: ItemChange<{ id: string }>[], beforeId: string, afterId: string) =>
+    changes.some(change => change.before?.id === beforeId && change.after?.id === afterId);
+
+const describeMove = (diff: RoadmapDiff, change: ItemChange<TaskEntry>) => {
+    const from = locationOf(diff.before, change.before!);
+    const to = locationOf(diff.after, change.after!);
+    const pillarChanged = !isSameItem(diff.pillars, change.before!.pillarId, change.after!.pillarId);
+    const timeframeChanged = !isSameItem(diff.timeframes, change.before!.timeframeId, change.after!.timeframeId);
+    if (pillarChanged && timeframeChanged) return `moved from ${from.pillar} · ${from.timeframe} to ${to.pillar} · ${to.timeframe}`;
+    if (pillarChanged) return `moved from ${from.pillar} to ${to.pillar}`;
+    return `moved from ${from.timeframe} to ${to.timeframe}`;
+};
+
+const describeTaskEdits = ({ before, after, editedFields }: ItemChange<TaskEntry>) => editedFields.map(field => {
+    const a = before!.task;
+    const b = after!.task;
+    switch (field) {
+        case 'title': return `reworded from "${a.title}"`;
+        case 'status': return `status ${getTaskStatusStyle(a.status).label} → ${getTaskStatusStyle(b.status).label}`;
+        case 'owner': return `owner ${a.owner || 'unassigned'} → ${b.owner || 'unassigned'}`;
+        case 'progress': return `progress ${a.progress}% → ${b.progress}%`;
+        default: return `${field} changed`;
+    }
+});
+
+/** What happened to a deliverable that is in both versions, e.g. "moved from Q1 to Q2; status Planned → Done". */
+export const describeTaskDiff = (diff: RoadmapDiff, change: ItemChange<TaskEntry>): string =>
+    [...(change.moved ? [describeMove(diff, change)] : []), ...describeTaskEdits(change)].join('; ');
+
+export interface DiffSummary {
+    added: number;
+    removed: number;
+    moved: number;
+    edited: number;
+}
+
+export const summarizeChanges = (changes: ItemChange<unknown>[]): DiffSummary => {
+    const summary: DiffSummary = { added: 0, removed: 0, moved: 0, edited: 0 };
+    changes.forEach(change => getChangeKinds(change).forEach(kind => summary[kind]++));
+    return summary;
+};
+
+const summaryLine = (summary: DiffSummary, noun: string) => {
+    const parts = (Object.keys(summary) as ChangeKind[]).filter(kind => summary[kind] > 0).map(kind => `${summary[kind]} ${kind}`);
+    return parts.length > 0 ? `${noun}: ${parts.join(', ')}` : null;
+};
+
+/** A change log, e.g. for a status email. `baseline` names the older version, e.g. "Q2 planning". */
+export const formatChangeLog = (diff: RoadmapDiff, baseline: string): string => {
+    if (!hasChanges(diff)) return `No changes since ${baseline}.`;
+    const lines: string[] = [`Roadmap changes since ${baseline}`, ''];
+
+    const summaries = [
+        summaryLine(summarizeChanges(diff.tasks), 'Deliverables'),
+        summaryLine(summarizeChanges(diff.timeframes), 'Timeframes'),
+        summaryLine(summarizeChanges(diff.pillars), 'Pillars'),
+    ].filter((line): line is string => line !== null);
+    lines.push(...summaries.map(line => `${line}.`), '');
+
+    const section = (heading: string, items: string[]) => {
+        if (items.length === 0) return;
+        lines.push(heading, ...items.map(item => `- ${item}`), '');
+    };
+    const tasksOf = (kind: ChangeKind) => diff.tasks.filter(change => getChangeKinds(change).includes(kind));
+    const where = (data: RoadmapData, entry: TaskEntry) => {
+        const { pillar, timeframe } = locationOf(data, entry);
+        return [pillar, timeframe].filter(Boolean).join(' · ');
+    };
+
+    section('Added', tasksOf('added').map(c => `${c.after!.task.title} (${where(diff.after, c.after!)})`));
+    section('Removed', tasksOf('removed').map(c => `${c.before!.task.title} (${where(diff.before, c.before!)})`));
+    section('Moved', tasksOf('moved').map(c => `${c.after!.task.title}: ${describeMove(diff, c)}`));
+    section('Edited', tasksOf('edited').map(c => `${c.after!.task.title}: ${describeTaskEdits(c).join('; ')}`));
+
+    const structure = <T>(noun: string, editVerb: string, changes: ItemChange<T>[], label: (item: T) => string) =>
+        changes.flatMap(change => getChangeKinds(change).map(kind => {
+            if (kind === 'added') return `${noun} added: ${label(change.after!)}`;
+            if (kind === 'removed') return `${noun} removed: ${label(change.before!)}`;
+            if (kind === 'moved') return `${noun} reordered: ${label(change.after!)}`;
+            return `${noun} ${editVerb}: ${label(change.before!)} → ${label(change.after!)}`;
+        }));
+    section('Structure', [
+        ...structure('Timeframe', 'changed', diff.timeframes, timeframeLabel),
+        ...structure('Pillar', 'renamed', diff.pillars, pillar => pillar.name),
+    ]);
+
+    return lines.join('\n').trim();
+};
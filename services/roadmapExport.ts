@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from './geminiService';
+import { renderRoadmapSvg, paginateRoadmap } from './svgRenderer';
+import type { RoadmapViewMode, RenderedSvg } from './svgRenderer';
+import { createImagePdf } from './pdfWriter';
+
+// --- Image & Document Export ---
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+// Browsers refuse to allocate canvases much larger than this, so wide roadmaps are scaled down.
+const MAX_CANVAS_SIZE = 8192;
+const RASTER_SCALE = 2;
+// How many timeframes (timeline view) or pillars (pillar view) fit on one PDF page.
+const PDF_ITEMS_PER_PAGE = 4;
+
+export const getRoadmapFileSlug = (data: RoadmapData) =>
+    (data.title || 'roadmap').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'roadmap';
+
+export const getExportFileName = (data: RoadmapData, viewMode: RoadmapViewMode, format: ExportFormat) =>
+    `${getRoadmapFileSlug(data)}-${viewMode}.${format}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const rasterize = async (rendered: RenderedSvg, type: 'image/png' | 'image/jpeg'): Promise<{ blob: Blob; width: number; height: number }> => {
+    const scale = Math.min(RASTER_SCALE, MAX_CANVAS_SIZE / rendered.width, MAX_CANVAS_SIZE / rendered.height);
+    const width = Math.round(rendered.width * scale);
+    const height = Math.round(rendered.height * scale);
+
+    const url = URL.createObjectURL(new Blob([rendered.svg], { type: 'image/svg+xml' }));
+    try {
+        const image = new Image();
+        await new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve();
+            image.onerror = () => reject(new Error('The roadmap image could not be rendered.'));
+            image.src = url;
+        });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas rendering is not supported in this browser.');
+        context.drawImage(image, 0, 0, width, height);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92));
+        if (!blob) throw new Error('The roadmap image could not be encoded.');
+        return { blob, width, height };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+export const exportRoadmap = async (data: RoadmapData, viewMode: RoadmapViewMode, format: ExportFormat): Promise<Blob> => {
+    if (format === 'svg') {
+        return new Blob([renderRoadmapSvg(data, viewMode).svg], { type: 'image/svg+xml' });
+    }
+    if (format === 'png') {
+        return (await rasterize(renderRoadmapSvg(data, viewMode), 'image/png')).blob;
+    }
+
+    // PDF: one page per group of timeframes/pillars so that wide roadmaps are not cropped.
+    const pages = await Promise.all(paginateRoadmap(data, viewMode, PDF_ITEMS_PER_PAGE).map(async page => {
+        const { blob, width, height } = await rasterize(renderRoadmapSvg(page, viewMode), 'image/jpeg');
+        return { jpeg: new Uint8Array(await blob.arrayBuffer()), width, height };
+    }));
+    return createImagePdf(pages);
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task, TaskStatus } from './geminiService';
+import { TASK_STATUSES, listTasks } from './roadmapTasks';
+import { isObject } from './roadmapValidator';
+
+// --- Filters ---
+// The views hide what does not match instead of working on a filtered copy, so that edits keep
+// addressing deliverables by their real position. Exports use a filtered copy (`applyFilter`).
+
+export interface RoadmapFilter {
+    // Free-text search; matches are highlighted rather than hidden.
+    query: string;
+    hiddenPillarIds: string[];
+    // First and last timeframe to show; null for no limit.
+    fromTimeframeId: string | null;
+    toTimeframeId: string | null;
+    // Empty lists do not filter.
+    statuses: TaskStatus[];
+    owners: string[];
+    tags: string[];
+}
+
+export const EMPTY_FILTER: RoadmapFilter = {
+    query: '',
+    hiddenPillarIds: [],
+    fromTimeframeId: null,
+    toTimeframeId: null,
+    statuses: [],
+    owners: [],
+    tags: [],
+};
+
+// Used in place of an owner name for deliverables without one.
+export const UNASSIGNED_OWNER = '';
+
+/** True when anything is hidden; the search alone only highlights. */
+export const isFilterActive = (filter: RoadmapFilter) =>
+    filter.hiddenPillarIds.length > 0 || filter.fromTimeframeId !== null || filter.toTimeframeId !== null ||
+    filter.statuses.length > 0 || filter.owners.length > 0 || filter.tags.length > 0;
+
+const normalize = (text: string) => text.toLowerCase().trim();
+
+export const matchesQuery = (task: Task, query: string) => {
+    const needle = normalize(query);
+    if (!needle) return false;
+    return [task.title, task.owner, task.description ?? '', ...task.tags].some(text => text.toLowerCase().includes(needle));
+};
+
+export interface RoadmapVisibility {
+    showPillar: (pillarId: string) => boolean;
+    showTimeframe: (timeframeId: string) => boolean;
+    showTask: (task: Task) => boolean;
+    // The search text, for highlighting.
+    query: string;
+    // Whether a deliverable matches the search.
+    isMatch: (task: Task) => boolean;
+}
+
+export const getVisibility = (data: RoadmapData, filter: RoadmapFilter): RoadmapVisibility => {
+    const hiddenPillars = new Set(filter.hiddenPillarIds);
+    const timeframeIds = data.timeframes.map(t => t.id);
+    const from = filter.fromTimeframeId ? timeframeIds.indexOf(filter.fromTimeframeId) : -1;
+    const to = filter.toTimeframeId ? timeframeIds.indexOf(filter.toTimeframeId) : -1;
+    // Timeframes that no longer exist do not limit the range.
+    const first = Math.max(0, from);
+    const last = to === -1 ? timeframeIds.length - 1 : to;
+    const visibleTimeframes = new Set(timeframeIds.filter((_, index) => index >= Math.min(first, last) && index <= Math.max(first, last)));
+    const statuses = new Set(filter.statuses);
+    const owners = new Set(filter.owners.map(normalize));
+    const tags = new Set(filter.tags.map(normalize));
+
+    return {
+        showPillar: pillarId => !hiddenPillars.has(pillarId),
+        showTimeframe: timeframeId => visibleTimeframes.has(timeframeId),
+        showTask: task =>
+            (statuses.size === 0 || statuses.has(task.status)) &&
+            (owners.size === 0 || owners.has(normalize(task.owner))) &&
+            (tags.size === 0 || task.tags.some(tag => tags.has(normalize(tag)))),
+        query: filter.query.trim(),
+        isMatch: task => matchesQuery(task, filter.query),
+    };
+};
+
+/** A copy of the roadmap with everything the filter hides removed, e.g. for exports. */
+export const applyFilter = (data: RoadmapData, filter: RoadmapFilter): RoadmapData => {
+    if (!isFilterActive(filter)) return data;
+    const visibility = getVisibility(data, filter);
+    return {
+        ...data,
+        pillars: data.pillars.filter(pillar => visibility.showPillar(pillar.id)),
+        timeframes: data.timeframes.filter(timeframe => visibility.showTimeframe(timeframe.id)).map(timeframe => ({
+            ...timeframe,
+            deliverables: timeframe.deliverables
+                .filter(deliverable => visibility.showPillar(deliverable.pillarId))
+                .map(deliverable => ({ ...deliverable, tasks: deliverable.tasks.filter(visibility.showTask) })),
+        })),
+    };
+};
+
+/** The owners and tags used in the roadmap, for the filter menus. */
+export const getFilterOptions = (data: RoadmapData) => {
+    const tasks = listTasks(data).map(entry => entry.task);
+    const unique = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+    return {
+        owners: unique(tasks.map(task => task.owner)),
+        tags: unique(tasks.flatMap(task => task.tags)),
+    };
+};
+
+/** Drops anything that is not a valid filter value, e.g. from a shared link. */
+export const sanitizeFilter = (value: unknown): RoadmapFilter => {
+    const fields = isObject(value) ? value : {};
+    const strings = (list: unknown) => (Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : []);
+    const id = (item: unknown) => (typeof item === 'string' && item ? item : null);
+    return {
+        query: typeof fields.query === 'string' ? fields.query : '',
+        hiddenPillarIds: strings(fields.hiddenPillarIds),
+        fromTimeframeId: id(fields.fromTimeframeId),
+        toTimeframeId: id(fields.toTimeframeId),
+        statuses: strings(fields.statuses).filter((status): status is TaskStatus => TASK_STATUSES.includes(status as TaskStatus)),
+        owners: strings(fields.owners),
+        tags: strings(fields.tags),
+    };
+};
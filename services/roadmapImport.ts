@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from './geminiService';
+import { isObject, validateRoadmap, RoadmapValidationError } from './roadmapValidator';
+import { getPaletteColor } from './pillarColors';
+
+// --- File Import ---
+// Spreadsheets (CSV/TSV) and issue-tracker JSON exports are mapped straight to RoadmapData,
+// without going through the AI.
+
+export type ImportField = 'pillar' | 'timeframe' | 'date' | 'task' | 'status' | 'owner';
+
+// Column index for each field; null when the file has no such column.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportTable {
+    headers: string[];
+    rows: string[][];
+}
+
+// Used when a row or issue has no value for the pillar or timeframe.
+const UNASSIGNED_PILLAR = 'Unassigned';
+const UNSCHEDULED_TIMEFRAME = 'Unscheduled';
+
+// --- Roadmap Builder ---
+// Collects (pillar, timeframe, task) triples in order of first appearance.
+
+interface ImportedTask {
+    pillar: string;
+    timeframe: string;
+    date: string;
+    task: string;
+    status: string;
+    owner: string;
+}
+
+// Raw deliverable as handed to the validator, which assigns IDs and maps status names.
+type RawTask = { title: string; status: string; owner: string };
+
+const buildRoadmap = (title: string, tasks: ImportedTask[]): RoadmapData => {
+    type RawTimeframe = { id: string; date: string; name: string; deliverables: { pillarId: string; tasks: RawTask[] }[] };
+    const pillars: RoadmapData['pillars'] = [];
+    const timeframes: RawTimeframe[] = [];
+    const pillarIds = new Map<string, string>();
+    const timeframesByKey = new Map<string, RawTimeframe>();
+
+    tasks.forEach(({ pillar, timeframe, date, task, status, owner }) => {
+        const pillarName = pillar || UNASSIGNED_PILLAR;
+        let pillarId = pillarIds.get(pillarName.toLowerCase());
+        if (!pillarId) {
+            pillarId = `p${pillars.length + 1}`;
+            pillarIds.set(pillarName.toLowerCase(), pillarId);
+            pillars.push({ id: pillarId, name: pillarName, color: getPaletteColor(pillars.length) });
+        }
+
+        const name = timeframe || (date ? '' : UNSCHEDULED_TIMEFRAME);
+        const key = `${date}\u0000${name}`.toLowerCase();
+        let target = timeframesByKey.get(key);
+        if (!target) {
+            target = { id: `t${timeframes.length + 1}`, date, name, deliverables: [] };
+            timeframesByKey.set(key, target);
+            timeframes.push(target);
+        }
+
+        if (!task) return;
+        const rawTask = { title: task, status, owner };
+        const group = target.deliverables.find(d => d.pillarId === pillarId);
+        if (group) group.tasks.push(rawTask);
+        else target.deliverables.push({ pillarId, tasks: [rawTask] });
+    });
+
+    // The validator drops duplicates and reports anything that is still unusable.
+    const result = validateRoadmap({ title, subtitle: '', pillars, timeframes });
+    if (!result.data || result.data.pillars.length === 0) {
+        throw new RoadmapValidationError('The imported file does not contain a usable roadmap.', result.issues);
+    }
+    return result.data;
+};
+
+/** A readable roadmap title from a file name, e.g. "team-plan_2025.csv" -> "team plan 2025". */
+export const titleFromFileName = (fileName: string) =>
+    fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+
+// --- CSV / TSV ---
+
+/** Tab for TSV (and cells copied from a spreadsheet), otherwise comma or semicolon, whichever is more frequent. */
+export const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    if (firstLine.includes('\t')) return '\t';
+    const count = (char: string) => firstLine.split(char).length - 1;
+    return count(';') > count(',') ? ';' : ',';
+};
+
+/** Parses delimited text, honoring double-quoted fields with embedded delimiters, quotes and line breaks. */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endField = () => {
+        row.push(field);
+        field = '';
+    };
+    const endRow = () => {
+        endField();
+        if (row.some(cell => cell.trim())) rows.push(row);
+        row = [];
+    };
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            endField();
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) endRow();
+    return rows;
+};
+
+export const parseImportTable = (text: string): ImportTable => {
+    const [headers = [], ...rows] = parseDelimited(text);
+    if (headers.length === 0) throw new Error('The file is empty.');
+    return { headers: headers.map(header => header.trim()), rows };
+};
+
+// Header names that are recognized automatically, most specific first.
+const COLUMN_HINTS: Record<ImportField, RegExp[]> = {
+    pillar: [/^pillar/i, /epic/i, /theme/i, /stream/i, /area/i, /team/i, /category/i],
+    timeframe: [/^timeframe/i, /phase/i, /fix ?version/i, /release/i, /milestone/i, /sprint/i, /iteration/i, /cycle/i],
+    date: [/^date/i, /quarter/i, /period/i, /when/i, /due/i, /target/i, /start/i],
+    task: [/^task/i, /deliverable/i, /summary/i, /title/i, /^name/i, /item/i, /description/i],
+    status: [/status/i, /state/i, /progress/i],
+    owner: [/owner/i, /assignee/i, /responsible/i, /lead/i],
+};
+
+/** Guesses which column holds which field from the header names. */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const taken = new Set<number>();
+    const find = (field: ImportField): number | null => {
+        for (const hint of COLUMN_HINTS[field]) {
+            const index = headers.findIndex((header, i) => !taken.has(i) && hint.test(header));
+            if (index !== -1) {
+                taken.add(index);
+                return index;
+            }
+        }
+        return null;
+    };
+    // Tasks first, so that a generic "Title" or "Name" column is not claimed by another field.
+    const task = find('task');
+    const pillar = find('pillar');
+    const timeframe = find('timeframe');
+    const date = find('date');
+    const status = find('status');
+    const owner = find('owner');
+    return { pillar, timeframe, date, task, status, owner };
+};
+
+export const tableToRoadmap = (table: ImportTable, mapping: ColumnMapping, title: string): RoadmapData => {
+    if (mapping.task === null) throw new Error('Choose the column that contains the tasks.');
+    if (mapping.timeframe === null && mapping.date === null) throw new Error('Choose a timeframe or a date column.');
+
+    const cell = (row: string[], column: number | null) => (column === null ? '' : (row[column] ?? '').trim());
+    return buildRoadmap(title, table.rows.map(row => ({
+        pillar: cell(row, mapping.pillar),
+        timeframe: cell(row, mapping.timeframe),
+        date: cell(row, mapping.date),
+        task: cell(row, mapping.task),
+        status: cell(row, mapping.status),
+        owner: cell(row, mapping.owner),
+    })));
+};
+
+// --- Issue-Tracker JSON ---
+// A generic shape that covers Jira- and Linear-style exports:
+// - a list of issues, `{ issues: [...] }`, `{ nodes: [...] }` or `{ data: { issues: { nodes: [...] } } }`
+// - fields either on the issue itself or under `fields` (Jira)
+// - pillar: `epic`, `parent` or `project`; timeframe: `fixVersions`, `fixVersion`, `sprint(s)` or `cycle`
+// - status: `status` or `state`; owner: `assignee`
+
+type Json = Record<string, unknown>;
+
+const findIssueList = (value: unknown): unknown[] | null => {
+    if (Array.isArray(value)) return value;
+    if (!isObject(value)) return null;
+    for (const key of ['issues', 'nodes', 'data', 'items', 'results']) {
+        const list = findIssueList(value[key]);
+        if (list) return list;
+    }
+    return null;
+};
+
+const textOf = (value: unknown): string => {
+    if (typeof value === 'string' || typeof value === 'number') return String(value).trim();
+    if (isObject(value)) {
+        const fields = isObject(value.fields) ? value.fields : {};
+        return textOf(value.name ?? value.title ?? value.summary ?? fields.summary ?? fields.name ?? value.key);
+    }
+    return '';
+};
+
+const dateOnly = (value: unknown) => (typeof value === 'string' ? value.slice(0, 10) : '');
+
+const lastOf = (value: unknown) => (Array.isArray(value) ? value[value.length - 1] : value);
+
+const timeframeOf = (fields: Json): { name: string; date: string } => {
+    const version = lastOf(fields.fixVersions) ?? fields.fixVersion ?? fields.release;
+    if (version) return { name: textOf(version), date: dateOnly(isObject(version) ? version.releaseDate : '') };
+
+    // Issues carried over keep every sprint they were part of; the latest one counts.
+    const sprint = lastOf(fields.sprints) ?? fields.sprint ?? fields.cycle ?? fields.iteration;
+    if (sprint) {
+        const start = dateOnly(isObject(sprint) ? sprint.startDate ?? sprint.startsAt : '');
+        const end = dateOnly(isObject(sprint) ? sprint.endDate ?? sprint.endsAt : '');
+        const name = textOf(sprint) || (isObject(sprint) && sprint.number !== undefined ? `Cycle ${sprint.number}` : '');
+        return { name, date: start && end ? `${start} - ${end}` : start || end };
+    }
+    return { name: '', date: dateOnly(fields.dueDate ?? fields.duedate) };
+};
+
+const isEpic = (fields: Json) => /epic/i.test(textOf(fields.issuetype ?? fields.issueType ?? fields.type));
+
+export const issueTrackerJsonToRoadmap = (text: string, title: string): RoadmapData => {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const issues = findIssueList(json)?.filter(isObject);
+    if (!issues || issues.length === 0) throw new Error('No issues were found in the JSON file.');
+
+    // Epics exported alongside their issues give the pillar names for issues that only reference the epic key.
+    const epicNames = new Map<string, string>();
+    issues.forEach(issue => {
+        const fields = isObject(issue.fields) ? { ...issue, ...issue.fields } : issue;
+        if (isEpic(fields) && fields.key) epicNames.set(String(fields.key), textOf(fields.summary ?? fields.title ?? fields.name));
+    });
+
+    const tasks = issues.flatMap((issue): ImportedTask[] => {
+        const fields = isObject(issue.fields) ? { ...issue, ...issue.fields } : issue;
+        if (isEpic(fields)) return [];
+        const epic = fields.epic ?? fields.parent ?? fields.epicLink ?? fields.project;
+        const epicKey = typeof epic === 'string' ? epic : isObject(epic) ? String(epic.key ?? '') : '';
+        const { name, date } = timeframeOf(fields);
+        return [{
+            pillar: epicNames.get(epicKey) || textOf(epic),
+            timeframe: name,
+            date,
+            task: textOf(fields.summary ?? fields.title ?? fields.name),
+            // Jira: status.name / assignee.displayName; Linear: state.name / assignee.name.
+            status: textOf(fields.status ?? fields.state),
+            owner: textOf(isObject(fields.assignee) ? fields.assignee.displayName ?? fields.assignee : fields.assignee),
+        }];
+    });
+    // Exports are usually ordered by issue key; timeframes with dates are put in chronological order.
+    const sorted = tasks
+        .map((task, index) => ({ task, index }))
+        .sort((a, b) => (a.task.date && b.task.date ? a.task.date.localeCompare(b.task.date) : (a.task.date ? 0 : 1) - (b.task.date ? 0 : 1)) || a.index - b.index)
+        .map(({ task }) => task);
+    return buildRoadmap(title, sorted);
+};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RoadmapData } from './geminiService';
+import { parseRoadmapMarkdown, serializeRoadmapToMarkdown } from './roadmapMarkdown';
+import { createTask } from './roadmapTasks';
+
+// --- Markdown Round Trips ---
+// Edit Source and Copy as Markdown serialize the roadmap and parse it again, so nothing may get lost.
+
+const roundTrip = (data: RoadmapData) => parseRoadmapMarkdown(serializeRoadmapToMarkdown(data)).data;
+
+const roadmapWith = (...tasks: ReturnType<typeof createTask>[]): RoadmapData => ({
+    title: 'Roadmap',
+    subtitle: 'Round trip',
+    pillars: [{ id: 'p1', name: 'Platform', color: '#60a5fa' }],
+    timeframes: [{ id: 't1', date: '2026 - Q1', name: 'Foundations', deliverables: [{ pillarId: 'p1', tasks }] }],
+});
+
+test('descriptions with list items and paragraphs survive a round trip', () => {
+    const description = 'Steps:\n- first do X\n- then Y\n\nSecond paragraph.\n* starred\n\\- already escaped';
+    const data = roadmapWith(
+        createTask('Billing API', 'd1', { description, links: [{ label: 'Spec', url: 'https://example.com/spec' }] }),
+        createTask('Invoices', 'd2'),
+    );
+
+    const tasks = roundTrip(data).timeframes[0].deliverables[0].tasks;
+    assert.deepEqual(tasks.map(task => task.title), ['Billing API', 'Invoices']);
+    assert.equal(tasks[0].description, description);
+    assert.deepEqual(tasks[0].links, [{ label: 'Spec', url: 'https://example.com/spec' }]);
+});
+
+test('list items below a deliverable are read as its description', () => {
+    const { data } = parseRoadmapMarkdown([
+        '### Pillar: Platform',
+        '### Timeframe: 2026 - Q1: Foundations',
+        '- **Platform**:',
+        '  - Billing API',
+        '    Steps:',
+        '    - first do X',
+        '    - [Spec](https://example.com/spec)',
+        '  - Invoices',
+    ].join('\n'));
+
+    const tasks = data.timeframes[0].deliverables[0].tasks;
+    assert.deepEqual(tasks.map(task => task.title), ['Billing API', 'Invoices']);
+    assert.equal(tasks[0].description, 'Steps:\n- first do X');
+    assert.equal(tasks[0].links.length, 1);
+});
+
+test('pillars with the same name stay apart', () => {
+    const data: RoadmapData = {
+        title: 'Roadmap',
+        subtitle: '',
+        pillars: [
+            { id: 'p1', name: 'Platform', color: '#60a5fa' },
+            { id: 'p7', name: 'platform', color: '#f472b6' },
+        ],
+        timeframes: [{
+            id: 't1', date: '2026 - Q1', name: 'Foundations', deliverables: [
+                { pillarId: 'p1', tasks: [createTask('Billing API', 'd1')] },
+                { pillarId: 'p7', tasks: [createTask('Invoices', 'd2')] },
+            ],
+        }],
+    };
+
+    const parsed = roundTrip(data);
+    assert.deepEqual(parsed.pillars, data.pillars);
+    assert.deepEqual(parsed.timeframes[0].deliverables.map(d => [d.pillarId, d.tasks[0].title]), [['p1', 'Billing API'], ['p7', 'Invoices']]);
+});
+
+test('timeframe dates with ": " and titles that look like checkboxes survive a round trip', () => {
+    const data = roadmapWith(createTask('[x] Legacy import', 'd1'), createTask('\\[ ] Escaped', 'd2'));
+    data.timeframes = [
+        { ...data.timeframes[0], date: 'Phase 2: 2025', name: '' },
+        { id: 't2', date: 'Phase 3: 2026', name: 'Scale: Europe', deliverables: [] },
+    ];
+
+    const parsed = roundTrip(data);
+    assert.deepEqual(parsed.timeframes.map(t => [t.date, t.name]), [['Phase 2: 2025', ''], ['Phase 3: 2026', 'Scale: Europe']]);
+    assert.deepEqual(parsed.timeframes[0].deliverables[0].tasks.map(task => [task.title, task.status]), [['[x] Legacy import', 'planned'], ['\\[ ] Escaped', 'planned']]);
+});
+
+test('attribute values with separators and braces survive a round trip', () => {
+    const data = roadmapWith(
+        createTask('Billing API', 'd1', { owner: 'A; B', tags: ['a,b', 'c'] }),
+        createTask('Invoices {draft}', 'task;1', { owner: 'Team {EU}', dependsOn: ['d1'] }),
+    );
+
+    const tasks = roundTrip(data).timeframes[0].deliverables[0].tasks;
+    assert.deepEqual(tasks.map(task => [task.title, task.id, task.owner, task.tags, task.dependsOn]), [
+        ['Billing API', 'd1', 'A; B', ['a,b', 'c'], []],
+        ['Invoices {draft}', 'task;1', 'Team {EU}', [], ['d1']],
+    ]);
+});
+
+test('titles that end like attributes or dependencies, or start with a footnote reference, survive a round trip', () => {
+    const data = roadmapWith(
+        createTask('Launch (depends on: Billing API)', 'd1'),
+        createTask('Billing API', 'd2'),
+        createTask('Cleanup {status: done}', 'd3'),
+        createTask('[^1] Footnote-like title', 'd4'),
+    );
+
+    const tasks = roundTrip(data).timeframes[0].deliverables[0].tasks;
+    assert.deepEqual(tasks.map(task => [task.title, task.status, task.dependsOn]), [
+        ['Launch (depends on: Billing API)', 'planned', []],
+        ['Billing API', 'planned', []],
+        ['Cleanup {status: done}', 'planned', []],
+        ['[^1] Footnote-like title', 'planned', []],
+    ]);
+});
+
+test('pillar names that end like attributes survive a round trip', () => {
+    const data: RoadmapData = {
+        title: 'Roadmap',
+        subtitle: '',
+        pillars: [{ id: 'p1', name: 'A {id: x}', color: '#60a5fa' }],
+        timeframes: [{ id: 't1', date: '2026 - Q1', name: 'Foundations', deliverables: [{ pillarId: 'p1', tasks: [createTask('Billing API', 'd1')] }] }],
+    };
+
+    const parsed = roundTrip(data);
+    assert.deepEqual(parsed.pillars, data.pillars);
+    assert.deepEqual(parsed.timeframes[0].deliverables.map(d => d.pillarId), ['p1']);
+});
@@ -0,0 +1,413 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task } from './geminiService';
+import { createTask, parseTaskStatus } from './roadmapTasks';
+import { getPaletteColor, normalizeHexColor } from './pillarColors';
+import { collectFootnotes, formatComment, indexFootnotes } from './roadmapComments';
+
+// --- Deterministic Markdown Parser ---
+// Understands the structured format used by the StartScreen example:
+//
+//   # Title
+//   ## Subtitle
+//   ### Pillar: <name> {color: #60a5fa; id: p2}
+//   ### Timeframe: <date>: <name>
+//   - **<pillar name>** {id: p2}:
+//     - <deliverable> {status: at-risk; owner: Dana; progress: 40%; tags: api, infra; depends: d2; id: d7}
+//       Optional description, indented below the deliverable.
+//       \- Description lines that start like a list item are escaped with a backslash.
+//       - [Link label](https://example.com)
+//
+// Pillar colors and IDs, the attribute block, `[x]` checkboxes, descriptions and links are all optional. A pillar
+// ID after the pillar name in a list is only needed when several pillars have the same name. Dependencies
+// may name other deliverables by ID or by title, also as a trailing "(depends on: <title>)". Footnote
+// references ("[^1]") and definitions, which exports use for comments, are ignored. A ": " inside a timeframe
+// date is escaped as "\: ", and so is the "[" of a deliverable title that starts like a checkbox ("\[x] ...").
+// Titles and pillar names escape what would read as markup: a trailing "\{...}" block or "\(depends on: ...)"
+// and footnote references ("\[^1]"). Attribute values escape "\", ";", ",", "{" and "}" with a backslash.
+// No network access is needed, so the same input always yields the same RoadmapData.
+
+export interface MarkdownParseResult {
+    data: RoadmapData;
+    // Non-blank lines that did not match any part of the grammar.
+    unrecognizedLines: string[];
+    // Dependencies that name no deliverable, e.g. after a rename. They are left out of the data.
+    unresolvedDependencies: { task: string; reference: string }[];
+}
+
+const TITLE_RE = /^#\s+(.+)$/;
+const SUBTITLE_RE = /^##\s+(.+)$/;
+const PILLAR_RE = /^###\s+Pillar:\s*(.+)$/i;
+const TIMEFRAME_RE = /^###\s+Timeframe:\s*(.+)$/i;
+const PILLAR_GROUP_RE = /^(\s*)[-*]\s+\*\*(.+?)\*\*(?:\s*\{\s*id:\s*([^{}\s]+)\s*\})?\s*:?\s*(.*)$/;
+const TASK_RE = /^(\s*)[-*]\s+(.+)$/;
+const SEPARATOR_RE = /^(-{3,}|\*{3,}|_{3,})$/;
+const LINK_RE = /^\s*[-*]\s+\[(.+?)\]\((\S+?)\)\s*$/;
+const LIST_ITEM_RE = /^\s*[-*]\s+/;
+// A description line that would read as a list item, with any number of backslashes before it.
+const ESCAPED_LIST_ITEM_RE = /^\\*[-*]\s/;
+const CHECKBOX_RE = /^\[( |x|X)\]\s+(.+)$/;
+// A title that would read as a checkbox, with any number of backslashes before it.
+const ESCAPED_CHECKBOX_RE = /^\\*\[( |x|X)\]\s/;
+// The first ": " that is not escaped separates the date of a timeframe from its name.
+const TIMEFRAME_SEPARATOR_RE = /(?<!\\): /;
+const ATTRIBUTES_RE = /^(.*?)\s*(?<!\\)\{((?:[^{}\\]|\\.)*)\}$/;
+const DEPENDENCY_KEYS = ['depends', 'depends on', 'after', 'requires'];
+const TASK_ATTRIBUTES = ['id', 'status', 'owner', 'progress', 'tags', ...DEPENDENCY_KEYS];
+const PILLAR_ATTRIBUTES = ['color', 'id'];
+const DEPENDENCY_SUFFIX_RE = /^(.*?)\s*(?<!\\)\((?:depends on|after|requires):?\s+([^()]+)\)$/i;
+const FOOTNOTE_REF_RE = /(?<!\\)\[\^[^\]\s]+\]/g;
+// Text that would read as an attribute block, a dependency or a footnote reference, with any number of backslashes before it.
+const ESCAPED_ATTRIBUTES_RE = /\\*\{[^{}]*\}$/;
+const ESCAPED_DEPENDENCY_SUFFIX_RE = /\\*\((?:depends on|after|requires):?\s+[^()]+\)$/i;
+const ESCAPED_FOOTNOTE_REF_RE = /\\*\[\^[^\]\s]+\]/g;
+// A separator that is not escaped, i.e. preceded by an even number of backslashes.
+const unescapedSeparator = (separator: string) => new RegExp(String.raw`(?<=(?:^|[^\\])(?:\\\\)*)${separator}`);
+const ATTRIBUTE_SEPARATOR_RE = unescapedSeparator(';');
+const LIST_SEPARATOR_RE = unescapedSeparator(',');
+const FOOTNOTE_DEFINITION_RE = /^\[\^[^\]\s]+\]:/;
+
+const normalizeName = (name: string) => name.trim().replace(/:$/, '').trim().toLowerCase();
+
+const escapeValue = (value: string) => value.replace(/[\\;,{}]/g, '\\$&');
+const unescapeValue = (value: string) => value.replace(/\\(.)/g, '$1').trim();
+const splitList = (value: string) => value.split(LIST_SEPARATOR_RE).map(unescapeValue).filter(Boolean);
+
+const escapeText = (text: string) => text
+    .replace(ESCAPED_FOOTNOTE_REF_RE, '\\$&')
+    .replace(ESCAPED_DEPENDENCY_SUFFIX_RE, '\\$&')
+    .replace(ESCAPED_ATTRIBUTES_RE, '\\$&');
+const unescapeText = (text: string) => text
+    .replace(ESCAPED_FOOTNOTE_REF_RE, ref => ref.replace(/^\\/, ''))
+    .replace(ESCAPED_DEPENDENCY_SUFFIX_RE, suffix => suffix.replace(/^\\/, ''))
+    .replace(ESCAPED_ATTRIBUTES_RE, block => block.replace(/^\\/, ''));
+
+export const splitTimeframeHeading = (heading: string): { date: string; name: string } => {
+    const separator = heading.match(TIMEFRAME_SEPARATOR_RE);
+    const unescapeDate = (date: string) => date.replace(/\\: /g, ': ').trim();
+    if (!separator) {
+        return { date: unescapeDate(heading), name: '' };
+    }
+    return {
+        date: unescapeDate(heading.slice(0, separator.index)),
+        name: heading.slice(separator.index! + 2).trim(),
+    };
+};
+
+/** Splits "Text {key: value; ...}" into the text and its attributes. Values are still escaped. */
+const splitAttributes = (content: string, keys: string[]): { text: string; attributes: string[][] } => {
+    const match = content.trim().match(ATTRIBUTES_RE);
+    if (match) {
+        const pairs = match[2].split(ATTRIBUTE_SEPARATOR_RE).map(pair => pair.trim()).filter(Boolean).map(pair => {
+            const separator = pair.indexOf(':');
+            return separator === -1 ? null : [pair.slice(0, separator).trim().toLowerCase(), pair.slice(separator + 1).trim()];
+        });
+        // Braces that are not a list of known attributes are part of the text.
+        if (pairs.length > 0 && pairs.every(pair => pair && keys.includes(pair[0]))) {
+            return { text: match[1].trim(), attributes: pairs as string[][] };
+        }
+    }
+    return { text: content.trim(), attributes: [] };
+};
+
+// A dependency value names one deliverable, or several separated by commas.
+interface DependencyReference {
+    whole: string;
+    parts: string[];
+}
+
+/** Splits "Title {status: done; owner: Dana}" into the title and its attributes. */
+const parseTaskLine = (content: string): { title: string; id: string; fields: Partial<Task>; dependencies: DependencyReference[] } => {
+    const split = splitAttributes(content, TASK_ATTRIBUTES);
+    let title = split.text;
+    let id = '';
+    const fields: Partial<Task> = {};
+    const dependencies: DependencyReference[] = [];
+
+    split.attributes.forEach(([key, value]) => {
+        if (key === 'id') id = unescapeValue(value);
+        if (key === 'status') fields.status = parseTaskStatus(unescapeValue(value)) ?? undefined;
+        if (key === 'owner') fields.owner = unescapeValue(value);
+        if (key === 'progress') fields.progress = Math.max(0, Math.min(100, parseInt(value, 10) || 0));
+        if (key === 'tags') fields.tags = splitList(value);
+        if (DEPENDENCY_KEYS.includes(key)) dependencies.push({ whole: unescapeValue(value), parts: splitList(value) });
+    });
+
+    const dependencySuffix = title.match(DEPENDENCY_SUFFIX_RE);
+    if (dependencySuffix) {
+        title = dependencySuffix[1].trim();
+        const reference = dependencySuffix[2].trim();
+        dependencies.push({ whole: reference, parts: reference.split(',').map(part => part.trim()).filter(Boolean) });
+    }
+    title = unescapeText(title);
+
+    const checkbox = title.match(CHECKBOX_RE);
+    if (checkbox) {
+        title = checkbox[2].trim();
+        fields.status ??= checkbox[1] === ' ' ? 'planned' : 'done';
+    } else if (ESCAPED_CHECKBOX_RE.test(title)) {
+        title = title.slice(1);
+    }
+    if (!fields.status) delete fields.status;
+    return { title, id, fields, dependencies };
+};
+
+export const parseRoadmapMarkdown = (text: string): MarkdownParseResult => {
+    const data: RoadmapData = { title: '', subtitle: '', pillars: [], timeframes: [] };
+    const unrecognizedLines: string[] = [];
+
+    let currentTimeframe: RoadmapData['timeframes'][number] | null = null;
+    let currentTasks: Task[] | null = null;
+    let groupIndent = 0;
+    let currentTask: Task | null = null;
+    let taskIndent = 0;
+
+    // Tasks without an explicit ID are numbered by position once all explicit IDs are known.
+    const explicitIds = new Set<string>();
+    const unnumberedTasks: { task: Task; position: number }[] = [];
+    // Dependencies can point forward, so they are resolved after all tasks are known.
+    const pendingDependencies: { task: Task; references: DependencyReference[] }[] = [];
+    let taskCount = 0;
+
+    const addTask = (content: string) => {
+        const { title, id, fields, dependencies } = parseTaskLine(content);
+        taskCount++;
+        const task = createTask(title, id && !explicitIds.has(id) ? id : '', fields);
+        if (task.id) explicitIds.add(task.id);
+        else unnumberedTasks.push({ task, position: taskCount });
+        if (dependencies.length > 0) pendingDependencies.push({ task, references: dependencies });
+        currentTasks!.push(task);
+        return task;
+    };
+
+    // Pillars without an ID are numbered by position, and pillars without a color get the palette color of their position.
+    const usedPillarIds = new Set<string>();
+    // Pillars that were named in a list before their heading.
+    const undeclaredPillarIds = new Set<string>();
+    const addPillar = (rawName: string, id: string) => {
+        let pillarId = id && !usedPillarIds.has(id) ? id : '';
+        for (let number = data.pillars.length + 1; !pillarId; number++) {
+            if (!usedPillarIds.has(`p${number}`)) pillarId = `p${number}`;
+        }
+        usedPillarIds.add(pillarId);
+        const pillar = { id: pillarId, name: rawName.trim().replace(/:$/, '').trim(), color: getPaletteColor(data.pillars.length) };
+        data.pillars.push(pillar);
+        return pillar;
+    };
+    const findPillar = (name: string, id: string, declared: boolean) =>
+        data.pillars.find(p => (id ? p.id === id : normalizeName(p.name) === normalizeName(name)) && (declared || undeclaredPillarIds.has(p.id)));
+
+    // Every heading is a pillar of its own, so pillars with the same name stay apart.
+    const declarePillar = (heading: string) => {
+        const { text, attributes } = splitAttributes(heading, PILLAR_ATTRIBUTES);
+        const name = unescapeText(text);
+        const attribute = (field: string) => unescapeValue(attributes.find(([key]) => key === field)?.[1] ?? '');
+        const id = attribute('id');
+        const color = normalizeHexColor(attribute('color'));
+        const existing = findPillar(name, id, false);
+        if (existing) undeclaredPillarIds.delete(existing.id);
+        const pillar = existing ?? addPillar(name, id);
+        if (color) pillar.color = color;
+    };
+
+    // Lists name their pillar by name, or by ID when several pillars have that name.
+    const resolvePillar = (name: string, id = ''): string => {
+        const existing = findPillar(name, id, true) ?? (id ? findPillar(name, '', true) : undefined);
+        if (existing) return existing.id;
+        const { id: pillarId } = addPillar(name, id);
+        undeclaredPillarIds.add(pillarId);
+        return pillarId;
+    };
+
+    // Footnote definitions continue on indented lines.
+    let inFootnote = false;
+    // Blank lines inside a description separate its paragraphs.
+    let blankLines = 0;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        if (FOOTNOTE_DEFINITION_RE.test(rawLine) || (inFootnote && /^\s+\S/.test(rawLine))) {
+            inFootnote = true;
+            continue;
+        }
+        if (rawLine.trim()) inFootnote = false;
+        const line = rawLine.replace(FOOTNOTE_REF_RE, '').trimEnd();
+        const trimmed = line.trim();
+        if (!trimmed) {
+            if (currentTask?.description) blankLines++;
+            continue;
+        }
+        const precedingBlankLines = blankLines;
+        blankLines = 0;
+        if (SEPARATOR_RE.test(trimmed)) continue;
+
+        let match: RegExpMatchArray | null;
+
+        const indent = line.length - line.trimStart().length;
+
+        if ((match = trimmed.match(PILLAR_RE))) {
+            declarePillar(match[1]);
+            currentTimeframe = null;
+            currentTasks = null;
+            currentTask = null;
+        } else if ((match = trimmed.match(TIMEFRAME_RE))) {
+            const { date, name } = splitTimeframeHeading(match[1]);
+            currentTimeframe = { id: `t${data.timeframes.length + 1}`, date, name, deliverables: [] };
+            data.timeframes.push(currentTimeframe);
+            currentTasks = null;
+            currentTask = null;
+        } else if (currentTask && indent > taskIndent && (match = line.match(LINK_RE))) {
+            currentTask.links.push({ label: match[1].trim(), url: match[2] });
+        } else if (currentTask && indent > taskIndent && (taskIndent > groupIndent || !LIST_ITEM_RE.test(line))) {
+            // Below a deliverable on its own line, deeper list items are part of the description. In the
+            // single-line form "- **Pillar**: deliverable" they are the next deliverables.
+            const text = ESCAPED_LIST_ITEM_RE.test(trimmed) ? trimmed.replace(/^\\/, '') : trimmed;
+            currentTask.description = currentTask.description ? `${currentTask.description}\n${'\n'.repeat(precedingBlankLines)}${text}` : text;
+        } else if ((match = trimmed.match(SUBTITLE_RE))) {
+            if (!data.subtitle) data.subtitle = match[1].trim();
+            else unrecognizedLines.push(line);
+        } else if ((match = trimmed.match(TITLE_RE))) {
+            if (!data.title) data.title = match[1].trim();
+            else unrecognizedLines.push(line);
+        } else if (currentTasks && (match = line.match(TASK_RE)) && match[1].length > groupIndent) {
+            currentTask = addTask(match[2]);
+            taskIndent = match[1].length;
+        } else if (currentTimeframe && (match = line.match(PILLAR_GROUP_RE))) {
+            const pillarId = resolvePillar(unescapeText(match[2]), match[3]);
+            let deliverable = currentTimeframe.deliverables.find(d => d.pillarId === pillarId);
+            if (!deliverable) {
+                deliverable = { pillarId, tasks: [] };
+                currentTimeframe.deliverables.push(deliverable);
+            }
+            currentTasks = deliverable.tasks;
+            groupIndent = match[1].length;
+            currentTask = null;
+            // Support the single-line form "- **Pillar**: deliverable".
+            const inlineTask = match[4].trim();
+            if (inlineTask) {
+                currentTask = addTask(inlineTask);
+                taskIndent = groupIndent;
+            }
+        } else {
+            unrecognizedLines.push(line);
+        }
+    }
+
+    let nextNumber = 1;
+    unnumberedTasks.forEach(({ task, position }) => {
+        let id = `d${position}`;
+        while (explicitIds.has(id)) id = `d${taskCount + nextNumber++}`;
+        explicitIds.add(id);
+        task.id = id;
+    });
+
+    // A reference is an ID or a title; a comma-separated list is only split when the whole value matches nothing.
+    const allTasks = data.timeframes.flatMap(t => t.deliverables.flatMap(d => d.tasks));
+    const resolve = (reference: string) =>
+        allTasks.find(task => task.id === reference) ?? allTasks.find(task => task.title.toLowerCase() === reference.toLowerCase());
+    const unresolvedDependencies: MarkdownParseResult['unresolvedDependencies'] = [];
+    pendingDependencies.forEach(({ task, references }) => {
+        references.forEach(({ whole, parts: listed }) => {
+            const parts = resolve(whole) ? [whole] : listed;
+            parts.forEach(part => {
+                const target = resolve(part);
+                if (!target) unresolvedDependencies.push({ task: task.title, reference: part });
+                else if (target !== task && !task.dependsOn.includes(target.id)) task.dependsOn.push(target.id);
+            });
+        });
+    });
+
+    return { data, unrecognizedLines, unresolvedDependencies };
+};
+
+/**
+ * Returns the parsed roadmap only when the text follows the structured format exactly,
+ * so that free-form input can still be routed to the AI.
+ */
+export const tryParseRoadmapMarkdown = (text: string): RoadmapData | null => {
+    const { data, unrecognizedLines } = parseRoadmapMarkdown(text);
+    if (unrecognizedLines.length > 0 || data.pillars.length === 0 || data.timeframes.length === 0) {
+        return null;
+    }
+    return data;
+};
+
+// --- Markdown Serializer ---
+// Produces the canonical format understood by parseRoadmapMarkdown, so that
+// serialize -> parse round-trips without loss.
+
+// Only non-default attributes are written. The ID is omitted when the parser would assign the same one.
+const serializeTask = (task: Task, position: number, notes = ''): string[] => {
+    const attributes: string[] = [];
+    if (task.status !== 'planned') attributes.push(`status: ${task.status}`);
+    if (task.owner) attributes.push(`owner: ${escapeValue(task.owner)}`);
+    if (task.progress > 0) attributes.push(`progress: ${task.progress}%`);
+    if (task.tags.length > 0) attributes.push(`tags: ${task.tags.map(escapeValue).join(', ')}`);
+    if (task.dependsOn.length > 0) attributes.push(`depends: ${task.dependsOn.map(escapeValue).join(', ')}`);
+    if (task.id !== `d${position}`) attributes.push(`id: ${escapeValue(task.id)}`);
+
+    const title = escapeText(ESCAPED_CHECKBOX_RE.test(task.title) ? `\\${task.title}` : task.title);
+    const lines = [`  - ${title}${attributes.length > 0 ? ` {${attributes.join('; ')}}` : ''}${notes}`];
+    // Blank lines are kept between paragraphs, and lines that would read as list items are escaped.
+    const description = task.description?.trim();
+    if (description) {
+        description.split('\n').map(line => line.trim()).forEach(line => {
+            lines.push(!line ? '' : `    ${ESCAPED_LIST_ITEM_RE.test(line) ? `\\${line}` : line}`);
+        });
+    }
+    task.links.forEach(link => lines.push(`    - [${link.label}](${link.url})`));
+    return lines;
+};
+
+export interface MarkdownOptions {
+    // Adds the comment threads as footnotes.
+    includeComments?: boolean;
+}
+
+export const serializeRoadmapToMarkdown = (data: RoadmapData, options: MarkdownOptions = {}): string => {
+    const lines: string[] = [];
+    const footnotes = options.includeComments ? collectFootnotes(data) : [];
+    const footnotesOf = indexFootnotes(footnotes);
+    const notes = (key: string) => (footnotesOf[key] ?? []).map(number => `[^${number}]`).join('');
+
+    if (data.title) lines.push(`# ${data.title}`);
+    if (data.subtitle) lines.push(`## ${data.subtitle}`);
+    if (lines.length > 0) lines.push('');
+
+    // Colors and IDs are only written when they differ from the ones the parser would assign.
+    data.pillars.forEach((pillar, index) => {
+        const attributes: string[] = [];
+        if (pillar.color !== getPaletteColor(index)) attributes.push(`color: ${pillar.color}`);
+        if (pillar.id !== `p${index + 1}`) attributes.push(`id: ${escapeValue(pillar.id)}`);
+        lines.push(`### Pillar: ${escapeText(pillar.name)}${attributes.length > 0 ? ` {${attributes.join('; ')}}` : ''}${notes(`pillar:${pillar.id}`)}`);
+    });
+    // A list names its pillar by ID when an earlier pillar has the same name.
+    const groupHeading = (pillar: RoadmapData['pillars'][number]) =>
+        data.pillars.find(p => normalizeName(p.name) === normalizeName(pillar.name)) === pillar ? `- **${escapeText(pillar.name)}**:` : `- **${escapeText(pillar.name)}** {id: ${pillar.id}}:`;
+
+    let position = 0;
+    data.timeframes.forEach(timeframe => {
+        lines.push('', '---', '');
+        const date = timeframe.date.replace(/: /g, '\\: ');
+        lines.push(`### Timeframe: ${timeframe.name ? `${date}: ${timeframe.name}` : date}${notes(`timeframe:${timeframe.id}`)}`);
+        // Deliverables are written in pillar order; unknown pillar IDs are dropped.
+        data.pillars.forEach(pillar => {
+            const deliverable = timeframe.deliverables.find(d => d.pillarId === pillar.id);
+            if (!deliverable || deliverable.tasks.length === 0) return;
+            lines.push(groupHeading(pillar));
+            deliverable.tasks.forEach(task => lines.push(...serializeTask(task, ++position, notes(`task:${task.id}`))));
+        });
+    });
+
+    // One footnote per thread; its replies are indented so they belong to the same footnote.
+    if (footnotes.length > 0) lines.push('', '---', '');
+    footnotes.forEach(({ number, label, thread }) => {
+        const [first, ...replies] = thread.comments;
+        lines.push(`[^${number}]: ${label}${thread.resolved ? ' (resolved)' : ''}: ${formatComment(first)}`);
+        replies.forEach(reply => lines.push(`    ${formatComment(reply)}`));
+    });
+
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task } from './geminiService';
+import { createTask, listTasks } from './roadmapTasks';
+import { pruneDependencies, wouldCreateCycle } from './roadmapDependencies';
+import { pruneThreads } from './roadmapComments';
+import { pickPillarColor } from './pillarColors';
+
+// --- Roadmap Editing Operations ---
+// Every operation is pure: it returns an updated copy and leaves the input untouched.
+
+export interface TaskLocation {
+    timeframeId: string;
+    pillarId: string;
+    index: number;
+}
+
+type Timeframe = RoadmapData['timeframes'][number];
+
+export const cloneRoadmap = (data: RoadmapData): RoadmapData => JSON.parse(JSON.stringify(data));
+
+// IDs added during a collaboration session carry a suffix, e.g. "d12-k3x9", and count as well.
+const nextId = (prefix: string, existingIds: string[]): string => {
+    const max = existingIds.reduce((highest, id) => {
+        const match = id.match(new RegExp(`^${prefix}(\\d+)(?:-[a-z0-9]+)?$`));
+        return match ? Math.max(highest, Number(match[1])) : highest;
+    }, 0);
+    return `${prefix}${max + 1}`;
+};
+
+const moveItem = <T>(items: T[], fromIndex: number, toIndex: number) => {
+    const clampedIndex = Math.max(0, Math.min(items.length - 1, toIndex));
+    const [item] = items.splice(fromIndex, 1);
+    items.splice(clampedIndex, 0, item);
+};
+
+// Finds (or creates) the task list for a pillar within a timeframe.
+const getTasks = (timeframe: Timeframe, pillarId: string): Task[] => {
+    let deliverable = timeframe.deliverables.find(d => d.pillarId === pillarId);
+    if (!deliverable) {
+        deliverable = { pillarId, tasks: [] };
+        timeframe.deliverables.push(deliverable);
+    }
+    return deliverable.tasks;
+};
+
+const withTimeframe = (data: RoadmapData, timeframeId: string, update: (timeframe: Timeframe, draft: RoadmapData) => void): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    const timeframe = draft.timeframes.find(t => t.id === timeframeId);
+    if (timeframe) update(timeframe, draft);
+    return draft;
+};
+
+// --- Roadmap ---
+
+export const updateRoadmapInfo = (data: RoadmapData, changes: Partial<Pick<RoadmapData, 'title' | 'subtitle'>>): RoadmapData =>
+    ({ ...cloneRoadmap(data), ...changes });
+
+// --- Deliverables ---
+
+export type TaskChanges = Partial<Omit<Task, 'id'>>;
+
+export const nextTaskId = (data: RoadmapData): string => nextId('d', listTasks(data).map(entry => entry.task.id));
+
+export const addTask = (data: RoadmapData, timeframeId: string, pillarId: string, title: string, id = nextTaskId(data)): RoadmapData =>
+    withTimeframe(data, timeframeId, timeframe => {
+        getTasks(timeframe, pillarId).push(createTask(title, id));
+    });
+
+export const updateTask = (data: RoadmapData, location: TaskLocation, changes: TaskChanges): RoadmapData =>
+    withTimeframe(data, location.timeframeId, timeframe => {
+        const tasks = getTasks(timeframe, location.pillarId);
+        if (tasks[location.index] !== undefined) {
+            tasks[location.index] = { ...tasks[location.index], ...changes };
+        }
+    });
+
+export const deleteTask = (data: RoadmapData, location: TaskLocation): RoadmapData =>
+    pruneThreads(pruneDependencies(withTimeframe(data, location.timeframeId, timeframe => {
+        getTasks(timeframe, location.pillarId).splice(location.index, 1);
+    })));
+
+/**
+ * Moves a task within a cell or into another pillar/timeframe cell.
+ * `to.index` refers to the position in the target list before the task is removed.
+ */
+export const moveTask = (data: RoadmapData, from: TaskLocation, to: TaskLocation): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    const sourceTimeframe = draft.timeframes.find(t => t.id === from.timeframeId);
+    const targetTimeframe = draft.timeframes.find(t => t.id === to.timeframeId);
+    if (!sourceTimeframe || !targetTimeframe) return data;
+
+    const sourceTasks = getTasks(sourceTimeframe, from.pillarId);
+    if (sourceTasks[from.index] === undefined) return data;
+    const [task] = sourceTasks.splice(from.index, 1);
+
+    const targetTasks = getTasks(targetTimeframe, to.pillarId);
+    const isSameList = sourceTasks === targetTasks;
+    const targetIndex = isSameList && from.index < to.index ? to.index - 1 : to.index;
+    targetTasks.splice(Math.max(0, Math.min(targetTasks.length, targetIndex)), 0, task);
+    return draft;
+};
+
+// --- Dependencies ---
+
+/** Makes `taskId` depend on `dependencyId`. Edges that would create a cycle are ignored. */
+export const addDependency = (data: RoadmapData, taskId: string, dependencyId: string): RoadmapData => {
+    if (wouldCreateCycle(data, taskId, dependencyId)) return data;
+    const draft = cloneRoadmap(data);
+    const entry = listTasks(draft).find(e => e.task.id === taskId);
+    if (!entry || entry.task.dependsOn.includes(dependencyId)) return data;
+    entry.task.dependsOn.push(dependencyId);
+    return draft;
+};
+
+export const removeDependency = (data: RoadmapData, taskId: string, dependencyId: string): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    const entry = listTasks(draft).find(e => e.task.id === taskId);
+    if (entry) entry.task.dependsOn = entry.task.dependsOn.filter(id => id !== dependencyId);
+    return draft;
+};
+
+// --- Pillars ---
+
+export const nextPillarId = (data: RoadmapData): string => nextId('p', data.pillars.map(p => p.id));
+
+export const addPillar = (data: RoadmapData, name: string, id = nextPillarId(data)): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    draft.pillars.push({ id, name, color: pickPillarColor(draft.pillars.map(p => p.color)) });
+    return draft;
+};
+
+export const setPillarColor = (data: RoadmapData, pillarId: string, color: string): RoadmapData => {
+    const pillar = data.pillars.find(p => p.id === pillarId);
+    if (!pillar || pillar.color === color) return data;
+    const draft = cloneRoadmap(data);
+    draft.pillars.find(p => p.id === pillarId)!.color = color;
+    return draft;
+};
+
+export const renamePillar = (data: RoadmapData, pillarId: string, name: string): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    const pillar = draft.pillars.find(p => p.id === pillarId);
+    if (pillar) pillar.name = name;
+    return draft;
+};
+
+/** Removes the pillar together with all of its deliverables and their comments. */
+export const deletePillar = (data: RoadmapData, pillarId: string): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    draft.pillars = draft.pillars.filter(p => p.id !== pillarId);
+    draft.timeframes.forEach(timeframe => {
+        timeframe.deliverables = timeframe.deliverables.filter(d => d.pillarId !== pillarId);
+    });
+    return pruneThreads(pruneDependencies(draft));
+};
+
+export const movePillar = (data: RoadmapData, pillarId: string, toIndex: number): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    const fromIndex = draft.pillars.findIndex(p => p.id === pillarId);
+    if (fromIndex !== -1) moveItem(draft.pillars, fromIndex, toIndex);
+    return draft;
+};
+
+// --- Timeframes ---
+
+export const nextTimeframeId = (data: RoadmapData): string => nextId('t', data.timeframes.map(t => t.id));
+
+export const addTimeframe = (data: RoadmapData, date: string, name: string, id = nextTimeframeId(data)): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    draft.timeframes.push({ id, date, name, deliverables: [] });
+    return draft;
+};
+
+export const updateTimeframe = (data: RoadmapData, timeframeId: string, changes: Partial<Pick<Timeframe, 'date' | 'name'>>): RoadmapData =>
+    withTimeframe(data, timeframeId, timeframe => {
+        Object.assign(timeframe, changes);
+    });
+
+export const deleteTimeframe = (data: RoadmapData, timeframeId: string): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    draft.timeframes = draft.timeframes.filter(t => t.id !== timeframeId);
+    return pruneThreads(pruneDependencies(draft));
+};
+
+export const moveTimeframe = (data: RoadmapData, timeframeId: string, toIndex: number): RoadmapData => {
+    const draft = cloneRoadmap(data);
+    const fromIndex = draft.timeframes.findIndex(t => t.id === timeframeId);
+    if (fromIndex !== -1) moveItem(draft.timeframes, fromIndex, toIndex);
+    return draft;
+};
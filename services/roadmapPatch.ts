@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task } from './geminiService';
+import { isObject } from './roadmapValidator';
+import type { ValidationIssue } from './roadmapValidator';
+import * as ops from './roadmapOperations';
+import { findTask, getTaskStatusStyle, parseTaskStatus } from './roadmapTasks';
+
+// --- Roadmap Patches ---
+// AI edit commands come back as a list of operations instead of a whole new roadmap, so each
+// change can be previewed and accepted on its own. Operations refer to items by ID; pillars and
+// timeframes added by the patch get temporary IDs that later operations of the same patch may use.
+
+export type PatchTaskChanges = Partial<Pick<Task, 'title' | 'status' | 'owner' | 'progress' | 'tags' | 'description'>>;
+
+export type PatchOperation =
+    | { type: 'addTask'; timeframeId: string; pillarId: string; title: string; changes: PatchTaskChanges }
+    | { type: 'updateTask'; taskId: string; changes: PatchTaskChanges }
+    | { type: 'moveTask'; taskId: string; timeframeId: string; pillarId: string }
+    | { type: 'deleteTask'; taskId: string }
+    | { type: 'addPillar'; pillarId: string; name: string }
+    | { type: 'renamePillar'; pillarId: string; name: string }
+    | { type: 'deletePillar'; pillarId: string }
+    | { type: 'addTimeframe'; timeframeId: string; date: string; name: string }
+    | { type: 'updateTimeframe'; timeframeId: string; changes: { date?: string; name?: string } };
+
+export type PatchOperationType = PatchOperation['type'];
+
+export const PATCH_OPERATION_TYPES: PatchOperationType[] = [
+    'addTask', 'updateTask', 'moveTask', 'deleteTask',
+    'addPillar', 'renamePillar', 'deletePillar',
+    'addTimeframe', 'updateTimeframe',
+];
+
+export interface RoadmapPatch {
+    // The model's one-line explanation of the change.
+    summary: string;
+    operations: PatchOperation[];
+}
+
+export interface PatchValidationResult {
+    // Null when the response is not a patch at all.
+    patch: RoadmapPatch | null;
+    // Operations that cannot be applied are dropped and reported as repaired.
+    issues: ValidationIssue[];
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+
+// The task fields an operation sets. Fields the model left out (or sent empty) are not changed.
+const readTaskChanges = (raw: Record<string, unknown>): PatchTaskChanges => {
+    const changes: PatchTaskChanges = {};
+    if (text(raw.title)) changes.title = text(raw.title);
+    const status = parseTaskStatus(text(raw.status));
+    if (status) changes.status = status;
+    if (typeof raw.owner === 'string') changes.owner = raw.owner.trim();
+    if (typeof raw.progress === 'number' && Number.isFinite(raw.progress)) changes.progress = Math.round(Math.max(0, Math.min(100, raw.progress)));
+    if (Array.isArray(raw.tags)) changes.tags = raw.tags.map(text).filter(Boolean);
+    if (typeof raw.description === 'string') changes.description = raw.description.trim();
+    return changes;
+};
+
+export const validatePatch = (raw: unknown, data: RoadmapData): PatchValidationResult => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(raw) || !Array.isArray(raw.operations)) {
+        issues.push({ path: '', message: 'The response is not an object with an "operations" array.', repaired: false });
+        return { patch: null, issues };
+    }
+
+    const pillarIds = new Set(data.pillars.map(p => p.id));
+    const timeframeIds = new Set(data.timeframes.map(t => t.id));
+    const operations: PatchOperation[] = [];
+
+    raw.operations.forEach((item, index) => {
+        const path = `operations[${index}]`;
+        const drop = (message: string) => issues.push({ path, message: `${message} The operation was dropped.`, repaired: true });
+        if (!isObject(item)) return drop('Not an object.');
+
+        const type = text(item.type) as PatchOperationType;
+        const taskId = text(item.taskId);
+        const pillarId = text(item.pillarId);
+        const timeframeId = text(item.timeframeId);
+        const name = text(item.name);
+        const task = taskId ? findTask(data, taskId) : null;
+        const needTask = () => {
+            if (!task) drop(`Unknown deliverable "${taskId}".`);
+            return !!task;
+        };
+        const needPillar = (id: string) => {
+            if (!pillarIds.has(id)) drop(`Unknown pillar "${id}".`);
+            return pillarIds.has(id);
+        };
+        const needTimeframe = (id: string) => {
+            if (!timeframeIds.has(id)) drop(`Unknown timeframe "${id}".`);
+            return timeframeIds.has(id);
+        };
+        // New items need an ID that later operations can refer to; the model may leave it out.
+        const newId = (prefix: string, used: Set<string>, id: string) => {
+            let candidate = id && !used.has(id) ? id : '';
+            for (let n = 1; !candidate; n++) if (!used.has(`new-${prefix}${n}`)) candidate = `new-${prefix}${n}`;
+            used.add(candidate);
+            return candidate;
+        };
+
+        switch (type) {
+            case 'addTask': {
+                const changes = readTaskChanges(item);
+                if (!changes.title) return drop('A new deliverable needs a title.');
+                if (!needPillar(pillarId) || !needTimeframe(timeframeId)) return;
+                const { title, ...rest } = changes;
+                operations.push({ type, timeframeId, pillarId, title, changes: rest });
+                return;
+            }
+            case 'updateTask': {
+                if (!needTask()) return;
+                const changes = readTaskChanges(item);
+                if (Object.keys(changes).length === 0) return drop('No changes were given.');
+                operations.push({ type, taskId, changes });
+                return;
+            }
+            case 'moveTask': {
+                if (!needTask()) return;
+                // A missing target keeps the deliverable where it is along that axis.
+                const targetPillarId = pillarId || task!.pillarId;
+                const targetTimeframeId = timeframeId || task!.timeframeId;
+                if (!needPillar(targetPillarId) || !needTimeframe(targetTimeframeId)) return;
+                if (targetPillarId === task!.pillarId && targetTimeframeId === task!.timeframeId) return drop('The deliverable is already there.');
+                operations.push({ type, taskId, pillarId: targetPillarId, timeframeId: targetTimeframeId });
+                return;
+            }
+            case 'deleteTask':
+                if (needTask()) operations.push({ type, taskId });
+                return;
+            case 'addPillar':
+                if (!name) return drop('A new pillar needs a name.');
+                operations.push({ type, pillarId: newId('p', pillarIds, pillarId), name });
+                return;
+            case 'renamePillar':
+                if (!name) return drop('A pillar needs a name.');
+                if (needPillar(pillarId)) operations.push({ type, pillarId, name });
+                return;
+            case 'deletePillar':
+                if (needPillar(pillarId)) operations.push({ type, pillarId });
+                return;
+            case 'addTimeframe': {
+                const date = text(item.date);
+                if (!date && !name) return drop('A new timeframe needs a date or a name.');
+                operations.push({ type, timeframeId: newId('t', timeframeIds, timeframeId), date, name });
+                return;
+            }
+            case 'updateTimeframe': {
+                if (!needTimeframe(timeframeId)) return;
+                const changes: { date?: string; name?: string } = {};
+                if (text(item.date)) changes.date = text(item.date);
+                if (name) changes.name = name;
+                if (Object.keys(changes).length === 0) return drop('No changes were given.');
+                operations.push({ type, timeframeId, changes });
+                return;
+            }
+            default:
+                return drop(`Unknown operation type "${text(item.type)}".`);
+        }
+    });
+
+    return { patch: { summary: text(raw.summary), operations }, issues };
+};
+
+// --- Preview ---
+
+// Names of pillars and timeframes, including the ones the patch adds.
+const getNames = (data: RoadmapData, operations: PatchOperation[]) => {
+    const pillars = new Map(data.pillars.map(p => [p.id, p.name]));
+    const timeframes = new Map(data.timeframes.map(t => [t.id, t.name ? `${t.date}: ${t.name}` : t.date]));
+    operations.forEach(op => {
+        if (op.type === 'addPillar') pillars.set(op.pillarId, op.name);
+        if (op.type === 'addTimeframe') timeframes.set(op.timeframeId, op.name ? `${op.date}: ${op.name}` : op.date);
+    });
+    return {
+        pillar: (id: string) => pillars.get(id) ?? id,
+        timeframe: (id: string) => timeframes.get(id) ?? id,
+    };
+};
+
+const describeChanges = (changes: PatchTaskChanges) => Object.entries(changes).map(([field, value]) => {
+    if (field === 'status') {
+        const status = typeof value === 'string' ? parseTaskStatus(value) : null;
+        return status ? `status: ${getTaskStatusStyle(status).label.toLowerCase()}` : `status: "${value}"`;
+    }
+    if (field === 'progress') return `progress: ${value}%`;
+    if (field === 'tags') return `tags: ${(value as string[]).join(', ') || 'none'}`;
+    return `${field}: "${value}"`;
+}).join(', ');
+
+/** A sentence for the preview, e.g. 'Move "SSO" to Platform · 2026 H1'. */
+export const describeOperation = (op: PatchOperation, data: RoadmapData, operations: PatchOperation[] = [op]): string => {
+    const names = getNames(data, operations);
+    const taskTitle = (taskId: string) => `"${findTask(data, taskId)?.task.title ?? taskId}"`;
+    switch (op.type) {
+        case 'addTask': {
+            const details = describeChanges(op.changes);
+            return `Add "${op.title}" to ${names.pillar(op.pillarId)} · ${names.timeframe(op.timeframeId)}${details ? ` (${details})` : ''}`;
+        }
+        case 'updateTask': {
+            const { title, ...rest } = op.changes;
+            const details = describeChanges(rest);
+            const rename = title !== undefined ? `Rewrite ${taskTitle(op.taskId)} as "${title}"` : `Update ${taskTitle(op.taskId)}`;
+            return title !== undefined && details ? `${rename} (${details})` : title !== undefined ? rename : `${rename}: ${details}`;
+        }
+        case 'moveTask':
+            return `Move ${taskTitle(op.taskId)} to ${names.pillar(op.pillarId)} · ${names.timeframe(op.timeframeId)}`;
+        case 'deleteTask':
+            return `Delete ${taskTitle(op.taskId)}`;
+        case 'addPillar':
+            return `Add pillar "${op.name}"`;
+        case 'renamePillar':
+            return `Rename pillar "${names.pillar(op.pillarId)}" to "${op.name}"`;
+        case 'deletePillar': {
+            const count = data.timeframes.reduce((sum, t) => sum + (t.deliverables.find(d => d.pillarId === op.pillarId)?.tasks.length ?? 0), 0);
+            return `Delete pillar "${names.pillar(op.pillarId)}"${count > 0 ? ` and its ${count} deliverable(s)` : ''}`;
+        }
+        case 'addTimeframe':
+            return `Add timeframe "${op.name ? `${op.date}: ${op.name}` : op.date}"`;
+        case 'updateTimeframe':
+            return `Change timeframe "${names.timeframe(op.timeframeId)}" to "${[op.changes.date, op.changes.name].filter(Boolean).join(': ')}"`;
+    }
+};
+
+// --- Applying ---
+
+export interface PatchApplyResult {
+    data: RoadmapData;
+    // Operations whose targets no longer exist, e.g. a move into a pillar whose addition was rejected.
+    skipped: PatchOperation[];
+}
+
+/**
+ * Applies the operations in order through the regular editing operations.
+ * `uniqueId` adjusts the IDs of added items, e.g. so they do not clash with those of collaborators.
+ */
+export const applyPatch = (data: RoadmapData, operations: PatchOperation[], uniqueId: (id: string) => string = id => id): PatchApplyResult => {
+    // Temporary IDs of added pillars and timeframes, mapped to the IDs they actually got.
+    const newIds = new Map<string, string>();
+    const resolve = (id: string) => newIds.get(id) ?? id;
+    const skipped: PatchOperation[] = [];
+    let current = data;
+
+    operations.forEach(op => {
+        const hasPillar = (id: string) => current.pillars.some(p => p.id === resolve(id));
+        const hasTimeframe = (id: string) => current.timeframes.some(t => t.id === resolve(id));
+        const entry = 'taskId' in op ? findTask(current, op.taskId) : null;
+
+        switch (op.type) {
+            case 'addTask': {
+                if (!hasPillar(op.pillarId) || !hasTimeframe(op.timeframeId)) break;
+                const taskId = uniqueId(ops.nextTaskId(current));
+                current = ops.addTask(current, resolve(op.timeframeId), resolve(op.pillarId), op.title, taskId);
+                const added = findTask(current, taskId);
+                if (added && Object.keys(op.changes).length > 0) current = ops.updateTask(current, added, op.changes);
+                return;
+            }
+            case 'updateTask':
+                if (!entry) break;
+                current = ops.updateTask(current, entry, op.changes);
+                return;
+            case 'moveTask': {
+                if (!entry || !hasPillar(op.pillarId) || !hasTimeframe(op.timeframeId)) break;
+                const timeframeId = resolve(op.timeframeId);
+                const pillarId = resolve(op.pillarId);
+                const targetCount = current.timeframes.find(t => t.id === timeframeId)!.deliverables.find(d => d.pillarId === pillarId)?.tasks.length ?? 0;
+                current = ops.moveTask(current, entry, { timeframeId, pillarId, index: targetCount });
+                return;
+            }
+            case 'deleteTask':
+                if (!entry) break;
+                current = ops.deleteTask(current, entry);
+                return;
+            case 'addPillar': {
+                const pillarId = uniqueId(ops.nextPillarId(current));
+                current = ops.addPillar(current, op.name, pillarId);
+                newIds.set(op.pillarId, pillarId);
+                return;
+            }
+            case 'renamePillar':
+                if (!hasPillar(op.pillarId)) break;
+                current = ops.renamePillar(current, resolve(op.pillarId), op.name);
+                return;
+            case 'deletePillar':
+                if (!hasPillar(op.pillarId)) break;
+                current = ops.deletePillar(current, resolve(op.pillarId));
+                return;
+            case 'addTimeframe': {
+                const timeframeId = uniqueId(ops.nextTimeframeId(current));
+                current = ops.addTimeframe(current, op.date, op.name, timeframeId);
+                newIds.set(op.timeframeId, timeframeId);
+                return;
+            }
+            case 'updateTimeframe':
+                if (!hasTimeframe(op.timeframeId)) break;
+                current = ops.updateTimeframe(current, resolve(op.timeframeId), op.changes);
+                return;
+        }
+        skipped.push(op);
+    });
+
+    return { data: current, skipped };
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from './geminiService';
+import { isObject } from './roadmapValidator';
+import type { ValidationIssue } from './roadmapValidator';
+import { findTask } from './roadmapTasks';
+
+// --- Roadmap Review ---
+// The model's critique of a roadmap. Each finding points at what it is about: a cell (timeframe
+// and pillar), a whole timeframe or pillar, specific deliverables, or nothing (the whole roadmap).
+
+export type ReviewFindingKind = 'overload' | 'gap' | 'vague' | 'duplicate' | 'balance' | 'other';
+
+export const REVIEW_FINDING_KINDS: ReviewFindingKind[] = ['overload', 'gap', 'vague', 'duplicate', 'balance', 'other'];
+
+export const REVIEW_FINDING_LABELS: Record<ReviewFindingKind, string> = {
+    overload: 'Overloaded',
+    gap: 'Gap',
+    vague: 'Vague',
+    duplicate: 'Duplicate',
+    balance: 'Imbalance',
+    other: 'Note',
+};
+
+export interface ReviewFinding {
+    // Unique within the review, e.g. 'f1'.
+    id: string;
+    kind: ReviewFindingKind;
+    message: string;
+    timeframeId?: string;
+    pillarId?: string;
+    // The deliverables the finding is about, if any.
+    taskIds: string[];
+}
+
+export interface RoadmapReview {
+    summary: string;
+    findings: ReviewFinding[];
+}
+
+export interface ReviewValidationResult {
+    // Null when the response is not a review at all.
+    review: RoadmapReview | null;
+    issues: ValidationIssue[];
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/** Keeps the findings that have a message. References to unknown items are removed, not the finding. */
+export const validateReview = (raw: unknown, data: RoadmapData): ReviewValidationResult => {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(raw) || !Array.isArray(raw.findings)) {
+        issues.push({ path: '', message: 'The response is not an object with a "findings" array.', repaired: false });
+        return { review: null, issues };
+    }
+
+    const findings: ReviewFinding[] = [];
+    raw.findings.forEach((item, index) => {
+        const path = `findings[${index}]`;
+        if (!isObject(item) || !text(item.message)) {
+            issues.push({ path, message: 'A finding without a message was dropped.', repaired: true });
+            return;
+        }
+        const kind = REVIEW_FINDING_KINDS.includes(item.kind as ReviewFindingKind) ? item.kind as ReviewFindingKind : 'other';
+        const known = (id: string, exists: boolean, field: string) => {
+            if (id && !exists) issues.push({ path: `${path}.${field}`, message: `Unknown ID "${id}" was removed.`, repaired: true });
+            return id && exists ? id : undefined;
+        };
+        const timeframeId = known(text(item.timeframeId), data.timeframes.some(t => t.id === text(item.timeframeId)), 'timeframeId');
+        const pillarId = known(text(item.pillarId), data.pillars.some(p => p.id === text(item.pillarId)), 'pillarId');
+        const taskIds = (Array.isArray(item.taskIds) ? item.taskIds.map(text) : [])
+            .filter(id => known(id, !!findTask(data, id), 'taskIds'));
+        findings.push({ id: `f${findings.length + 1}`, kind, message: text(item.message), timeframeId, pillarId, taskIds });
+    });
+
+    return { review: { summary: text(raw.summary), findings }, issues };
+};
+
+// --- Annotations ---
+
+export interface ReviewAnnotations {
+    // Findings about one pillar in one timeframe, including those about deliverables in that cell.
+    cell: (timeframeId: string, pillarId: string) => ReviewFinding[];
+    timeframe: (timeframeId: string) => ReviewFinding[];
+    pillar: (pillarId: string) => ReviewFinding[];
+    // Findings about the whole roadmap.
+    general: ReviewFinding[];
+}
+
+const cellKey = (timeframeId: string, pillarId: string) => `${timeframeId}\u0000${pillarId}`;
+
+/**
+ * Groups the findings by where the views show them. Deliverables are looked up in the current
+ * data, so a note follows its deliverable when it is moved after the review.
+ */
+export const indexReviewFindings = (findings: ReviewFinding[], data: RoadmapData): ReviewAnnotations => {
+    const cells = new Map<string, ReviewFinding[]>();
+    const timeframes = new Map<string, ReviewFinding[]>();
+    const pillars = new Map<string, ReviewFinding[]>();
+    const general: ReviewFinding[] = [];
+    const add = (map: Map<string, ReviewFinding[]>, key: string, finding: ReviewFinding) => {
+        const list = map.get(key) ?? [];
+        if (!list.includes(finding)) map.set(key, [...list, finding]);
+    };
+
+    findings.forEach(finding => {
+        const entries = finding.taskIds.map(id => findTask(data, id)).filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+        if (entries.length > 0) {
+            entries.forEach(entry => add(cells, cellKey(entry.timeframeId, entry.pillarId), finding));
+        } else if (finding.timeframeId && finding.pillarId) {
+            add(cells, cellKey(finding.timeframeId, finding.pillarId), finding);
+        } else if (finding.timeframeId) {
+            add(timeframes, finding.timeframeId, finding);
+        } else if (finding.pillarId) {
+            add(pillars, finding.pillarId, finding);
+        } else {
+            general.push(finding);
+        }
+    });
+
+    return {
+        cell: (timeframeId, pillarId) => cells.get(cellKey(timeframeId, pillarId)) ?? [],
+        timeframe: (timeframeId) => timeframes.get(timeframeId) ?? [],
+        pillar: (pillarId) => pillars.get(pillarId) ?? [],
+        general,
+    };
+};
+
+export const NO_ANNOTATIONS: ReviewAnnotations = indexReviewFindings([], { title: '', subtitle: '', pillars: [], timeframes: [] });
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from './geminiService';
+import { validateRoadmap } from './roadmapValidator';
+
+// --- Local Document Library ---
+// Saved roadmaps live in localStorage so that they survive a page refresh.
+
+// A saved copy of a roadmap, to compare later versions against.
+export interface RoadmapSnapshot {
+    id: string;
+    name: string;
+    data: RoadmapData;
+    createdAt: string;
+}
+
+export interface RoadmapDocument {
+    id: string;
+    name: string;
+    // The text the roadmap was generated from.
+    sourceText: string;
+    // The RoadmapData as returned by the parser.
+    data: RoadmapData;
+    // The RoadmapData including all edits made in the editor.
+    localData: RoadmapData;
+    // Oldest first.
+    snapshots: RoadmapSnapshot[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+const DOCUMENTS_KEY = 'roadmap-editor:documents';
+const CURRENT_DOCUMENT_KEY = 'roadmap-editor:current-document';
+// Older snapshots are dropped beyond this, to stay within the storage quota.
+const MAX_SNAPSHOTS = 20;
+
+const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Roadmaps saved before deliverables had fields store them as plain strings, later ones lack
+// dependencies, and those before pillar colors were stored lack colors.
+const upgradeRoadmap = (data: RoadmapData): RoadmapData =>
+    data.pillars.some(pillar => !pillar.color)
+        || data.timeframes.some(t => t.deliverables.some(d => d.tasks.some(task => typeof task !== 'object' || !Array.isArray(task.dependsOn))))
+        ? validateRoadmap(data).data ?? data
+        : data;
+
+const readDocuments = (): RoadmapDocument[] => {
+    try {
+        const raw = localStorage.getItem(DOCUMENTS_KEY);
+        const documents: RoadmapDocument[] = raw ? JSON.parse(raw) : [];
+        return documents.map(doc => ({
+            ...doc,
+            data: upgradeRoadmap(doc.data),
+            localData: upgradeRoadmap(doc.localData),
+            snapshots: (doc.snapshots ?? []).map(snapshot => ({ ...snapshot, data: upgradeRoadmap(snapshot.data) })),
+        }));
+    } catch (e) {
+        console.error('[Roadmap Store] Could not read saved roadmaps:', e);
+        return [];
+    }
+};
+
+const writeDocuments = (documents: RoadmapDocument[]) => {
+    try {
+        localStorage.setItem(DOCUMENTS_KEY, JSON.stringify(documents));
+    } catch (e) {
+        console.error('[Roadmap Store] Could not save roadmaps:', e);
+        throw new Error('Could not save the roadmap. The browser storage may be full or disabled.');
+    }
+};
+
+/** Returns all saved roadmaps, most recently updated first. */
+export const listDocuments = (): RoadmapDocument[] =>
+    readDocuments().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getDocument = (id: string): RoadmapDocument | null =>
+    readDocuments().find(doc => doc.id === id) ?? null;
+
+export const createDocument = (sourceText: string, data: RoadmapData, name?: string): RoadmapDocument => {
+    const now = new Date().toISOString();
+    const document: RoadmapDocument = {
+        id: createId(),
+        name: name || data.title || 'Untitled Roadmap',
+        sourceText,
+        data,
+        localData: data,
+        snapshots: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+    writeDocuments([...readDocuments(), document]);
+    return document;
+};
+
+export const updateDocument = (
+    id: string,
+    changes: Partial<Pick<RoadmapDocument, 'name' | 'sourceText' | 'data' | 'localData' | 'snapshots'>>
+): RoadmapDocument | null => {
+    const documents = readDocuments();
+    const index = documents.findIndex(doc => doc.id === id);
+    if (index === -1) return null;
+    documents[index] = { ...documents[index], ...changes, updatedAt: new Date().toISOString() };
+    writeDocuments(documents);
+    return documents[index];
+};
+
+export const renameDocument = (id: string, name: string) => updateDocument(id, { name });
+
+export const duplicateDocument = (id: string): RoadmapDocument | null => {
+    const original = getDocument(id);
+    if (!original) return null;
+    const now = new Date().toISOString();
+    const copy: RoadmapDocument = { ...original, id: createId(), name: `${original.name} (Copy)`, createdAt: now, updatedAt: now };
+    writeDocuments([...readDocuments(), copy]);
+    return copy;
+};
+
+export const deleteDocument = (id: string) => {
+    writeDocuments(readDocuments().filter(doc => doc.id !== id));
+    if (getCurrentDocumentId() === id) setCurrentDocumentId(null);
+};
+
+// --- Snapshots ---
+
+export const addSnapshot = (documentId: string, name: string, data: RoadmapData): RoadmapSnapshot | null => {
+    const document = getDocument(documentId);
+    if (!document) return null;
+    const snapshot: RoadmapSnapshot = { id: createId(), name, data, createdAt: new Date().toISOString() };
+    updateDocument(documentId, { snapshots: [...document.snapshots, snapshot].slice(-MAX_SNAPSHOTS) });
+    return snapshot;
+};
+
+export const deleteSnapshot = (documentId: string, snapshotId: string) => {
+    const document = getDocument(documentId);
+    if (document) updateDocument(documentId, { snapshots: document.snapshots.filter(snapshot => snapshot.id !== snapshotId) });
+};
+
+// --- Current Document ---
+// Remembers which roadmap was open so it can be restored after a refresh.
+
+export const getCurrentDocumentId = (): string | null => localStorage.getItem(CURRENT_DOCUMENT_KEY);
+
+export const setCurrentDocumentId = (id: string | null) => {
+    if (id) localStorage.setItem(CURRENT_DOCUMENT_KEY, id);
+    else localStorage.removeItem(CURRENT_DOCUMENT_KEY);
+};
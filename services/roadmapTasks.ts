@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task, TaskStatus } from './geminiService';
+
+// --- Deliverable Helpers ---
+// Status metadata and lookups shared by the parser, the validator, the views and the exporters.
+
+export interface TaskStatusStyle {
+    label: string;
+    // Tailwind classes for the status badge.
+    badge: string;
+    // Hex equivalent of the badge color, for rendering outside the DOM.
+    hex: string;
+}
+
+export const TASK_STATUSES: TaskStatus[] = ['planned', 'in-progress', 'done', 'at-risk', 'blocked'];
+
+const TASK_STATUS_STYLES: Record<TaskStatus, TaskStatusStyle> = {
+    'planned': { label: 'Planned', badge: 'bg-gray-700 text-gray-300', hex: '#9ca3af' },
+    'in-progress': { label: 'In progress', badge: 'bg-sky-900/70 text-sky-300', hex: '#38bdf8' },
+    'done': { label: 'Done', badge: 'bg-green-900/70 text-green-300', hex: '#4ade80' },
+    'at-risk': { label: 'At risk', badge: 'bg-amber-900/70 text-amber-300', hex: '#fbbf24' },
+    'blocked': { label: 'Blocked', badge: 'bg-red-900/70 text-red-300', hex: '#f87171' },
+};
+
+export const getTaskStatusStyle = (status: TaskStatus): TaskStatusStyle => TASK_STATUS_STYLES[status];
+
+// Spellings found in spreadsheets, issue trackers and model output.
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+    'planned': 'planned', 'todo': 'planned', 'to do': 'planned', 'open': 'planned', 'backlog': 'planned', 'not started': 'planned', 'new': 'planned',
+    'in progress': 'in-progress', 'in-progress': 'in-progress', 'started': 'in-progress', 'doing': 'in-progress', 'wip': 'in-progress', 'ongoing': 'in-progress', 'in review': 'in-progress',
+    'done': 'done', 'complete': 'done', 'completed': 'done', 'closed': 'done', 'resolved': 'done', 'shipped': 'done', 'released': 'done',
+    'at risk': 'at-risk', 'at-risk': 'at-risk', 'risk': 'at-risk', 'delayed': 'at-risk',
+    'blocked': 'blocked', 'on hold': 'blocked', 'stuck': 'blocked',
+};
+
+/** The status for a free-text value such as "In Progress" or "completed", or null if it is not recognized. */
+export const parseTaskStatus = (value: string): TaskStatus | null =>
+    STATUS_ALIASES[value.trim().toLowerCase().replace(/[_\s]+/g, ' ')] ?? null;
+
+export const createTask = (title: string, id: string, fields: Partial<Omit<Task, 'id' | 'title'>> = {}): Task => ({
+    id,
+    title,
+    status: 'planned',
+    owner: '',
+    progress: 0,
+    tags: [],
+    links: [],
+    dependsOn: [],
+    ...fields,
+});
+
+export interface TaskEntry {
+    task: Task;
+    timeframeId: string;
+    pillarId: string;
+    index: number;
+}
+
+/** Every deliverable with its position, in timeframe order. */
+export const listTasks = (data: RoadmapData): TaskEntry[] =>
+    data.timeframes.flatMap(timeframe => timeframe.deliverables.flatMap(deliverable =>
+        deliverable.tasks.map((task, index) => ({ task, timeframeId: timeframe.id, pillarId: deliverable.pillarId, index }))));
+
+export const findTask = (data: RoadmapData, taskId: string): TaskEntry | null =>
+    listTasks(data).find(entry => entry.task.id === taskId) ?? null;
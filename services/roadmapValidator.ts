@@ -0,0 +1,418 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CommentThread, RoadmapData, Task, TaskLink } from './geminiService';
+import { createTask, parseTaskStatus } from './roadmapTasks';
+import { wouldCreateCycle } from './roadmapDependencies';
+import { getPaletteColor, normalizeHexColor } from './pillarColors';
+
+// --- RoadmapData Validation & Repair ---
+// Model output is untrusted. Everything that can be fixed without guessing is repaired
+// (and reported as such); anything else is reported as an error. Anything the editor can
+// produce, e.g. a roadmap without pillars or timeframes, is valid.
+
+export interface ValidationIssue {
+    // JSON path of the offending value, e.g. "timeframes[1].deliverables[0].pillarId".
+    path: string;
+    message: string;
+    // True when the problem was fixed automatically.
+    repaired: boolean;
+}
+
+export interface ValidationResult {
+    // The repaired roadmap, or null when it has problems that cannot be repaired.
+    data: RoadmapData | null;
+    issues: ValidationIssue[];
+}
+
+export class RoadmapValidationError extends Error {
+    issues: ValidationIssue[];
+
+    constructor(message: string, issues: ValidationIssue[]) {
+        super(message);
+        this.name = 'RoadmapValidationError';
+        this.issues = issues;
+    }
+}
+
+const ROOT_FIELDS = ['title', 'subtitle', 'pillars', 'timeframes', 'threads'];
+const PILLAR_FIELDS = ['id', 'name', 'color'];
+const TIMEFRAME_FIELDS = ['id', 'date', 'name', 'deliverables'];
+const DELIVERABLE_FIELDS = ['pillarId', 'tasks'];
+const TASK_FIELDS = ['id', 'title', 'status', 'owner', 'progress', 'tags', 'description', 'links', 'dependsOn'];
+const COMMENT_TARGET_TYPES = ['task', 'pillar', 'timeframe'];
+// The name of a timeframe that has neither a date nor a name.
+const UNTITLED_TIMEFRAME = 'Untitled';
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const validateRoadmap = (raw: unknown): ValidationResult => {
+    const issues: ValidationIssue[] = [];
+    const repaired = (path: string, message: string) => issues.push({ path, message, repaired: true });
+    const error = (path: string, message: string) => issues.push({ path, message, repaired: false });
+
+    const reportExtraFields = (value: Record<string, unknown>, allowed: string[], path: string) => {
+        Object.keys(value).filter(key => !allowed.includes(key)).forEach(key => {
+            repaired(path ? `${path}.${key}` : key, 'Unexpected field was removed.');
+        });
+    };
+
+    // Strings may arrive as numbers; anything else is replaced by the fallback.
+    const toText = (value: unknown, path: string, fallback: string): string => {
+        if (typeof value === 'string') return value.trim();
+        if (typeof value === 'number') {
+            repaired(path, 'Number was converted to text.');
+            return String(value);
+        }
+        repaired(path, value === undefined ? 'Missing text was set to an empty value.' : 'Invalid value was replaced with empty text.');
+        return fallback;
+    };
+
+    if (!isObject(raw)) {
+        error('', 'The response is not a JSON object.');
+        return { data: null, issues };
+    }
+    reportExtraFields(raw, ROOT_FIELDS, '');
+
+    const data: RoadmapData = {
+        title: toText(raw.title, 'title', ''),
+        subtitle: toText(raw.subtitle, 'subtitle', ''),
+        pillars: [],
+        timeframes: [],
+    };
+
+    // --- Pillars ---
+    // Maps the IDs used by the model to the IDs of the repaired pillar list.
+    const pillarIdMap = new Map<string, string>();
+    const pillarIdsByName = new Map<string, string>();
+    const usedPillarIds = new Set<string>();
+    let nextPillarNumber = 1;
+    const freshPillarId = () => {
+        while (usedPillarIds.has(`p${nextPillarNumber}`)) nextPillarNumber++;
+        return `p${nextPillarNumber}`;
+    };
+
+    if (!Array.isArray(raw.pillars)) {
+        error('pillars', 'The roadmap has no "pillars" array.');
+    } else {
+        // Reserve all well-formed IDs first so that re-keyed pillars never collide with them.
+        raw.pillars.forEach(p => { if (isObject(p) && typeof p.id === 'string') usedPillarIds.add(p.id.trim()); });
+        const seenIds = new Set<string>();
+
+        raw.pillars.forEach((pillar, index) => {
+            const path = `pillars[${index}]`;
+            if (!isObject(pillar)) {
+                repaired(path, 'Pillar is not an object and was removed.');
+                return;
+            }
+            reportExtraFields(pillar, PILLAR_FIELDS, path);
+            const hasName = typeof pillar.name === 'string' || typeof pillar.name === 'number';
+            const name = hasName ? toText(pillar.name, `${path}.name`, '') : '';
+            if (!name) {
+                repaired(path, 'Pillar without a name was removed.');
+                return;
+            }
+            const rawId = typeof pillar.id === 'string' ? pillar.id.trim() : '';
+
+            const existingId = pillarIdsByName.get(name.toLowerCase());
+            if (existingId) {
+                repaired(path, `Duplicate pillar "${name}" was merged into ${existingId}.`);
+                if (rawId && !pillarIdMap.has(rawId)) pillarIdMap.set(rawId, existingId);
+                return;
+            }
+
+            let id = rawId;
+            if (!id || seenIds.has(id)) {
+                id = freshPillarId();
+                usedPillarIds.add(id);
+                repaired(`${path}.id`, rawId ? `Duplicate pillar ID "${rawId}" was re-keyed to "${id}".` : `Missing pillar ID was set to "${id}".`);
+            }
+            seenIds.add(id);
+            // The first pillar that used an ID keeps the deliverables that reference it.
+            if (rawId && !pillarIdMap.has(rawId)) pillarIdMap.set(rawId, id);
+            pillarIdsByName.set(name.toLowerCase(), id);
+            // Missing colors follow the palette order, which is how pillars were colored before colors were stored.
+            let color = normalizeHexColor(pillar.color);
+            if (!color && pillar.color !== undefined && pillar.color !== '') repaired(`${path}.color`, `Invalid color "${String(pillar.color)}" was replaced.`);
+            color ??= getPaletteColor(data.pillars.length);
+            data.pillars.push({ id, name, color });
+        });
+    }
+
+    // --- Deliverables ---
+    // Task IDs are unique across the whole roadmap. Well-formed IDs are reserved up front.
+    const usedTaskIds = new Set<string>();
+    const seenTaskIds = new Set<string>();
+    let nextTaskNumber = 1;
+    if (Array.isArray(raw.timeframes)) {
+        raw.timeframes.filter(isObject).forEach(t => (Array.isArray(t.deliverables) ? t.deliverables : []).filter(isObject).forEach(d => {
+            (Array.isArray(d.tasks) ? d.tasks : []).forEach(task => {
+                if (isObject(task) && typeof task.id === 'string' && task.id.trim()) usedTaskIds.add(task.id.trim());
+            });
+        }));
+    }
+    const taskId = (rawId: unknown, path: string, isPlainText: boolean): string => {
+        const id = typeof rawId === 'string' ? rawId.trim() : '';
+        if (id && !seenTaskIds.has(id)) {
+            seenTaskIds.add(id);
+            return id;
+        }
+        while (usedTaskIds.has(`d${nextTaskNumber}`)) nextTaskNumber++;
+        const freshId = `d${nextTaskNumber}`;
+        usedTaskIds.add(freshId);
+        seenTaskIds.add(freshId);
+        // Plain-string deliverables are expected to get an ID, so that is not reported.
+        if (!isPlainText) repaired(`${path}.id`, id ? `Duplicate deliverable ID "${id}" was re-keyed to "${freshId}".` : `Missing deliverable ID was set to "${freshId}".`);
+        return freshId;
+    };
+
+    // Dependencies are resolved once every task has its final ID.
+    const pendingDependencies: { task: Task; references: unknown; path: string }[] = [];
+    const taskPaths = new Map<Task, string>();
+
+    const toTask = (value: unknown, path: string): Task | null => {
+        if (typeof value === 'string' || typeof value === 'number') {
+            const title = String(value).trim();
+            if (!title) {
+                repaired(path, 'Empty task was removed.');
+                return null;
+            }
+            return createTask(title, taskId(undefined, path, true));
+        }
+        if (!isObject(value)) {
+            repaired(path, 'Task is not text and was removed.');
+            return null;
+        }
+        reportExtraFields(value, TASK_FIELDS, path);
+        const hasTitle = typeof value.title === 'string' || typeof value.title === 'number';
+        const title = hasTitle ? toText(value.title, `${path}.title`, '') : '';
+        if (!title) {
+            repaired(path, 'Task without a title was removed.');
+            return null;
+        }
+        const task = createTask(title, taskId(value.id, path, false));
+
+        if (value.status !== undefined && value.status !== '') {
+            const status = typeof value.status === 'string' ? parseTaskStatus(value.status) : null;
+            if (status) task.status = status;
+            else repaired(`${path}.status`, `Unknown status "${String(value.status)}" was set to "planned".`);
+        }
+        if (value.owner !== undefined) task.owner = toText(value.owner, `${path}.owner`, '');
+        if (value.progress !== undefined) {
+            const progress = typeof value.progress === 'string' ? parseFloat(value.progress) : value.progress;
+            if (typeof progress !== 'number' || !Number.isFinite(progress)) {
+                repaired(`${path}.progress`, 'Invalid progress was set to 0.');
+            } else {
+                task.progress = Math.round(Math.max(0, Math.min(100, progress)));
+                if (task.progress !== progress) repaired(`${path}.progress`, `Progress was clamped to ${task.progress}.`);
+            }
+        }
+        if (value.tags !== undefined) {
+            const tags = typeof value.tags === 'string' ? value.tags.split(',') : Array.isArray(value.tags) ? value.tags : [];
+            if (!Array.isArray(value.tags)) repaired(`${path}.tags`, 'Tags were converted to a list.');
+            task.tags = Array.from(new Set(tags.filter(tag => typeof tag === 'string' || typeof tag === 'number').map(tag => String(tag).trim()).filter(Boolean)));
+        }
+        if (typeof value.description === 'string' && value.description.trim()) task.description = value.description.trim();
+        if (value.links !== undefined) {
+            if (!Array.isArray(value.links)) {
+                repaired(`${path}.links`, 'Links that are not a list were removed.');
+            } else {
+                value.links.forEach((link, linkIndex) => {
+                    const url = typeof link === 'string' ? link.trim() : isObject(link) && typeof link.url === 'string' ? link.url.trim() : '';
+                    if (!url) {
+                        repaired(`${path}.links[${linkIndex}]`, 'Link without a URL was removed.');
+                        return;
+                    }
+                    const label = isObject(link) && typeof link.label === 'string' && link.label.trim() ? link.label.trim() : url;
+                    task.links.push({ label, url } as TaskLink);
+                });
+            }
+        }
+        taskPaths.set(task, path);
+        if (value.dependsOn !== undefined) pendingDependencies.push({ task, references: value.dependsOn, path: `${path}.dependsOn` });
+        return task;
+    };
+
+    // --- Timeframes ---
+    if (!Array.isArray(raw.timeframes)) {
+        error('timeframes', 'The roadmap has no "timeframes" array.');
+    } else {
+        const seenIds = new Set<string>();
+        const usedTimeframeIds = new Set<string>(
+            raw.timeframes.filter(isObject).map(t => (typeof t.id === 'string' ? t.id.trim() : '')).filter(Boolean)
+        );
+        let nextTimeframeNumber = 1;
+
+        raw.timeframes.forEach((timeframe, index) => {
+            const path = `timeframes[${index}]`;
+            if (!isObject(timeframe)) {
+                repaired(path, 'Timeframe is not an object and was removed.');
+                return;
+            }
+            reportExtraFields(timeframe, TIMEFRAME_FIELDS, path);
+
+            const rawId = typeof timeframe.id === 'string' ? timeframe.id.trim() : '';
+            let id = rawId;
+            if (!id || seenIds.has(id)) {
+                while (usedTimeframeIds.has(`t${nextTimeframeNumber}`)) nextTimeframeNumber++;
+                id = `t${nextTimeframeNumber}`;
+                usedTimeframeIds.add(id);
+                repaired(`${path}.id`, rawId ? `Duplicate timeframe ID "${rawId}" was re-keyed to "${id}".` : `Missing timeframe ID was set to "${id}".`);
+            }
+            seenIds.add(id);
+
+            const date = toText(timeframe.date, `${path}.date`, '');
+            let name = toText(timeframe.name, `${path}.name`, '');
+            if (!date && !name) {
+                name = UNTITLED_TIMEFRAME;
+                repaired(`${path}.name`, `Timeframe without a date or name was named "${name}".`);
+            }
+
+            const deliverables: RoadmapData['timeframes'][number]['deliverables'] = [];
+            if (!Array.isArray(timeframe.deliverables)) {
+                repaired(`${path}.deliverables`, 'Missing deliverables array was set to an empty list.');
+            } else {
+                timeframe.deliverables.forEach((deliverable, deliverableIndex) => {
+                    const deliverablePath = `${path}.deliverables[${deliverableIndex}]`;
+                    if (!isObject(deliverable)) {
+                        repaired(deliverablePath, 'Deliverable group is not an object and was removed.');
+                        return;
+                    }
+                    reportExtraFields(deliverable, DELIVERABLE_FIELDS, deliverablePath);
+
+                    const rawPillarId = typeof deliverable.pillarId === 'string' ? deliverable.pillarId.trim() : '';
+                    const pillarId = pillarIdMap.get(rawPillarId);
+                    if (!pillarId) {
+                        repaired(`${deliverablePath}.pillarId`, `Deliverables for unknown pillar "${rawPillarId}" were dropped.`);
+                        return;
+                    }
+
+                    let rawTasks = deliverable.tasks;
+                    if (typeof rawTasks === 'string') {
+                        repaired(`${deliverablePath}.tasks`, 'A single task string was converted to a list.');
+                        rawTasks = [rawTasks];
+                    }
+                    if (!Array.isArray(rawTasks)) {
+                        repaired(`${deliverablePath}.tasks`, 'Missing tasks array was set to an empty list.');
+                        rawTasks = [];
+                    }
+                    const tasks: Task[] = [];
+                    (rawTasks as unknown[]).forEach((task, taskIndex) => {
+                        const normalized = toTask(task, `${deliverablePath}.tasks[${taskIndex}]`);
+                        if (normalized) tasks.push(normalized);
+                    });
+
+                    // Several groups for the same pillar are merged into one.
+                    const existing = deliverables.find(d => d.pillarId === pillarId);
+                    if (existing) {
+                        repaired(deliverablePath, `Duplicate deliverable group for pillar "${pillarId}" was merged.`);
+                        existing.tasks.push(...tasks);
+                    } else {
+                        deliverables.push({ pillarId, tasks });
+                    }
+                });
+            }
+
+            // Plain-text duplicates (same title, nothing else set) within a cell are removed.
+            deliverables.forEach(deliverable => {
+                const titles = new Set<string>();
+                const unique = deliverable.tasks.filter(task => {
+                    const isPlain = task.status === 'planned' && !task.owner && !task.progress && task.tags.length === 0 && !task.description && task.links.length === 0;
+                    if (isPlain && titles.has(task.title)) return false;
+                    titles.add(task.title);
+                    return true;
+                });
+                if (unique.length !== deliverable.tasks.length) {
+                    repaired(`${path}.deliverables`, `Duplicate tasks for pillar "${deliverable.pillarId}" were removed.`);
+                    deliverable.tasks = unique;
+                }
+            });
+
+            data.timeframes.push({ id, date, name, deliverables });
+        });
+    }
+
+    // --- Dependencies ---
+    const allTasks = data.timeframes.flatMap(t => t.deliverables.flatMap(d => d.tasks));
+    const resolveTask = (reference: string) =>
+        allTasks.find(task => task.id === reference) ?? allTasks.find(task => task.title.toLowerCase() === reference.toLowerCase());
+    pendingDependencies.forEach(({ task, references, path }) => {
+        const list = typeof references === 'string' ? [references] : references;
+        if (!Array.isArray(list)) {
+            repaired(path, 'Dependencies that are not a list were removed.');
+            return;
+        }
+        // References are IDs, but models sometimes use the title instead.
+        list.forEach((reference, index) => {
+            const target = typeof reference === 'string' ? resolveTask(reference.trim()) : undefined;
+            if (target) task.dependsOn.push(target.id);
+            else repaired(`${path}[${index}]`, `Dependency on unknown deliverable "${String(reference)}" was removed.`);
+        });
+        const unique = Array.from(new Set(task.dependsOn)).filter(id => id !== task.id);
+        if (unique.length !== task.dependsOn.length) repaired(path, 'Duplicate or self-referencing dependencies were removed.');
+        task.dependsOn = unique;
+    });
+    // Drop the edges that close a cycle, keeping the ones that were declared first.
+    allTasks.forEach(task => {
+        const dependsOn = task.dependsOn;
+        task.dependsOn = [];
+        dependsOn.forEach(id => {
+            if (wouldCreateCycle(data, task.id, id)) repaired(`${taskPaths.get(task)}.dependsOn`, `Dependency of "${task.id}" on "${id}" would create a cycle and was removed.`);
+            else task.dependsOn.push(id);
+        });
+    });
+
+    // --- Comment Threads ---
+    // Threads are kept as long as what they are about still exists. Pillar IDs follow the re-keyed pillars.
+    if (Array.isArray(raw.threads)) {
+        const threads: CommentThread[] = [];
+        const seenIds = new Set<string>();
+        const targetId = (type: string, id: string) => {
+            if (type === 'pillar') return pillarIdMap.get(id);
+            if (type === 'timeframe') return data.timeframes.some(t => t.id === id) ? id : undefined;
+            return allTasks.some(task => task.id === id) ? id : undefined;
+        };
+        raw.threads.forEach((thread, index) => {
+            const path = `threads[${index}]`;
+            const target = isObject(thread) && isObject(thread.target) ? thread.target : null;
+            if (!isObject(thread) || typeof thread.id !== 'string' || !thread.id || seenIds.has(thread.id) || !target) {
+                repaired(path, 'Invalid comment thread was removed.');
+                return;
+            }
+            const type = String(target.type);
+            const id = COMMENT_TARGET_TYPES.includes(type) && typeof target.id === 'string' ? targetId(type, target.id) : undefined;
+            if (!id) {
+                repaired(path, `Comment thread about unknown ${type} "${String(target.id)}" was removed.`);
+                return;
+            }
+            const comments = (Array.isArray(thread.comments) ? thread.comments : []).filter(isObject).flatMap(comment => {
+                if (typeof comment.id !== 'string' || typeof comment.text !== 'string' || !comment.text.trim()) return [];
+                return [{
+                    id: comment.id,
+                    author: typeof comment.author === 'string' ? comment.author : '',
+                    text: comment.text.trim(),
+                    mentions: Array.isArray(comment.mentions) ? comment.mentions.filter((name): name is string => typeof name === 'string') : [],
+                    createdAt: typeof comment.createdAt === 'string' ? comment.createdAt : '',
+                }];
+            });
+            if (comments.length === 0) {
+                repaired(path, 'Comment thread without comments was removed.');
+                return;
+            }
+            seenIds.add(thread.id);
+            threads.push({ id: thread.id, target: { type: type as CommentThread['target']['type'], id }, resolved: thread.resolved === true, comments });
+        });
+        if (threads.length > 0) data.threads = threads;
+    } else if (raw.threads !== undefined) {
+        repaired('threads', 'Comment threads that are not a list were removed.');
+    }
+
+    return { data: issues.some(issue => !issue.repaired) ? null : data, issues };
+};
+
+/** A plain-text list of issues, e.g. to send back to the model or to show to the user. */
+export const formatValidationIssues = (issues: ValidationIssue[]) =>
+    issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}${issue.repaired ? ' (repaired)' : ''}`).join('\n');
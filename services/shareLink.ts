@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from './geminiService';
+import type { EditorViewMode } from './svgRenderer';
+import { isObject, validateRoadmap, RoadmapValidationError } from './roadmapValidator';
+import { EMPTY_FILTER, sanitizeFilter } from './roadmapFilter';
+import type { RoadmapFilter } from './roadmapFilter';
+
+// --- Shareable Links ---
+// The roadmap and the editor state are compressed into the URL hash, so a link opens the editor
+// without a server, a saved document or an AI call. The hash is never sent to the server.
+
+export interface SharedRoadmapState {
+    data: RoadmapData;
+    view: EditorViewMode;
+    filter: RoadmapFilter;
+}
+
+const HASH_PREFIX = 'roadmap=';
+const FORMAT_VERSION = 1;
+const VIEW_MODES: EditorViewMode[] = ['pillar', 'timeline', 'gantt'];
+
+// --- Encoding ---
+// JSON, deflated, as URL-safe base64.
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    // In chunks, since spreading a large array into fromCharCode overflows the stack.
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/** True when the hash (with or without the leading "#") contains a shared roadmap. */
+export const hasSharedState = (hash: string) => hash.replace(/^#/, '').startsWith(HASH_PREFIX);
+
+/** The URL hash, without the leading "#", for the given state. */
+export const encodeSharedState = async (state: SharedRoadmapState): Promise<string> => {
+    if (typeof CompressionStream === 'undefined') throw new Error('This browser cannot create shareable links.');
+    const json = JSON.stringify({ version: FORMAT_VERSION, ...state });
+    const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+    return HASH_PREFIX + toBase64Url(compressed);
+};
+
+/** The state in the URL hash, or null if there is none. Throws if the link is damaged. */
+export const decodeSharedState = async (hash: string): Promise<SharedRoadmapState | null> => {
+    if (!hasSharedState(hash)) return null;
+    let parsed: unknown;
+    try {
+        const bytes = fromBase64Url(hash.replace(/^#/, '').slice(HASH_PREFIX.length));
+        const json = new TextDecoder().decode(await pipeBytes(bytes, new DecompressionStream('deflate-raw')));
+        parsed = JSON.parse(json);
+    } catch (e) {
+        console.error('[Share Link] Could not read the link:', e);
+        throw new Error('The link is incomplete or damaged. Ask for it to be shared again.');
+    }
+    if (!isObject(parsed)) throw new Error('The link is incomplete or damaged. Ask for it to be shared again.');
+    if (typeof parsed.version !== 'number' || parsed.version > FORMAT_VERSION) {
+        throw new Error('The link was created by a newer version of this app.');
+    }
+    const result = validateRoadmap(parsed.data);
+    if (!result.data) throw new RoadmapValidationError('The link does not contain a usable roadmap.', result.issues);
+    return {
+        data: result.data,
+        view: VIEW_MODES.find(mode => mode === parsed.view) ?? 'pillar',
+        // Links created before filters existed have none.
+        filter: parsed.filter ? sanitizeFilter(parsed.filter) : EMPTY_FILTER,
+    };
+};
+
+/** A full link to the current page that opens the given state. */
+export const createShareUrl = async (state: SharedRoadmapState): Promise<string> =>
+    `${window.location.origin}${window.location.pathname}${window.location.search}#${await encodeSharedState(state)}`;
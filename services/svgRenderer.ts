@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData, Task } from './geminiService';
+import { getPillarColor } from './pillarColors';
+import { getTaskStatusStyle } from './roadmapTasks';
+
+// --- Static SVG Renderer ---
+// Renders the pillar and timeline views straight from RoadmapData, without the DOM,
+// so the output is independent of the editor toolbar, scroll position and window size.
+
+export type RoadmapViewMode = 'pillar' | 'timeline';
+
+// The editor also has a Gantt view, which is exported as a timeline.
+export type EditorViewMode = RoadmapViewMode | 'gantt';
+
+export interface RenderedSvg {
+    svg: string;
+    width: number;
+    height: number;
+}
+
+const FONT_FAMILY = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+const COLORS = {
+    background: '#111827',
+    card: '#1f2937',
+    title: '#f3f4f6',
+    heading: '#d1d5db',
+    text: '#9ca3af',
+    axis: '#4b5563',
+    marker: '#e5e7eb',
+};
+
+const PADDING = 40;
+const LINE_HEIGHT = 20;
+const TASK_FONT_SIZE = 14;
+
+export const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// SVG has no automatic line wrapping, so text is wrapped using an average glyph width.
+const wrapText = (text: string, maxWidth: number, fontSize: number): string[] => {
+    const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * 0.55)));
+    const lines: string[] = [];
+    let current = '';
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+        while (word.length > maxChars) {
+            if (current) {
+                lines.push(current);
+                current = '';
+            }
+            lines.push(word.slice(0, maxChars));
+            word = word.slice(maxChars);
+        }
+        if (!current) current = word;
+        else if (current.length + 1 + word.length <= maxChars) current += ` ${word}`;
+        else {
+            lines.push(current);
+            current = word;
+        }
+    });
+    if (current) lines.push(current);
+    return lines.length > 0 ? lines : [''];
+};
+
+const text = (x: number, y: number, content: string, attrs: string) =>
+    `<text x="${x}" y="${y}" ${attrs}>${escapeXml(content)}</text>`;
+
+// Planned deliverables get a plain bullet; any other status is shown as a colored dot.
+const taskBullet = (x: number, baselineY: number, task: Task) =>
+    task.status === 'planned'
+        ? text(x, baselineY, '•', `font-size="${TASK_FONT_SIZE}" fill="${COLORS.text}"`)
+        : `<circle cx="${x + 3}" cy="${baselineY - 4}" r="4" fill="${getTaskStatusStyle(task.status).hex}"><title>${escapeXml(getTaskStatusStyle(task.status).label)}</title></circle>`;
+
+const renderHeader = (data: RoadmapData, width: number): { markup: string[]; height: number } => {
+    const markup: string[] = [];
+    let y = PADDING;
+    wrapText(data.title, width - PADDING * 2, 28).forEach(line => {
+        y += 34;
+        markup.push(text(width / 2, y, line, `font-size="28" font-weight="700" fill="${COLORS.title}" text-anchor="middle"`));
+    });
+    if (data.subtitle) {
+        y += 28;
+        markup.push(text(width / 2, y, data.subtitle, `font-size="16" fill="${COLORS.text}" text-anchor="middle"`));
+    }
+    return { markup, height: y };
+};
+
+const wrapSvg = (markup: string[], width: number, height: number): RenderedSvg => ({
+    width,
+    height,
+    svg: [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT_FAMILY)}">`,
+        `<rect width="100%" height="100%" fill="${COLORS.background}"/>`,
+        ...markup,
+        '</svg>',
+    ].join('\n'),
+});
+
+// A colored card with a pillar heading and a bulleted task list, as used by the timeline view.
+const renderPillarBlock = (x: number, y: number, width: number, pillarName: string, tasks: Task[], color: { accent: string; background: string }) => {
+    const taskLines = tasks.map(task => wrapText(task.title, width - 40, TASK_FONT_SIZE));
+    const height = 12 + LINE_HEIGHT + 6 + taskLines.reduce((sum, lines) => sum + lines.length, 0) * LINE_HEIGHT + 10;
+    const markup = [
+        `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="${color.background}" fill-opacity="0.5"/>`,
+        `<rect x="${x}" y="${y}" width="4" height="${height}" rx="2" fill="${color.accent}"/>`,
+        `<circle cx="${x + 20}" cy="${y + 12 + 14}" r="5" fill="${color.accent}"/>`,
+        text(x + 32, y + 12 + 15, pillarName, `font-size="15" font-weight="600" fill="${COLORS.heading}"`),
+    ];
+    let lineY = y + 12 + LINE_HEIGHT + 6;
+    taskLines.forEach((lines, taskIndex) => {
+        lines.forEach((line, lineIndex) => {
+            lineY += LINE_HEIGHT;
+            if (lineIndex === 0) markup.push(taskBullet(x + 18, lineY - 5, tasks[taskIndex]));
+            markup.push(text(x + 30, lineY - 5, line, `font-size="${TASK_FONT_SIZE}" fill="${COLORS.text}"`));
+        });
+    });
+    return { markup, height };
+};
+
+// --- Timeline View ---
+
+const TIMELINE_COLUMN_WIDTH = 320;
+const TIMELINE_COLUMN_PADDING = 16;
+
+export const renderTimelineSvg = (data: RoadmapData): RenderedSvg => {
+    const width = Math.max(640, PADDING * 2 + data.timeframes.length * TIMELINE_COLUMN_WIDTH);
+    const header = renderHeader(data, width);
+    const axisY = header.height + 48 + 64;
+    const markup = [...header.markup];
+    let contentBottom = axisY;
+
+    markup.push(`<line x1="${PADDING}" y1="${axisY}" x2="${width - PADDING}" y2="${axisY}" stroke="${COLORS.axis}" stroke-width="2"/>`);
+
+    data.timeframes.forEach((timeframe, columnIndex) => {
+        const columnX = PADDING + columnIndex * TIMELINE_COLUMN_WIDTH;
+        const centerX = columnX + TIMELINE_COLUMN_WIDTH / 2;
+        const cardX = columnX + TIMELINE_COLUMN_PADDING;
+        const cardWidth = TIMELINE_COLUMN_WIDTH - TIMELINE_COLUMN_PADDING * 2;
+
+        markup.push(text(centerX, axisY - 16, timeframe.date, `font-size="14" font-weight="600" fill="${COLORS.heading}" text-anchor="middle"`));
+        markup.push(`<circle cx="${centerX}" cy="${axisY}" r="6" fill="${COLORS.marker}" stroke="${COLORS.background}" stroke-width="4"/>`);
+
+        let y = axisY + 32;
+        wrapText(timeframe.name, cardWidth, 18).forEach(line => {
+            y += 22;
+            markup.push(text(centerX, y, line, `font-size="18" font-weight="700" fill="${COLORS.title}" text-anchor="middle"`));
+        });
+        y += 16;
+
+        data.pillars.forEach(pillar => {
+            const tasks = timeframe.deliverables.find(d => d.pillarId === pillar.id)?.tasks ?? [];
+            if (tasks.length === 0) return;
+            const block = renderPillarBlock(cardX, y, cardWidth, pillar.name, tasks, getPillarColor(pillar.color).hex);
+            markup.push(...block.markup);
+            y += block.height + 16;
+        });
+        contentBottom = Math.max(contentBottom, y);
+    });
+
+    return wrapSvg(markup, width, contentBottom + PADDING);
+};
+
+// --- Pillar View ---
+
+const PILLAR_COLUMN_WIDTH = 300;
+const PILLAR_COLUMN_GAP = 24;
+
+export const renderPillarSvg = (data: RoadmapData): RenderedSvg => {
+    const columns = Math.max(1, data.pillars.length);
+    const width = Math.max(640, PADDING * 2 + columns * PILLAR_COLUMN_WIDTH + (columns - 1) * PILLAR_COLUMN_GAP);
+    const header = renderHeader(data, width);
+    const markup = [...header.markup];
+    const top = header.height + 40;
+    let contentBottom = top;
+
+    data.pillars.forEach((pillar, pillarIndex) => {
+        const color = getPillarColor(pillar.color).hex;
+        const x = PADDING + pillarIndex * (PILLAR_COLUMN_WIDTH + PILLAR_COLUMN_GAP);
+        const nameLines = wrapText(pillar.name, PILLAR_COLUMN_WIDTH - 48, 18);
+        const headerHeight = 24 + nameLines.length * 24;
+
+        markup.push(`<rect x="${x}" y="${top}" width="${PILLAR_COLUMN_WIDTH}" height="${headerHeight}" rx="8" fill="${color.background}" fill-opacity="0.5"/>`);
+        markup.push(`<rect x="${x}" y="${top}" width="4" height="${headerHeight}" rx="2" fill="${color.accent}"/>`);
+        markup.push(`<circle cx="${x + 22}" cy="${top + 12 + 15}" r="6" fill="${color.accent}"/>`);
+        nameLines.forEach((line, i) => {
+            markup.push(text(x + 36, top + 12 + 21 + i * 24, line, `font-size="18" font-weight="700" fill="${COLORS.title}"`));
+        });
+
+        let y = top + headerHeight + 24;
+        data.timeframes.forEach(timeframe => {
+            const tasks = timeframe.deliverables.find(d => d.pillarId === pillar.id)?.tasks ?? [];
+            if (tasks.length === 0) return;
+            const headingLines = wrapText(`${timeframe.name} (${timeframe.date})`, PILLAR_COLUMN_WIDTH - 32, 15);
+            const taskLines = tasks.map(task => wrapText(task.title, PILLAR_COLUMN_WIDTH - 52, TASK_FONT_SIZE));
+            const height = 16 + headingLines.length * LINE_HEIGHT + 8 + taskLines.reduce((sum, lines) => sum + lines.length, 0) * LINE_HEIGHT + 16;
+
+            markup.push(`<rect x="${x}" y="${y}" width="${PILLAR_COLUMN_WIDTH}" height="${height}" rx="8" fill="${COLORS.card}" fill-opacity="0.6"/>`);
+            let lineY = y + 16;
+            headingLines.forEach(line => {
+                lineY += LINE_HEIGHT;
+                markup.push(text(x + 16, lineY - 5, line, `font-size="15" font-weight="600" fill="${COLORS.heading}"`));
+            });
+            lineY += 8;
+            taskLines.forEach((lines, taskIndex) => {
+                lines.forEach((line, lineIndex) => {
+                    lineY += LINE_HEIGHT;
+                    if (lineIndex === 0) markup.push(taskBullet(x + 18, lineY - 5, tasks[taskIndex]));
+                    markup.push(text(x + 32, lineY - 5, line, `font-size="${TASK_FONT_SIZE}" fill="${COLORS.text}"`));
+                });
+            });
+            y += height + 24;
+        });
+        contentBottom = Math.max(contentBottom, y);
+    });
+
+    return wrapSvg(markup, width, contentBottom + PADDING);
+};
+
+export const renderRoadmapSvg = (data: RoadmapData, viewMode: RoadmapViewMode): RenderedSvg =>
+    viewMode === 'pillar' ? renderPillarSvg(data) : renderTimelineSvg(data);
+
+/**
+ * Splits a wide roadmap into page-sized roadmaps: timeframes for the timeline view,
+ * pillars for the pillar view.
+ */
+export const paginateRoadmap = (data: RoadmapData, viewMode: RoadmapViewMode, itemsPerPage: number): RoadmapData[] => {
+    const pages: RoadmapData[] = [];
+    if (viewMode === 'timeline') {
+        for (let i = 0; i < data.timeframes.length; i += itemsPerPage) {
+            pages.push({ ...data, timeframes: data.timeframes.slice(i, i + itemsPerPage) });
+        }
+    } else {
+        for (let i = 0; i < data.pillars.length; i += itemsPerPage) {
+            pages.push({ ...data, pillars: data.pillars.slice(i, i + itemsPerPage) });
+        }
+    }
+    return pages.length > 0 ? pages : [data];
+};
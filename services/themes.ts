@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Themes ---
+// The Tailwind colors used by the app are CSS variables (see the config in index.html). A theme
+// sets those variables, so every component follows it without theme-specific classes. The light
+// theme mirrors each scale (gray-900 becomes nearly white, gray-200 nearly black), so that the
+// dark-first class names keep their meaning of "background" and "text".
+
+export type ThemeId = 'dark' | 'light' | 'high-contrast';
+
+export const THEMES: { id: ThemeId; label: string }[] = [
+    { id: 'dark', label: 'Dark' },
+    { id: 'light', label: 'Light (print-friendly)' },
+    { id: 'high-contrast', label: 'High contrast' },
+];
+
+const THEME_KEY = 'roadmap-editor:theme';
+
+type Shade = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+type Scale = Record<Shade, string>;
+
+const SHADES: Shade[] = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// Tailwind's default values for the color scales the app uses.
+const TAILWIND_COLORS: Record<string, Scale> = {
+    gray: { 50: '#f9fafb', 100: '#f3f4f6', 200: '#e5e7eb', 300: '#d1d5db', 400: '#9ca3af', 500: '#6b7280', 600: '#4b5563', 700: '#374151', 800: '#1f2937', 900: '#111827', 950: '#030712' },
+    blue: { 50: '#eff6ff', 100: '#dbeafe', 200: '#bfdbfe', 300: '#93c5fd', 400: '#60a5fa', 500: '#3b82f6', 600: '#2563eb', 700: '#1d4ed8', 800: '#1e40af', 900: '#1e3a8a', 950: '#172554' },
+    green: { 50: '#f0fdf4', 100: '#dcfce7', 200: '#bbf7d0', 300: '#86efac', 400: '#4ade80', 500: '#22c55e', 600: '#16a34a', 700: '#15803d', 800: '#166534', 900: '#14532d', 950: '#052e16' },
+    amber: { 50: '#fffbeb', 100: '#fef3c7', 200: '#fde68a', 300: '#fcd34d', 400: '#fbbf24', 500: '#f59e0b', 600: '#d97706', 700: '#b45309', 800: '#92400e', 900: '#78350f', 950: '#451a03' },
+    yellow: { 50: '#fefce8', 100: '#fef9c3', 200: '#fef08a', 300: '#fde047', 400: '#facc15', 500: '#eab308', 600: '#ca8a04', 700: '#a16207', 800: '#854d0e', 900: '#713f12', 950: '#422006' },
+    red: { 50: '#fef2f2', 100: '#fee2e2', 200: '#fecaca', 300: '#fca5a5', 400: '#f87171', 500: '#ef4444', 600: '#dc2626', 700: '#b91c1c', 800: '#991b1b', 900: '#7f1d1d', 950: '#450a0a' },
+    sky: { 50: '#f0f9ff', 100: '#e0f2fe', 200: '#bae6fd', 300: '#7dd3fc', 400: '#38bdf8', 500: '#0ea5e9', 600: '#0284c7', 700: '#0369a1', 800: '#075985', 900: '#0c4a6e', 950: '#082f49' },
+};
+
+// How each theme derives a scale from Tailwind's: by pointing shades at other shades, or at fixed colors.
+type ShadeMap = Partial<Record<Shade, Shade | string>>;
+
+const THEME_SHADES: Record<ThemeId, { gray: ShadeMap; accents: ShadeMap }> = {
+    dark: { gray: {}, accents: {} },
+    light: {
+        gray: { 50: 950, 100: 900, 200: 800, 300: 700, 400: 600, 600: 400, 700: 300, 800: 100, 900: '#ffffff', 950: '#ffffff' },
+        // Buttons (500-700) keep their color, so white text on them stays readable.
+        accents: { 50: 950, 100: 900, 200: 800, 300: 700, 400: 600, 800: 200, 900: 100, 950: 50 },
+    },
+    'high-contrast': {
+        gray: { 50: '#ffffff', 100: '#ffffff', 200: '#ffffff', 300: '#ffffff', 400: 100, 500: 300, 600: 400, 700: 500, 800: '#000000', 900: '#000000', 950: '#000000' },
+        accents: { 300: 200, 400: 300, 800: 900, 900: 950 },
+    },
+};
+
+const isThemeId = (value: unknown): value is ThemeId => THEMES.some(theme => theme.id === value);
+
+export const loadTheme = (): ThemeId => {
+    try {
+        const stored = localStorage.getItem(THEME_KEY);
+        return isThemeId(stored) ? stored : 'dark';
+    } catch (e) {
+        console.error('[Themes] Could not read the stored theme:', e);
+        return 'dark';
+    }
+};
+
+export const saveTheme = (theme: ThemeId) => {
+    localStorage.setItem(THEME_KEY, theme);
+};
+
+const toChannels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+
+/** The color variables of the theme, e.g. `--color-gray-900: 17 24 39`. */
+export const getThemeVariables = (theme: ThemeId): Record<string, string> => Object.fromEntries(
+    Object.entries(TAILWIND_COLORS).flatMap(([name, scale]) => {
+        const shades = name === 'gray' ? THEME_SHADES[theme].gray : THEME_SHADES[theme].accents;
+        return SHADES.map(shade => {
+            const target = shades[shade] ?? shade;
+            return [`--color-${name}-${shade}`, toChannels(typeof target === 'number' ? scale[target] : target)];
+        });
+    }),
+);
+
+/** Sets the color variables of the theme on the page. */
+export const applyTheme = (theme: ThemeId) => {
+    const root = document.documentElement;
+    Object.entries(getThemeVariables(theme)).forEach(([name, value]) => root.style.setProperty(name, value));
+    root.dataset.theme = theme;
+    // Native controls and scrollbars.
+    root.style.colorScheme = theme === 'light' ? 'light' : 'dark';
+};
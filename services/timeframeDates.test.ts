@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTimeframeDates } from './timeframeDates';
+
+// --- Timeframe Dates ---
+// The Gantt view places a timeframe by the range parsed from its free-text date.
+
+const rangeOf = (text: string) => {
+    const range = parseTimeframeDates(text);
+    return range && [range.start, range.end].map(date => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`);
+};
+
+test('quarters and halves', () => {
+    assert.deepEqual(rangeOf('2025 - Q1 & Q2'), ['2025-01-01', '2025-07-01']);
+    assert.deepEqual(rangeOf('Q4 2025 - Q1 2026'), ['2025-10-01', '2026-04-01']);
+    assert.deepEqual(rangeOf('H2 2026'), ['2026-07-01', '2027-01-01']);
+    assert.deepEqual(rangeOf('1H 2026'), ['2026-01-01', '2026-07-01']);
+});
+
+test('month ranges, including ones that cross a year', () => {
+    assert.deepEqual(rangeOf('Jan - Mar 2025'), ['2025-01-01', '2025-04-01']);
+    assert.deepEqual(rangeOf('Nov - Feb 2026'), ['2025-11-01', '2026-03-01']);
+});
+
+test('ISO days and months', () => {
+    assert.deepEqual(rangeOf('2025-01-15 - 2025-03-31'), ['2025-01-15', '2025-04-01']);
+    assert.deepEqual(rangeOf('2025-03'), ['2025-03-01', '2025-04-01']);
+});
+
+test('whole years and year ranges', () => {
+    assert.deepEqual(rangeOf('2025'), ['2025-01-01', '2026-01-01']);
+    assert.deepEqual(rangeOf('2025-2026'), ['2025-01-01', '2027-01-01']);
+});
+
+test('years joined to a quarter or half by a dash', () => {
+    assert.deepEqual(rangeOf('2025-Q1'), ['2025-01-01', '2025-04-01']);
+    assert.deepEqual(rangeOf('2025-H2'), ['2025-07-01', '2026-01-01']);
+    assert.deepEqual(rangeOf('Q3-2025'), ['2025-07-01', '2025-10-01']);
+});
+
+test('periods out of order after a leading year continue into the next year', () => {
+    assert.deepEqual(rangeOf('2025 Q4 - Q1'), ['2025-10-01', '2026-04-01']);
+});
+
+test('text without a date', () => {
+    assert.equal(rangeOf('Foundations'), null);
+    assert.equal(rangeOf('Q1 & Q2'), null);
+    assert.equal(rangeOf(''), null);
+});
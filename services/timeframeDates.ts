@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from './geminiService';
+
+type Timeframe = RoadmapData['timeframes'][number];
+
+// --- Timeframe Dates ---
+// Timeframe dates are free text, e.g. "2025 - Q1 & Q2", "H2 2026", "Jan - Mar 2025", "2025-2026" or "2025-01-15 - 2025-03-31".
+// They are normalized to a start and an end date for the Gantt view.
+
+export interface DateRange {
+    start: Date;
+    // Exclusive: the first day after the range.
+    end: Date;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Year range ("2025-2026"), ISO day, ISO month, quarter, half, month name and year ("2025", "FY2025" or "'25"),
+// in that order of precedence.
+const TOKEN_RE = new RegExp([
+    String.raw`(?<![\d-])(?:fy\s?)?(?<fromYear>\d{4})-(?:fy\s?)?(?<toYear>\d{4})(?![\d-])`,
+    String.raw`(?<isoDay>\d{4}-\d{1,2}-\d{1,2})`,
+    String.raw`(?<isoMonth>\d{4}-\d{1,2})(?![\d-])`,
+    String.raw`(?<![a-z])q(?<quarter>[1-4])(?!\d)`,
+    String.raw`(?<![a-z\d])(?:h(?<half>[12])|(?<halfPrefix>[12])h)(?![a-z\d])`,
+    String.raw`\b(?<month>jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?`,
+    // A dash may join the year to a quarter or half ("2025-Q1", "Q3-2025"), but not to other numbers.
+    String.raw`(?<!\d)(?<!(?<!q[1-4]|h[12]|[12]h)-)(?:fy\s?)?(?<year>\d{4})(?!\d)(?!-(?!q[1-4]|h[12]|[12]h))`,
+    String.raw`['’](?<shortYear>\d{2})(?!\d)`,
+].join('|'), 'gi');
+
+// A period without a year: the month it starts in and how many months it lasts.
+type Period = { month: number; length: number };
+
+type Token =
+    | { kind: 'year'; year: number }
+    | { kind: 'period'; period: Period }
+    | { kind: 'range'; range: DateRange };
+
+const tokenize = (text: string): Token[] => Array.from(text.matchAll(TOKEN_RE)).flatMap((match): Token | Token[] => {
+    const groups = match.groups!;
+    if (groups.fromYear) return [{ kind: 'year', year: Number(groups.fromYear) }, { kind: 'year', year: Number(groups.toYear) }];
+    if (groups.isoDay) {
+        const [year, month, day] = groups.isoDay.split('-').map(Number);
+        return { kind: 'range', range: { start: new Date(year, month - 1, day), end: new Date(year, month - 1, day + 1) } };
+    }
+    if (groups.isoMonth) {
+        const [year, month] = groups.isoMonth.split('-').map(Number);
+        return { kind: 'range', range: { start: new Date(year, month - 1, 1), end: new Date(year, month, 1) } };
+    }
+    if (groups.quarter) return { kind: 'period', period: { month: (Number(groups.quarter) - 1) * 3, length: 3 } };
+    if (groups.half || groups.halfPrefix) return { kind: 'period', period: { month: (Number(groups.half || groups.halfPrefix) - 1) * 6, length: 6 } };
+    if (groups.month) return { kind: 'period', period: { month: MONTHS.indexOf(groups.month.toLowerCase()), length: 1 } };
+    return { kind: 'year', year: groups.year ? Number(groups.year) : 2000 + Number(groups.shortYear) };
+});
+
+const periodRange = (year: number, { month, length }: Period): DateRange => ({
+    start: new Date(year, month, 1),
+    end: new Date(year, month + length, 1),
+});
+
+/** The date range of a timeframe's date text, or null if it does not contain a recognizable date. */
+export const parseTimeframeDates = (text: string): DateRange | null => {
+    const tokens = tokenize(text);
+    const ranges: DateRange[] = [];
+    const firstYear = tokens.findIndex(t => t.kind === 'year');
+    const firstPeriod = tokens.findIndex(t => t.kind === 'period');
+
+    if (firstPeriod === -1) {
+        tokens.forEach(token => {
+            if (token.kind === 'range') ranges.push(token.range);
+            if (token.kind === 'year') ranges.push({ start: new Date(token.year, 0, 1), end: new Date(token.year + 1, 0, 1) });
+        });
+    } else {
+        if (firstYear === -1) {
+            // "Q1 & Q2" alone cannot be placed; ISO dates next to it still can.
+            tokens.forEach(token => token.kind === 'range' && ranges.push(token.range));
+            return mergeRanges(ranges);
+        }
+        // "2025 - Q3 & 2026 - Q1" puts the year first, "Q4 2025 - Q1 2026" puts it last.
+        const yearFirst = firstYear < firstPeriod;
+        const yearFor = (index: number): number => {
+            const before = tokens.slice(0, index).reverse().find(t => t.kind === 'year');
+            const after = tokens.slice(index + 1).find(t => t.kind === 'year');
+            const year = (yearFirst ? before ?? after : after ?? before) as { year: number };
+            return year.year;
+        };
+        const periods: DateRange[] = [];
+        tokens.forEach((token, index) => {
+            if (token.kind === 'range') ranges.push(token.range);
+            if (token.kind === 'period') periods.push(periodRange(yearFor(index), token.period));
+        });
+        // "Nov - Feb 2026" crosses into the year it names, "2025 Q4 - Q1" crosses out of it.
+        const shift = ({ start, end }: DateRange, years: number): DateRange => ({
+            start: new Date(start.getFullYear() + years, start.getMonth(), 1),
+            end: new Date(end.getFullYear() + years, end.getMonth(), 1),
+        });
+        if (yearFirst) {
+            for (let i = 1; i < periods.length; i++) {
+                if (periods[i - 1].start > periods[i].start) periods[i] = shift(periods[i], 1);
+            }
+        } else {
+            for (let i = periods.length - 2; i >= 0; i--) {
+                if (periods[i].start > periods[i + 1].start) periods[i] = shift(periods[i], -1);
+            }
+        }
+        ranges.push(...periods);
+    }
+    return mergeRanges(ranges);
+};
+
+const mergeRanges = (ranges: DateRange[]): DateRange | null => {
+    if (ranges.length === 0) return null;
+    return {
+        start: new Date(Math.min(...ranges.map(r => r.start.getTime()))),
+        end: new Date(Math.max(...ranges.map(r => r.end.getTime()))),
+    };
+};
+
+export interface ScheduledTimeframe {
+    timeframe: Timeframe;
+    range: DateRange;
+}
+
+/** Splits the timeframes into those with a recognizable date range and those without one. */
+export const scheduleTimeframes = (data: RoadmapData): { scheduled: ScheduledTimeframe[]; unscheduled: Timeframe[] } => {
+    const scheduled: ScheduledTimeframe[] = [];
+    const unscheduled: Timeframe[] = [];
+    data.timeframes.forEach(timeframe => {
+        const range = parseTimeframeDates(timeframe.date) ?? parseTimeframeDates(timeframe.name);
+        if (range) scheduled.push({ timeframe, range });
+        else unscheduled.push(timeframe);
+    });
+    return { scheduled, unscheduled };
+};
+
+/** A short label such as "Jan 2025 – Jun 2025", for tooltips. */
+export const formatDateRange = ({ start, end }: DateRange): string => {
+    const last = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 1);
+    const wholeMonths = start.getDate() === 1 && end.getDate() === 1;
+    const format = (date: Date) => date.toLocaleDateString(undefined, wholeMonths ? { month: 'short', year: 'numeric' } : { day: 'numeric', month: 'short', year: 'numeric' });
+    const first = format(start);
+    const final = format(last);
+    return first === final ? first : `${first} – ${final}`;
+};
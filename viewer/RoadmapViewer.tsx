@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/// <reference types="vite/client" />
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import type { RoadmapData } from '../services/geminiService';
+import { findTask } from '../services/roadmapTasks';
+import { findDependencyConflicts } from '../services/roadmapDependencies';
+import { EMPTY_FILTER, getVisibility } from '../services/roadmapFilter';
+import { getThemeVariables } from '../services/themes';
+import type { ThemeId } from '../services/themes';
+import type { RoadmapViewMode } from '../services/svgRenderer';
+import { PillarView, TimelineView, createEditActions, describeTaskLocation } from '../components/RoadmapViews';
+import TaskDetailDrawer from '../components/TaskDetailDrawer';
+import { PillarIcon, TimelineIcon, WarningIcon } from '../components/icons';
+import { loadRoadmap, toViewerRoadmap } from './roadmapSource';
+import styles from './styles.css?inline';
+
+// --- Roadmap Viewer ---
+// The pillar and timeline views for other apps. The viewer renders into its own shadow root with
+// its own stylesheet, so the styles of the host page and of the viewer do not affect each other.
+
+export interface RoadmapEdit {
+  // The roadmap after the edit.
+  data: RoadmapData;
+  // What was done, e.g. 'Add "Billing API"'.
+  label: string;
+}
+
+export interface RoadmapViewerProps {
+  // The roadmap to show. Wins over src.
+  data?: RoadmapData;
+  // A URL of the roadmap as JSON or structured Markdown.
+  src?: string;
+  theme?: ThemeId;
+  initialView?: RoadmapViewMode;
+  // Turns on inline editing. Edits are kept by the viewer and reported through onEdit.
+  editable?: boolean;
+  onEdit?: (edit: RoadmapEdit) => void;
+  // Classes and styles for the element that holds the shadow root, e.g. to size it.
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Loads the roadmap from the props; null while it is being fetched.
+const useRoadmapSource = (data: RoadmapData | undefined, src: string | undefined) => {
+  const [roadmap, setRoadmap] = useState<RoadmapData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRoadmap(null);
+    setError(null);
+    if (data) {
+      try {
+        setRoadmap(toViewerRoadmap(data));
+      } catch (err: any) {
+        setError(err.message);
+      }
+      return;
+    }
+    if (!src) {
+      setError('No roadmap to show. Set the data or src of the viewer.');
+      return;
+    }
+    const controller = new AbortController();
+    loadRoadmap(src, controller.signal).then(setRoadmap, (err: Error) => {
+      if (!controller.signal.aborted) setError(err.message);
+    });
+    return () => controller.abort();
+  }, [data, src]);
+
+  return { roadmap, setRoadmap, error };
+};
+
+const ViewToggle: React.FC<{ viewMode: RoadmapViewMode; onChange: (viewMode: RoadmapViewMode) => void }> = ({ viewMode, onChange }) => (
+  <div className="flex items-center bg-gray-700 rounded-md p-0.5">
+    <button
+      onClick={() => onChange('pillar')}
+      className={`px-3 py-1.5 text-sm rounded ${viewMode === 'pillar' ? 'bg-gray-600 shadow' : 'opacity-70 hover:bg-gray-600/50'}`}
+      aria-label="Pillar View"
+      aria-pressed={viewMode === 'pillar'}
+    >
+      <PillarIcon className="w-5 h-5" />
+    </button>
+    <button
+      onClick={() => onChange('timeline')}
+      className={`px-3 py-1.5 text-sm rounded ${viewMode === 'timeline' ? 'bg-gray-600 shadow' : 'opacity-70 hover:bg-gray-600/50'}`}
+      aria-label="Timeline View"
+      aria-pressed={viewMode === 'timeline'}
+    >
+      <TimelineIcon className="w-5 h-5" />
+    </button>
+  </div>
+);
+
+const ViewerContent: React.FC<Omit<RoadmapViewerProps, 'theme' | 'className' | 'style'> & { initialView: RoadmapViewMode }> = ({ data, src, initialView, editable = false, onEdit }) => {
+  const { roadmap, setRoadmap, error } = useRoadmapSource(data, src);
+  const [viewMode, setViewMode] = useState(initialView);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const conflictingTaskIds = useMemo(() => new Set(roadmap ? findDependencyConflicts(roadmap).map(c => c.task.task.id) : []), [roadmap]);
+  const visibility = useMemo(() => roadmap && getVisibility(roadmap, EMPTY_FILTER), [roadmap]);
+  // Null once the selected deliverable is gone, e.g. after it was deleted.
+  const selectedTask = roadmap && selectedTaskId ? findTask(roadmap, selectedTaskId) : null;
+
+  useEffect(() => setViewMode(initialView), [initialView]);
+
+  const applyEdit = useCallback((label: string, update: (current: RoadmapData) => RoadmapData) => {
+    if (!roadmap) return;
+    const next = update(roadmap);
+    setRoadmap(next);
+    onEdit?.({ data: next, label });
+  }, [roadmap, onEdit]);
+  const actions = useMemo(() => (editable ? createEditActions(applyEdit) : undefined), [editable, applyEdit]);
+
+  if (error) {
+    return (
+      <div className="m-8 p-4 flex items-start gap-3 rounded-lg bg-red-900/40 border border-red-700 text-red-200" role="alert">
+        <WarningIcon className="w-5 h-5 flex-shrink-0" />
+        <p className="whitespace-pre-wrap text-sm">{error}</p>
+      </div>
+    );
+  }
+  if (!roadmap || !visibility) return <p className="p-8 text-gray-400">Loading roadmap...</p>;
+
+  const ViewComponent = viewMode === 'pillar' ? PillarView : TimelineView;
+  return (
+    <>
+      <div className="flex justify-end px-8 pt-4 flex-shrink-0">
+        <ViewToggle viewMode={viewMode} onChange={setViewMode} />
+      </div>
+      <div className="flex-1 overflow-hidden relative flex flex-col">
+        <div className="flex-1 overflow-auto">
+          <ViewComponent
+            data={roadmap}
+            actions={actions}
+            selectedTaskId={selectedTask ? selectedTaskId : null}
+            onSelectTask={actions && setSelectedTaskId}
+            conflictingTaskIds={conflictingTaskIds}
+            visibility={visibility}
+          />
+        </div>
+        {actions && selectedTask && (
+          <TaskDetailDrawer
+            task={selectedTask.task}
+            data={roadmap}
+            context={describeTaskLocation(roadmap, selectedTask)}
+            onChange={(changes) => actions.updateTask(selectedTask, changes)}
+            onAddDependency={(dependencyId) => actions.addDependency(selectedTask.task.id, dependencyId)}
+            onRemoveDependency={(dependencyId) => actions.removeDependency(selectedTask.task.id, dependencyId)}
+            onSelectTask={setSelectedTaskId}
+            onDelete={() => {
+              actions.deleteTask(selectedTask);
+              setSelectedTaskId(null);
+            }}
+            onClose={() => setSelectedTaskId(null)}
+          />
+        )}
+      </div>
+    </>
+  );
+};
+
+const RoadmapViewer: React.FC<RoadmapViewerProps> = ({ theme: themeProp, initialView: initialViewProp, className = '', style, ...props }) => {
+  // Defaulted here, since defaults in the parameter list widen the literal types to string.
+  const theme = themeProp ?? 'dark';
+  const initialView = initialViewProp ?? 'pillar';
+  const hostRef = useRef<HTMLDivElement>(null);
+  const [shadowRoot, setShadowRoot] = useState<ShadowRoot | null>(null);
+
+  useLayoutEffect(() => {
+    const host = hostRef.current!;
+    // An existing root is reused, e.g. when effects run twice in strict mode.
+    setShadowRoot(host.shadowRoot ?? host.attachShadow({ mode: 'open' }));
+  }, []);
+
+  // The theme variables are set on the viewer instead of the page, so each viewer can have its own.
+  const themeStyle = useMemo<React.CSSProperties>(
+    () => ({ ...getThemeVariables(theme), colorScheme: theme === 'light' ? 'light' : 'dark' }),
+    [theme]
+  );
+
+  return (
+    <div ref={hostRef} className={className} style={style}>
+      {shadowRoot && createPortal(
+        <>
+          <style>{styles}</style>
+          <div className="roadmap-viewer flex flex-col h-full bg-gray-900 text-gray-200" data-theme={theme} style={themeStyle}>
+            <ViewerContent {...props} initialView={initialView} />
+          </div>
+        </>,
+        shadowRoot
+      )}
+    </div>
+  );
+};
+
+export default RoadmapViewer;
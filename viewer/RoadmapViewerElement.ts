@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import type { RoadmapData } from '../services/geminiService';
+import { THEMES } from '../services/themes';
+import type { ThemeId } from '../services/themes';
+import RoadmapViewer from './RoadmapViewer';
+import type { RoadmapEdit } from './RoadmapViewer';
+
+// --- <roadmap-viewer> ---
+// The viewer as a custom element, for pages that do not use React:
+//   <roadmap-viewer src="/roadmaps/platform.json" theme="light" initial-view="timeline" editable></roadmap-viewer>
+// The roadmap can also be given as the `data` property. Edits are dispatched as "roadmap-edit" events.
+
+export const EDIT_EVENT = 'roadmap-edit';
+
+export class RoadmapViewerElement extends HTMLElement {
+    static observedAttributes = ['src', 'theme', 'initial-view', 'editable'];
+
+    private root: Root | null = null;
+    private roadmap: RoadmapData | undefined;
+
+    /** The roadmap to show. Wins over the src attribute. */
+    get data(): RoadmapData | undefined {
+        return this.roadmap;
+    }
+
+    set data(value: RoadmapData | undefined) {
+        this.roadmap = value ?? undefined;
+        this.render();
+    }
+
+    connectedCallback() {
+        if (!this.shadowRoot) {
+            const shadowRoot = this.attachShadow({ mode: 'open' });
+            const style = document.createElement('style');
+            style.textContent = ':host { display: block; }';
+            const container = document.createElement('div');
+            container.style.height = '100%';
+            shadowRoot.append(style, container);
+        }
+        this.root ??= createRoot(this.shadowRoot!.lastElementChild!);
+        this.render();
+    }
+
+    disconnectedCallback() {
+        this.root?.unmount();
+        this.root = null;
+    }
+
+    attributeChangedCallback() {
+        this.render();
+    }
+
+    private readonly handleEdit = (edit: RoadmapEdit) => {
+        this.dispatchEvent(new CustomEvent<RoadmapEdit>(EDIT_EVENT, { detail: edit, bubbles: true, composed: true }));
+    };
+
+    private render() {
+        if (!this.root) return;
+        const theme = this.getAttribute('theme');
+        this.root.render(createElement(RoadmapViewer, {
+            data: this.roadmap,
+            src: this.getAttribute('src') ?? undefined,
+            theme: THEMES.some(t => t.id === theme) ? theme as ThemeId : undefined,
+            initialView: this.getAttribute('initial-view') === 'timeline' ? 'timeline' : 'pillar',
+            editable: this.hasAttribute('editable'),
+            onEdit: this.handleEdit,
+            style: { height: '100%' },
+        }));
+    }
+}
+
+/** Registers the element, unless the tag name is taken already. */
+export const defineRoadmapViewer = (tagName = 'roadmap-viewer') => {
+    if (customElements.get(tagName)) return;
+    // A constructor can only be registered once, so each tag name gets its own subclass.
+    customElements.define(tagName, class extends RoadmapViewerElement {});
+};
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'roadmap-viewer': RoadmapViewerElement;
+    }
+    interface HTMLElementEventMap {
+        'roadmap-edit': CustomEvent<RoadmapEdit>;
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Entry of the element bundle, which includes React and registers <roadmap-viewer> when loaded.
+import { defineRoadmapViewer } from './RoadmapViewerElement';
+
+export * from './index';
+
+defineRoadmapViewer();
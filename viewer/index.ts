@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Viewer Package ---
+// The public API of the embeddable viewer. React apps render RoadmapViewer; other pages register
+// the <roadmap-viewer> element with defineRoadmapViewer, or load the element bundle, which does so.
+
+export { default as RoadmapViewer } from './RoadmapViewer';
+export type { RoadmapEdit, RoadmapViewerProps } from './RoadmapViewer';
+export { RoadmapViewerElement, defineRoadmapViewer, EDIT_EVENT } from './RoadmapViewerElement';
+export { loadRoadmap } from './roadmapSource';
+export type { RoadmapData } from '../services/geminiService';
+export type { ThemeId } from '../services/themes';
+export type { RoadmapViewMode } from '../services/svgRenderer';
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { RoadmapData } from '../services/geminiService';
+import { parseRoadmapMarkdown } from '../services/roadmapMarkdown';
+import { formatValidationIssues, RoadmapValidationError, validateRoadmap } from '../services/roadmapValidator';
+
+// --- Roadmap Sources ---
+// The viewer has no AI provider, so a roadmap is either RoadmapData or structured Markdown.
+
+/** Validates and repairs RoadmapData given by the host page. */
+export const toViewerRoadmap = (raw: unknown, source = 'The roadmap'): RoadmapData => {
+    const { data, issues } = validateRoadmap(raw);
+    if (!data) throw new RoadmapValidationError(`${source} failed validation:\n${formatValidationIssues(issues)}`, issues);
+    if (issues.length > 0) console.warn(`[Viewer] Repaired ${issues.length} problem(s) in ${source}:\n${formatValidationIssues(issues)}`);
+    return data;
+};
+
+const looksLikeJson = (response: Response, text: string) =>
+    (response.headers.get('content-type') ?? '').includes('json') || text.trimStart().startsWith('{');
+
+/** Fetches a roadmap saved as JSON (e.g. by the CLI) or as structured Markdown. */
+export const loadRoadmap = async (url: string, signal?: AbortSignal): Promise<RoadmapData> => {
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`Could not load ${url}: ${response.status} ${response.statusText}`.trim());
+    const text = await response.text();
+
+    if (looksLikeJson(response, text)) return toViewerRoadmap(JSON.parse(text), url);
+    const { data } = parseRoadmapMarkdown(text);
+    if (data.pillars.length === 0 && data.timeframes.length === 0) {
+        throw new Error(`${url} is neither RoadmapData nor a roadmap in the structured Markdown format.`);
+    }
+    return toViewerRoadmap(data, url);
+};
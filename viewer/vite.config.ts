@@ -0,0 +1,51 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import tailwindcss from 'tailwindcss'
+import { fileURLToPath } from 'url';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const shades = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// Builds the embeddable viewer (viewer/) as a library:
+//   vite build --config viewer/vite.config.ts                 -> the package, for React apps
+//   vite build --config viewer/vite.config.ts --mode element  -> one script with React, for any page
+export default defineConfig(({ mode }) => {
+  const isElementBundle = mode === 'element';
+
+  return {
+    root,
+    plugins: [react()],
+    css: {
+      postcss: {
+        // The app loads Tailwind from a CDN. The viewer compiles the classes it uses into its
+        // stylesheet, with the same color variables as the config in index.html.
+        plugins: [tailwindcss({
+          content: [`${root}components/**/*.tsx`, `${root}viewer/**/*.tsx`],
+          theme: {
+            extend: {
+              colors: Object.fromEntries(['gray', 'blue', 'green', 'amber', 'yellow', 'red', 'sky'].map(name => [
+                name,
+                Object.fromEntries(shades.map(shade => [shade, `rgb(var(--color-${name}-${shade}) / <alpha-value>)`])),
+              ])),
+            },
+          },
+        })],
+      },
+    },
+    // Libraries keep process.env for their users to set, but the element bundle runs as is.
+    define: isElementBundle ? { 'process.env.NODE_ENV': JSON.stringify('production') } : {},
+    build: {
+      outDir: 'dist-viewer',
+      emptyOutDir: !isElementBundle,
+      lib: {
+        entry: `${root}viewer/${isElementBundle ? 'element' : 'index'}.ts`,
+        formats: ['es'],
+        fileName: () => (isElementBundle ? 'roadmap-viewer.element.js' : 'roadmap-viewer.js'),
+      },
+      rollupOptions: {
+        // React apps bring their own React.
+        external: isElementBundle ? [] : [/^react($|\/)/, /^react-dom($|\/)/],
+      },
+    },
+  }
+})
@@ -5,26 +5,40 @@ import basicSsl from '@vitejs/plugin-basic-ssl'
 import process from 'process';
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, process.cwd(), '');
+  // Direct mode calls credentialed AI providers from the browser, which puts their keys into the
+  // bundle. It is for local development only; by default the app server (server/) holds the keys.
+  const directMode = env.VITE_AI_DIRECT_MODE === 'true';
 
   return {
     // FIX: Remove server config. The basicSsl plugin automatically configures https,
     // and leaving this in can cause type conflicts.
     plugins: [react(), basicSsl()],
+    // During development, AI requests go to the app server started with `npm run server`.
+    server: {
+      proxy: { '/api': `http://localhost:${env.PORT || 8787}` },
+    },
     // The 'define' option performs a direct text replacement at build time. This is the
     // most reliable way to inject environment variables in specialized environments
     // where Vite's standard `import.meta.env` mechanism may not be fully supported.
-    define: {
+    // The server build (`npm run build:server`) reads its environment at runtime instead.
+    define: isSsrBuild ? {} : {
       // We use JSON.stringify to ensure the values are correctly quoted as strings.
       // We also provide a fallback to an empty string to avoid "undefined" being injected.
       'process.env.VITE_AI_PROVIDER': JSON.stringify(env.VITE_AI_PROVIDER || 'GEMINI'),
       'process.env.VITE_AI_GATEWAY_URL': JSON.stringify(env.VITE_AI_GATEWAY_URL || ''),
-      'process.env.VITE_AI_GATEWAY_API_KEY': JSON.stringify(env.VITE_AI_GATEWAY_API_KEY || ''),
+      'process.env.VITE_AI_GATEWAY_API_KEY': JSON.stringify(directMode ? env.VITE_AI_GATEWAY_API_KEY || '' : ''),
       // FIX: Corrected typo from VTE_ to VITE_
       'process.env.VITE_AI_GATEWAY_MODEL': JSON.stringify(env.VITE_AI_GATEWAY_MODEL || ''),
+      // Optional per-provider defaults. All of them can also be changed at runtime in the settings dialog.
+      'process.env.VITE_GEMINI_MODEL': JSON.stringify(env.VITE_GEMINI_MODEL || ''),
+      'process.env.VITE_OLLAMA_URL': JSON.stringify(env.VITE_OLLAMA_URL || ''),
+      'process.env.VITE_OLLAMA_MODEL': JSON.stringify(env.VITE_OLLAMA_MODEL || ''),
+      'process.env.VITE_AI_DIRECT_MODE': JSON.stringify(directMode ? 'true' : ''),
+      'process.env.VITE_AI_PROXY_URL': JSON.stringify(env.VITE_AI_PROXY_URL || ''),
       // Per project guidelines, the Gemini API key MUST come from the execution environment's `process.env.API_KEY`.
       // It is NOT defined here, so the application code will read it directly from the true `process.env` object.
     }